@@ -0,0 +1,806 @@
+import { SchemaNode, SchemaCheck, describeSchemaType } from './SchemaInterpreter';
+
+/**
+ * The parts of a contract compared between two versions
+ */
+export interface ContractSnapshot {
+  /**
+   * Stable contract ID, e.g. `users/get`
+   */
+  id: string;
+  
+  method: string;
+  path: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  
+  auth: {
+    requiresAuthentication: boolean;
+    roles: string[];
+    scopes: string[];
+  };
+  
+  params?: SchemaNode;
+  query?: SchemaNode;
+  body?: SchemaNode;
+  
+  responses: Array<{ status: number; schema?: SchemaNode }>;
+}
+
+/**
+ * How a change affects existing clients
+ *
+ * - `breaking`: requests that used to be valid are rejected, or clients receive data they do not expect
+ * - `potentially-breaking`: safe for most clients, but may break some (e.g. a new enum value in a response)
+ * - `non-breaking`: every existing client keeps working
+ */
+export type ChangeSeverity = 'breaking' | 'potentially-breaking' | 'non-breaking';
+
+/**
+ * A single change between two versions of a contract
+ */
+export interface ContractChange {
+  contractId: string;
+  severity: ChangeSeverity;
+  
+  /**
+   * Stable change code, e.g. `response.status-removed` or `schema.field-required`
+   */
+  code: string;
+  
+  message: string;
+  
+  /**
+   * Where the change is, e.g. `body.address.city` or `response.200.items[].id`
+   */
+  schemaPath?: string;
+  
+  before?: any;
+  after?: any;
+}
+
+/**
+ * Result of comparing two contract trees
+ */
+export interface ContractDiffReport {
+  /**
+   * Whether no change is breaking
+   */
+  compatible: boolean;
+  
+  changes: ContractChange[];
+  
+  /**
+   * Number of changes per severity
+   */
+  summary: {
+    breaking: number;
+    potentiallyBreaking: number;
+    nonBreaking: number;
+  };
+  
+  /**
+   * IDs of contracts found in both versions
+   */
+  compared: string[];
+  
+  /**
+   * IDs of contracts only found in the new version
+   */
+  added: string[];
+  
+  /**
+   * IDs of contracts only found in the old version
+   */
+  removed: string[];
+}
+
+/**
+ * Which way data flows through a schema: requests are sent by clients, responses received by them
+ */
+type Direction = 'request' | 'response';
+
+/**
+ * A schema with the wrappers that only make it optional or nullable stripped
+ */
+interface UnwrappedSchema {
+  node: SchemaNode;
+  optional: boolean;
+  nullable: boolean;
+  defaultValue?: any;
+}
+
+/**
+ * A lower or upper bound from the checks of a schema
+ */
+interface Bound {
+  value: number;
+  exclusive: boolean;
+}
+
+/**
+ * Checks compared as lower and upper bounds rather than by value
+ */
+const BOUND_CHECKS = new Set(['min', 'max', 'length', 'gt', 'lt', 'positive', 'negative', 'nonnegative', 'nonpositive', 'nonempty']);
+
+/**
+ * Compares two versions of a set of contracts and classifies every change by how it affects clients
+ *
+ * Requests and responses are judged in opposite directions: a constraint added to a
+ * request field rejects requests that used to be valid, while the same constraint on a
+ * response field only narrows what clients receive. Schemas are compared by the values
+ * they accept on the wire, so a field with a default counts as optional.
+ */
+export class ContractDiffer {
+  private changes: ContractChange[] = [];
+  
+  /**
+   * Compare two versions of a set of contracts, matched by contract ID
+   *
+   * A removed contract that has the same method and path as an added one is treated as moved.
+   */
+  diff(before: ContractSnapshot[], after: ContractSnapshot[]): ContractDiffReport {
+    this.changes = [];
+    
+    const afterById = new Map(after.map(contract => [contract.id, contract]));
+    const beforeIds = new Set(before.map(contract => contract.id));
+    const added = after.filter(contract => !beforeIds.has(contract.id));
+    const compared: string[] = [];
+    const removed: string[] = [];
+    
+    for (const contract of before) {
+      const match = afterById.get(contract.id);
+      if (match) {
+        compared.push(contract.id);
+        this.compareContracts(contract, match);
+        continue;
+      }
+      
+      const movedIndex = added.findIndex(candidate => candidate.method === contract.method
+        && normalizeRoute(candidate.path) === normalizeRoute(contract.path));
+      if (movedIndex >= 0) {
+        const [moved] = added.splice(movedIndex, 1);
+        compared.push(moved.id);
+        this.add(moved.id, 'non-breaking', 'contract.moved', `Contract moved from ${contract.id} to ${moved.id}`, undefined, contract.id, moved.id);
+        this.compareContracts(contract, moved);
+        continue;
+      }
+      
+      removed.push(contract.id);
+      this.add(contract.id, 'breaking', 'contract.removed', `${contract.method.toUpperCase()} ${contract.path} was removed`);
+    }
+    
+    for (const contract of added) {
+      this.add(contract.id, 'non-breaking', 'contract.added', `${contract.method.toUpperCase()} ${contract.path} was added`);
+    }
+    
+    const count = (severity: ChangeSeverity) => this.changes.filter(change => change.severity === severity).length;
+    return {
+      compatible: count('breaking') === 0,
+      changes: this.changes,
+      summary: {
+        breaking: count('breaking'),
+        potentiallyBreaking: count('potentially-breaking'),
+        nonBreaking: count('non-breaking')
+      },
+      compared,
+      added: added.map(contract => contract.id),
+      removed
+    };
+  }
+  
+  /**
+   * Compare two versions of one contract
+   */
+  private compareContracts(before: ContractSnapshot, after: ContractSnapshot): void {
+    const id = after.id;
+    
+    if (before.method !== after.method) {
+      this.add(id, 'breaking', 'contract.method-changed', `Method changed from ${before.method.toUpperCase()} to ${after.method.toUpperCase()}`, 'method', before.method, after.method);
+    }
+    if (before.path !== after.path) {
+      // Renaming a path parameter does not change the URLs clients call
+      const renamedOnly = normalizeRoute(before.path) === normalizeRoute(after.path);
+      this.add(
+        id,
+        renamedOnly ? 'non-breaking' : 'breaking',
+        renamedOnly ? 'contract.path-param-renamed' : 'contract.path-changed',
+        renamedOnly ? `Path parameters were renamed in ${after.path}` : `Path changed from ${before.path} to ${after.path}`,
+        'path',
+        before.path,
+        after.path
+      );
+    }
+    for (const field of ['summary', 'description'] as const) {
+      if ((before[field] || '') !== (after[field] || '')) {
+        this.add(id, 'non-breaking', 'contract.documentation-changed', `The ${field} changed`, field, before[field], after[field]);
+      }
+    }
+    if ([...before.tags].sort().join('\n') !== [...after.tags].sort().join('\n')) {
+      this.add(id, 'non-breaking', 'contract.documentation-changed', 'The tags changed', 'tags', before.tags, after.tags);
+    }
+    
+    this.compareAuth(before, after);
+    
+    // Compare renamed path parameters under their new names
+    const beforeParams = normalizeRoute(before.path) === normalizeRoute(after.path) && before.params
+      ? renameParams(before.params, before.path, after.path)
+      : before.params;
+    this.compareRequestSchema(id, 'params', beforeParams, after.params);
+    this.compareRequestSchema(id, 'query', before.query, after.query);
+    this.compareRequestSchema(id, 'body', before.body, after.body);
+    
+    this.compareResponses(before, after);
+  }
+  
+  /**
+   * Compare the authentication and authorization requirements
+   *
+   * Roles are alternatives (any of them grants access), scopes are all required.
+   */
+  private compareAuth(before: ContractSnapshot, after: ContractSnapshot): void {
+    const id = after.id;
+    
+    if (!before.auth.requiresAuthentication && after.auth.requiresAuthentication) {
+      this.add(id, 'breaking', 'auth.authentication-required', 'Authentication is now required', 'auth.requiresAuthentication', false, true);
+    } else if (before.auth.requiresAuthentication && !after.auth.requiresAuthentication) {
+      this.add(id, 'non-breaking', 'auth.authentication-optional', 'Authentication is no longer required', 'auth.requiresAuthentication', true, false);
+    }
+    
+    const removedRoles = before.auth.roles.filter(role => !after.auth.roles.includes(role));
+    const addedRoles = after.auth.roles.filter(role => !before.auth.roles.includes(role));
+    
+    if (before.auth.roles.length === 0 && after.auth.roles.length > 0) {
+      this.add(id, 'breaking', 'auth.roles-introduced', `Access is now restricted to the roles ${after.auth.roles.join(', ')}`, 'auth.authorization.roles', [], after.auth.roles);
+    } else if (after.auth.roles.length === 0 && before.auth.roles.length > 0) {
+      this.add(id, 'non-breaking', 'auth.roles-lifted', 'Access is no longer restricted by role', 'auth.authorization.roles', before.auth.roles, []);
+    } else {
+      removedRoles.forEach(role => {
+        this.add(id, 'breaking', 'auth.role-removed', `Role ${role} no longer grants access`, 'auth.authorization.roles', before.auth.roles, after.auth.roles);
+      });
+      addedRoles.forEach(role => {
+        this.add(id, 'non-breaking', 'auth.role-added', `Role ${role} now grants access`, 'auth.authorization.roles', before.auth.roles, after.auth.roles);
+      });
+    }
+    
+    after.auth.scopes.filter(scope => !before.auth.scopes.includes(scope)).forEach(scope => {
+      this.add(id, 'breaking', 'auth.scope-added', `Scope ${scope} is now required`, 'auth.authorization.scopes', before.auth.scopes, after.auth.scopes);
+    });
+    before.auth.scopes.filter(scope => !after.auth.scopes.includes(scope)).forEach(scope => {
+      this.add(id, 'non-breaking', 'auth.scope-removed', `Scope ${scope} is no longer required`, 'auth.authorization.scopes', before.auth.scopes, after.auth.scopes);
+    });
+  }
+  
+  /**
+   * Compare the params, query or body schema
+   */
+  private compareRequestSchema(id: string, target: 'params' | 'query' | 'body', before?: SchemaNode, after?: SchemaNode): void {
+    if (!before && !after) {
+      return;
+    }
+    
+    if (!before) {
+      const optional = unwrap(after!).optional;
+      this.add(
+        id,
+        optional || target !== 'body' ? 'potentially-breaking' : 'breaking',
+        'request.schema-added',
+        `A ${target} schema was added`,
+        target
+      );
+      return;
+    }
+    
+    if (!after) {
+      this.add(id, 'potentially-breaking', 'request.schema-removed', `The ${target} schema was removed, so ${target} values are no longer validated`, target);
+      return;
+    }
+    
+    this.compareSchemas(id, 'request', target, before, after);
+  }
+  
+  /**
+   * Compare the declared responses
+   */
+  private compareResponses(before: ContractSnapshot, after: ContractSnapshot): void {
+    const id = after.id;
+    const afterByStatus = new Map(after.responses.map(response => [response.status, response]));
+    const beforeStatuses = new Set(before.responses.map(response => response.status));
+    
+    for (const response of before.responses) {
+      const schemaPath = `response.${response.status}`;
+      const match = afterByStatus.get(response.status);
+      
+      if (!match) {
+        this.add(id, 'breaking', 'response.status-removed', `Status ${response.status} was removed from the responses`, schemaPath);
+      } else if (response.schema && !match.schema) {
+        this.add(id, 'breaking', 'response.schema-removed', `The ${response.status} response no longer declares a body schema`, schemaPath);
+      } else if (!response.schema && match.schema) {
+        this.add(id, 'non-breaking', 'response.schema-added', `The ${response.status} response now declares a body schema`, schemaPath);
+      } else if (response.schema && match.schema) {
+        this.compareSchemas(id, 'response', schemaPath, response.schema, match.schema);
+      }
+    }
+    
+    for (const response of after.responses) {
+      if (!beforeStatuses.has(response.status)) {
+        this.add(id, 'non-breaking', 'response.status-added', `Status ${response.status} was added to the responses`, `response.${response.status}`);
+      }
+    }
+  }
+  
+  /**
+   * Compare two versions of a schema
+   */
+  private compareSchemas(id: string, direction: Direction, schemaPath: string, beforeSchema: SchemaNode, afterSchema: SchemaNode): void {
+    const before = unwrap(beforeSchema);
+    const after = unwrap(afterSchema);
+    
+    if (before.nullable !== after.nullable) {
+      // null is a new value clients may send (fine) or receive (not expected)
+      const widened = after.nullable;
+      this.add(
+        id,
+        widened === (direction === 'request') ? 'non-breaking' : 'breaking',
+        widened ? 'schema.nullable-added' : 'schema.nullable-removed',
+        `${describePath(direction, schemaPath)} ${widened ? 'may now be null' : 'may no longer be null'}`,
+        schemaPath
+      );
+    }
+    if (JSON.stringify(before.defaultValue) !== JSON.stringify(after.defaultValue) && before.defaultValue !== undefined && after.defaultValue !== undefined) {
+      this.add(id, 'potentially-breaking', 'schema.default-changed', `The default of ${describePath(direction, schemaPath)} changed`, schemaPath, before.defaultValue, after.defaultValue);
+    }
+    
+    this.compareNodes(id, direction, schemaPath, before.node, after.node);
+  }
+  
+  /**
+   * Compare two schemas after unwrapping them
+   */
+  private compareNodes(id: string, direction: Direction, schemaPath: string, before: SchemaNode, after: SchemaNode): void {
+    const where = describePath(direction, schemaPath);
+    
+    if (before.kind === 'unresolved' || after.kind === 'unresolved') {
+      const beforeSource = before.kind === 'unresolved' ? before.source : undefined;
+      const afterSource = after.kind === 'unresolved' ? after.source : undefined;
+      if (beforeSource !== afterSource) {
+        this.add(id, 'potentially-breaking', 'schema.unreadable', `${where} could not be read statically, so the change could not be classified`, schemaPath, beforeSource, afterSource);
+      }
+      return;
+    }
+    
+    const beforeValues = getLiteralValues(before);
+    const afterValues = getLiteralValues(after);
+    if (beforeValues && afterValues) {
+      this.compareValues(id, direction, schemaPath, beforeValues, afterValues);
+      return;
+    }
+    
+    if (before.kind === 'union' || after.kind === 'union') {
+      this.compareUnions(id, direction, schemaPath, before, after);
+      return;
+    }
+    
+    if (before.kind !== after.kind) {
+      this.add(id, 'breaking', 'schema.type-changed', `${where} changed from ${describeSchemaType(before)} to ${describeSchemaType(after)}`, schemaPath, describeSchemaType(before), describeSchemaType(after));
+      return;
+    }
+    
+    switch (before.kind) {
+      case 'string':
+      case 'number':
+        this.compareChecks(id, direction, schemaPath, before.checks, (after as typeof before).checks);
+        break;
+      
+      case 'object':
+        this.compareObjects(id, direction, schemaPath, before, after as typeof before);
+        break;
+      
+      case 'array':
+        this.compareChecks(id, direction, schemaPath, before.checks, (after as typeof before).checks);
+        this.compareSchemas(id, direction, `${schemaPath}[]`, before.element, (after as typeof before).element);
+        break;
+      
+      case 'tuple': {
+        const afterTuple = after as typeof before;
+        if (before.items.length !== afterTuple.items.length || !!before.rest !== !!afterTuple.rest) {
+          this.add(id, 'breaking', 'schema.type-changed', `${where} changed from ${describeSchemaType(before)} to ${describeSchemaType(after)}`, schemaPath, describeSchemaType(before), describeSchemaType(after));
+          break;
+        }
+        before.items.forEach((item, index) => this.compareSchemas(id, direction, `${schemaPath}[${index}]`, item, afterTuple.items[index]));
+        break;
+      }
+      
+      case 'record':
+        this.compareSchemas(id, direction, `${schemaPath}[]`, before.value, (after as typeof before).value);
+        break;
+      
+      case 'intersection':
+        this.compareSchemas(id, direction, schemaPath, before.left, (after as typeof before).left);
+        this.compareSchemas(id, direction, schemaPath, before.right, (after as typeof before).right);
+        break;
+    }
+  }
+  
+  /**
+   * Compare the properties of two object schemas
+   */
+  private compareObjects(id: string, direction: Direction, schemaPath: string, before: SchemaNode & { kind: 'object' }, after: SchemaNode & { kind: 'object' }): void {
+    for (const [key, property] of Object.entries(before.shape)) {
+      const fieldPath = `${schemaPath}.${key}`;
+      const match = after.shape[key];
+      const where = describePath(direction, fieldPath);
+      
+      if (!match) {
+        if (direction === 'response') {
+          this.add(id, 'breaking', 'schema.field-removed', `${where} was removed`, fieldPath);
+        } else {
+          // Unknown keys are stripped, or rejected by strict objects
+          this.add(id, after.unknownKeys === 'strict' ? 'breaking' : 'potentially-breaking', 'schema.field-removed', `${where} was removed and is no longer read`, fieldPath);
+        }
+        continue;
+      }
+      
+      const wasOptional = unwrap(property).optional;
+      const isOptional = unwrap(match).optional;
+      if (!wasOptional && isOptional) {
+        this.add(id, direction === 'request' ? 'non-breaking' : 'breaking', 'schema.field-optional', `${where} became optional`, fieldPath);
+      } else if (wasOptional && !isOptional) {
+        this.add(id, direction === 'request' ? 'breaking' : 'non-breaking', 'schema.field-required', `${where} became required`, fieldPath);
+      }
+      
+      this.compareSchemas(id, direction, fieldPath, property, match);
+    }
+    
+    for (const [key, property] of Object.entries(after.shape)) {
+      if (before.shape[key]) {
+        continue;
+      }
+      
+      const fieldPath = `${schemaPath}.${key}`;
+      const required = !unwrap(property).optional;
+      this.add(
+        id,
+        direction === 'request' && required ? 'breaking' : 'non-breaking',
+        'schema.field-added',
+        `${required ? 'Required' : 'Optional'} ${describePath(direction, fieldPath).replace(/^[A-Z]/, letter => letter.toLowerCase())} was added`,
+        fieldPath
+      );
+    }
+    
+    if (direction === 'request' && before.unknownKeys !== after.unknownKeys) {
+      const stricter = after.unknownKeys === 'strict';
+      this.add(
+        id,
+        stricter ? 'breaking' : 'non-breaking',
+        'schema.unknown-keys-changed',
+        `${describePath(direction, schemaPath)} ${stricter ? 'now rejects' : 'no longer rejects'} unknown keys`,
+        schemaPath,
+        before.unknownKeys,
+        after.unknownKeys
+      );
+    }
+  }
+  
+  /**
+   * Compare two sets of allowed values (enums and literals)
+   */
+  private compareValues(id: string, direction: Direction, schemaPath: string, before: Array<string | number | boolean | null>, after: Array<string | number | boolean | null>): void {
+    const where = describePath(direction, schemaPath);
+    const removed = before.filter(value => !after.includes(value));
+    const added = after.filter(value => !before.includes(value));
+    
+    if (removed.length > 0) {
+      this.add(
+        id,
+        direction === 'request' ? 'breaking' : 'non-breaking',
+        'schema.enum-values-removed',
+        `${where} no longer allows ${removed.map(value => JSON.stringify(value)).join(', ')}`,
+        schemaPath,
+        before,
+        after
+      );
+    }
+    if (added.length > 0) {
+      // Clients switching over the values may not handle new ones
+      this.add(
+        id,
+        direction === 'request' ? 'non-breaking' : 'potentially-breaking',
+        'schema.enum-values-added',
+        `${where} now allows ${added.map(value => JSON.stringify(value)).join(', ')}`,
+        schemaPath,
+        before,
+        after
+      );
+    }
+  }
+  
+  /**
+   * Compare schemas where at least one side is a union, matching the options by type
+   */
+  private compareUnions(id: string, direction: Direction, schemaPath: string, before: SchemaNode, after: SchemaNode): void {
+    const beforeOptions = before.kind === 'union' ? before.options : [before];
+    const afterOptions = after.kind === 'union' ? after.options : [after];
+    const where = describePath(direction, schemaPath);
+    
+    const removed = beforeOptions.filter(option => !afterOptions.some(candidate => sameOption(option, candidate)));
+    const added = afterOptions.filter(option => !beforeOptions.some(candidate => sameOption(option, candidate)));
+    
+    if (removed.length > 0) {
+      this.add(
+        id,
+        direction === 'request' ? 'breaking' : 'non-breaking',
+        'schema.union-options-removed',
+        `${where} no longer accepts ${removed.map(describeSchemaType).join(' | ')}`,
+        schemaPath,
+        describeSchemaType(before),
+        describeSchemaType(after)
+      );
+    }
+    if (added.length > 0) {
+      this.add(
+        id,
+        direction === 'request' ? 'non-breaking' : 'breaking',
+        'schema.union-options-added',
+        `${where} now also accepts ${added.map(describeSchemaType).join(' | ')}`,
+        schemaPath,
+        describeSchemaType(before),
+        describeSchemaType(after)
+      );
+    }
+    
+    // Options present on both sides may still have changed inside
+    for (const option of beforeOptions) {
+      const match = afterOptions.find(candidate => sameOption(option, candidate));
+      if (match) {
+        this.compareNodes(id, direction, schemaPath, unwrap(option).node, unwrap(match).node);
+      }
+    }
+  }
+  
+  /**
+   * Compare the checks of a string, number or array schema
+   *
+   * Bounds (`min`, `max`, `gt`, ...) are compared by value; other checks, such as
+   * formats and patterns, by whether they were added, removed or changed.
+   */
+  private compareChecks(id: string, direction: Direction, schemaPath: string, before: SchemaCheck[], after: SchemaCheck[]): void {
+    const where = describePath(direction, schemaPath);
+    const tightened: string[] = [];
+    const loosened: string[] = [];
+    const changed: string[] = [];
+    
+    for (const side of ['lower', 'upper'] as const) {
+      const beforeBound = getBound(before, side);
+      const afterBound = getBound(after, side);
+      const unbounded = side === 'lower' ? 'no minimum' : 'no maximum';
+      const change = `${afterBound ? formatBound(afterBound, side) : unbounded} (was ${beforeBound ? formatBound(beforeBound, side) : unbounded})`;
+      
+      if (!beforeBound && afterBound) {
+        tightened.push(change);
+      } else if (beforeBound && !afterBound) {
+        loosened.push(change);
+      } else if (beforeBound && afterBound) {
+        const comparison = compareBounds(beforeBound, afterBound, side);
+        if (comparison > 0) {
+          tightened.push(change);
+        } else if (comparison < 0) {
+          loosened.push(change);
+        }
+      }
+    }
+    
+    const otherChecks = (checks: SchemaCheck[]) => new Map(checks
+      .filter(check => !BOUND_CHECKS.has(check.kind))
+      .map(check => [check.kind, JSON.stringify(check.value ?? null)]));
+    const beforeOther = otherChecks(before);
+    const afterOther = otherChecks(after);
+    
+    for (const [kind, value] of afterOther) {
+      if (!beforeOther.has(kind)) {
+        tightened.push(`${kind} added`);
+      } else if (beforeOther.get(kind) !== value) {
+        changed.push(`${kind} changed`);
+      }
+    }
+    for (const kind of beforeOther.keys()) {
+      if (!afterOther.has(kind)) {
+        loosened.push(`${kind} removed`);
+      }
+    }
+    
+    if (tightened.length > 0) {
+      this.add(id, direction === 'request' ? 'breaking' : 'non-breaking', 'schema.constraint-tightened', `${where} is more constrained: ${tightened.join(', ')}`, schemaPath);
+    }
+    if (loosened.length > 0) {
+      this.add(id, direction === 'request' ? 'non-breaking' : 'potentially-breaking', 'schema.constraint-loosened', `${where} is less constrained: ${loosened.join(', ')}`, schemaPath);
+    }
+    if (changed.length > 0) {
+      this.add(id, 'potentially-breaking', 'schema.constraint-changed', `${where} has changed constraints: ${changed.join(', ')}`, schemaPath);
+    }
+  }
+  
+  /**
+   * Record a change
+   */
+  private add(contractId: string, severity: ChangeSeverity, code: string, message: string, schemaPath?: string, before?: any, after?: any): void {
+    this.changes.push({
+      contractId,
+      severity,
+      code,
+      message,
+      ...(schemaPath ? { schemaPath } : {}),
+      ...(before !== undefined ? { before } : {}),
+      ...(after !== undefined ? { after } : {})
+    });
+  }
+}
+
+/**
+ * Strip the wrappers that only change whether a value may be left out or be null,
+ * looking at the value sent on the wire (transforms and pipes by their input)
+ */
+function unwrap(node: SchemaNode): UnwrappedSchema {
+  let current = node;
+  let optional = false;
+  let nullable = false;
+  let defaultValue: any;
+  
+  for (;;) {
+    switch (current.kind) {
+      case 'optional':
+        optional = true;
+        current = current.inner;
+        break;
+      case 'nullable':
+        nullable = true;
+        current = current.inner;
+        break;
+      case 'default':
+        optional = true;
+        defaultValue = defaultValue ?? current.value;
+        current = current.inner;
+        break;
+      case 'catch':
+      case 'transform':
+        current = current.inner;
+        break;
+      case 'pipe':
+        current = current.input;
+        break;
+      default:
+        return { node: current, optional, nullable, ...(defaultValue !== undefined ? { defaultValue } : {}) };
+    }
+  }
+}
+
+/**
+ * The values allowed by an enum or literal schema
+ */
+function getLiteralValues(node: SchemaNode): Array<string | number | boolean | null> | undefined {
+  if (node.kind === 'enum') {
+    return node.values;
+  }
+  if (node.kind === 'literal') {
+    return [node.value];
+  }
+  if (node.kind === 'union' && node.options.length > 0) {
+    const values = node.options.map(option => getLiteralValues(unwrap(option).node));
+    return values.every(Boolean) ? values.flat() as Array<string | number | boolean | null> : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Whether two union options describe the same kind of value
+ */
+function sameOption(a: SchemaNode, b: SchemaNode): boolean {
+  const left = unwrap(a).node;
+  const right = unwrap(b).node;
+  
+  if (left.name && right.name) {
+    return left.name === right.name;
+  }
+  if (left.kind === 'literal' && right.kind === 'literal') {
+    return left.value === right.value;
+  }
+  return left.kind === right.kind;
+}
+
+/**
+ * The lower or upper bound set by the checks of a schema
+ */
+function getBound(checks: SchemaCheck[], side: 'lower' | 'upper'): Bound | undefined {
+  let bound: Bound | undefined;
+  
+  for (const check of checks) {
+    let candidate: Bound | undefined;
+    if (side === 'lower') {
+      if (check.kind === 'min' || check.kind === 'length') {
+        candidate = { value: check.value, exclusive: false };
+      } else if (check.kind === 'gt') {
+        candidate = { value: check.value, exclusive: true };
+      } else if (check.kind === 'positive') {
+        candidate = { value: 0, exclusive: true };
+      } else if (check.kind === 'nonnegative') {
+        candidate = { value: 0, exclusive: false };
+      } else if (check.kind === 'nonempty') {
+        candidate = { value: 1, exclusive: false };
+      }
+    } else if (check.kind === 'max' || check.kind === 'length') {
+      candidate = { value: check.value, exclusive: false };
+    } else if (check.kind === 'lt') {
+      candidate = { value: check.value, exclusive: true };
+    } else if (check.kind === 'negative') {
+      candidate = { value: 0, exclusive: true };
+    } else if (check.kind === 'nonpositive') {
+      candidate = { value: 0, exclusive: false };
+    }
+    
+    if (candidate && typeof candidate.value === 'number' && (!bound || compareBounds(bound, candidate, side) > 0)) {
+      bound = candidate;
+    }
+  }
+  
+  return bound;
+}
+
+/**
+ * Compare two bounds on the same side: positive when the second one is stricter,
+ * negative when it is looser
+ */
+function compareBounds(before: Bound, after: Bound, side: 'lower' | 'upper'): number {
+  if (before.value !== after.value) {
+    return side === 'lower' ? after.value - before.value : before.value - after.value;
+  }
+  return Number(after.exclusive) - Number(before.exclusive);
+}
+
+/**
+ * Format a bound, e.g. `at least 1` or `less than 100`
+ */
+function formatBound(bound: Bound, side: 'lower' | 'upper'): string {
+  if (side === 'lower') {
+    return `${bound.exclusive ? 'more than' : 'at least'} ${bound.value}`;
+  }
+  return `${bound.exclusive ? 'less than' : 'at most'} ${bound.value}`;
+}
+
+/**
+ * Describe where a schema is for messages, e.g. `Request field body.name`,
+ * `Request query` or `The 200 response body`
+ */
+function describePath(direction: Direction, schemaPath: string): string {
+  const response = schemaPath.match(/^response\.(\d+)$/);
+  if (response) {
+    return `The ${response[1]} response body`;
+  }
+  
+  const isField = direction === 'response' || /[.[]/.test(schemaPath);
+  return `${direction === 'request' ? 'Request' : 'Response'} ${isField ? 'field ' : ''}${schemaPath}`;
+}
+
+/**
+ * A route with parameter names removed, so `/users/:id` and `/users/:userId` compare equal
+ */
+function normalizeRoute(apiPath: string): string {
+  return apiPath.replace(/:[A-Za-z0-9_]+/g, ':');
+}
+
+/**
+ * Rename the properties of a params schema from the parameter names of one route to another
+ */
+function renameParams(node: SchemaNode, beforePath: string, afterPath: string): SchemaNode {
+  const beforeNames = (beforePath.match(/:[A-Za-z0-9_]+/g) || []).map(name => name.slice(1));
+  const afterNames = (afterPath.match(/:[A-Za-z0-9_]+/g) || []).map(name => name.slice(1));
+  if (node.kind !== 'object' || beforeNames.join('/') === afterNames.join('/')) {
+    return node;
+  }
+  
+  const shape = Object.fromEntries(Object.entries(node.shape).map(([key, value]) => {
+    const index = beforeNames.indexOf(key);
+    return [index >= 0 && afterNames[index] ? afterNames[index] : key, value];
+  }));
+  return { ...node, shape };
+}
@@ -0,0 +1,196 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * A contract file found under the contracts base path
+ */
+export interface DiscoveredContract {
+  /**
+   * Stable contract ID derived from the relative path,
+   * e.g. `admin/api-key/get` for `admin/api-key/get.contracts.ts`
+   */
+  id: string;
+  
+  /**
+   * Path relative to the contracts base path, always with `/` separators
+   */
+  relativePath: string;
+  
+  /**
+   * Absolute path to the contract file
+   */
+  absolutePath: string;
+}
+
+/**
+ * Options for contract discovery
+ */
+export interface ContractDiscoveryOptions {
+  /**
+   * Glob patterns (relative to the base path) a contract file must match
+   */
+  include: string[];
+  
+  /**
+   * Glob patterns (relative to the base path) that exclude a file or directory
+   */
+  exclude: string[];
+}
+
+/**
+ * Default include patterns for contract discovery
+ */
+export const DEFAULT_CONTRACT_INCLUDE = ['**/*.ts'];
+
+/**
+ * Default exclude patterns for contract discovery
+ */
+export const DEFAULT_CONTRACT_EXCLUDE = ['**/node_modules/**', '**/*.d.ts'];
+
+/**
+ * Recursively discovers contract files using include/exclude glob patterns
+ */
+export class ContractDiscovery {
+  private includeMatchers: RegExp[];
+  private excludeMatchers: RegExp[];
+  
+  constructor(private basePath: string, options: ContractDiscoveryOptions) {
+    this.includeMatchers = options.include.map(pattern => globToRegExp(pattern));
+    this.excludeMatchers = options.exclude.map(pattern => globToRegExp(pattern));
+  }
+  
+  /**
+   * Find all contract files below the base path, sorted by ID
+   */
+  discover(): DiscoveredContract[] {
+    const contracts: DiscoveredContract[] = [];
+    this.walk(path.resolve(this.basePath), '', contracts);
+    
+    return contracts.sort((a, b) => a.id.localeCompare(b.id));
+  }
+  
+  /**
+   * Check whether a path relative to the base path is a contract file
+   */
+  matches(relativePath: string): boolean {
+    const normalized = toPosixPath(relativePath);
+    
+    return this.includeMatchers.some(matcher => matcher.test(normalized))
+      && !this.isExcluded(normalized);
+  }
+  
+  /**
+   * Walk a directory, collecting matching files
+   */
+  private walk(directory: string, relativeDirectory: string, contracts: DiscoveredContract[]): void {
+    const entries = fs.readdirSync(directory, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+    
+    for (const entry of entries) {
+      const relativePath = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name;
+      const absolutePath = path.join(directory, entry.name);
+      
+      if (entry.isDirectory()) {
+        // Directory patterns like `**/fixtures/**` are checked against a child path
+        if (!this.isExcluded(relativePath) && !this.isExcluded(`${relativePath}/`)) {
+          this.walk(absolutePath, relativePath, contracts);
+        }
+      } else if (entry.isFile() && this.matches(relativePath)) {
+        contracts.push({
+          id: createContractId(relativePath),
+          relativePath,
+          absolutePath
+        });
+      }
+    }
+  }
+  
+  /**
+   * Check a relative path against the exclude patterns
+   */
+  private isExcluded(relativePath: string): boolean {
+    return this.excludeMatchers.some(matcher => matcher.test(relativePath));
+  }
+}
+
+/**
+ * Derive a stable contract ID from a path relative to the contracts base path
+ *
+ * The extension and a trailing `.contracts`/`.contract` suffix are removed:
+ * `admin/api-key/get.contracts.ts` becomes `admin/api-key/get`.
+ */
+export function createContractId(relativePath: string): string {
+  return toPosixPath(relativePath)
+    .replace(/^\.\//, '')
+    .replace(/\.(d\.)?[cm]?[jt]sx?$/, '')
+    .replace(/\.contracts?$/, '');
+}
+
+/**
+ * Convert a glob pattern to a regular expression
+ *
+ * Supports `**` (any number of directories), `*`, `?`, `{a,b}` alternatives
+ * and `[...]` character classes. Patterns are matched against the full relative path.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const glob = toPosixPath(pattern).replace(/^\.\//, '');
+  let source = '';
+  let inGroup = false;
+  
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        
+        if (atSegmentStart && atSegmentEnd) {
+          // `**/` matches zero or more directories, a trailing `**` matches everything
+          if (glob[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+          continue;
+        }
+        
+        i += 1;
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Normalize path separators to `/`
+ */
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
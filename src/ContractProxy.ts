@@ -0,0 +1,399 @@
+import * as http from 'http';
+import * as https from 'https';
+import { AddressInfo } from 'net';
+import { parseBody, readBody } from './HttpTransport';
+
+/**
+ * Options for the proxy
+ */
+export interface ContractProxyOptions {
+  /**
+   * Base URL requests are forwarded to, e.g. `http://localhost:8080`
+   */
+  target: string;
+  
+  /**
+   * Port to listen on; 0 picks a free port
+   * @default 0
+   */
+  port?: number;
+  
+  /**
+   * Host to listen on
+   * @default '127.0.0.1'
+   */
+  host?: string;
+  
+  /**
+   * Called with errors the proxy ran into, e.g. a target that could not be reached,
+   * a request it refused to forward, or a failing exchange listener
+   */
+  onError?: ProxyErrorListener;
+}
+
+/**
+ * A request and the response it got, as forwarded by the proxy or loaded from a recording
+ */
+export interface RecordedExchange {
+  /**
+   * HTTP method (upper case)
+   */
+  method: string;
+  
+  /**
+   * Path and query string, e.g. `/users/6f1c...?page=2`
+   */
+  url: string;
+  
+  request: {
+    headers: Record<string, string>;
+    
+    /**
+     * Body parsed as JSON, or the text for other text bodies
+     */
+    body?: any;
+    
+    /**
+     * Whether the body was not captured (e.g. a binary upload, or a form body in a HAR file), so it can't be checked
+     */
+    bodyOmitted?: boolean;
+  };
+  
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body?: any;
+    
+    /**
+     * Whether the body was not captured (e.g. left out of a HAR file), so only the status can be checked
+     */
+    bodyOmitted?: boolean;
+  };
+  
+  /**
+   * When the request was received (ISO timestamp)
+   */
+  startedAt?: string;
+  
+  durationMs?: number;
+}
+
+/**
+ * Called with every exchange once the response has been sent to the client
+ */
+export type ExchangeListener = (exchange: RecordedExchange) => void | Promise<void>;
+
+/**
+ * Called with an error of the proxy and the request it happened for
+ */
+export type ProxyErrorListener = (error: Error, request: { method: string; url: string }) => void | Promise<void>;
+
+/**
+ * Headers that only apply to a single connection and are not forwarded
+ */
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade'
+]);
+
+/**
+ * Headers carrying credentials, redacted from recorded exchanges by default
+ */
+export const CREDENTIAL_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-auth-token'
+];
+
+/**
+ * A local HTTP proxy forwarding every request to a target and reporting the exchanges
+ *
+ * Bodies are buffered, and responses are requested without compression so their
+ * bodies can be read. Listeners run after the response has been sent, so they never
+ * delay the client; `stop()` waits for them. Only origin-form request targets
+ * (`/path?query`) are forwarded, always to the target's host.
+ */
+export class ContractProxy {
+  private server: http.Server | null = null;
+  private pending = new Set<Promise<void>>();
+  
+  constructor(private listener: ExchangeListener, private options: ContractProxyOptions) {}
+  
+  /**
+   * Whether the proxy is listening
+   */
+  get listening(): boolean {
+    return !!this.server?.listening;
+  }
+  
+  /**
+   * Base URL of the proxy, once it is listening
+   */
+  get url(): string | undefined {
+    if (!this.server?.listening) {
+      return undefined;
+    }
+    
+    const address = this.server.address() as AddressInfo;
+    const host = address.address.includes(':') ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+  
+  /**
+   * Start listening, resolving with the base URL
+   */
+  async start(): Promise<string> {
+    if (this.server?.listening) {
+      return this.url!;
+    }
+    
+    // Fail early on a target that is not a URL
+    new URL(this.options.target);
+    
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        this.reportError(`Proxy failed to forward ${request.method} ${request.url}`, error, request.method || 'GET', request.url || '/');
+        if (!response.headersSent) {
+          response.statusCode = 502;
+        }
+        response.end();
+      });
+    });
+    
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    
+    this.server = server;
+    return this.url!;
+  }
+  
+  /**
+   * Stop listening, closing open connections, once the listeners are done
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    
+    this.server = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+      server.closeAllConnections();
+    });
+    await Promise.all(Array.from(this.pending));
+  }
+  
+  /**
+   * Forward a request to the target and report the exchange
+   */
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const started = new Date();
+    const requestBody = await readBody(request);
+    const method = (request.method || 'GET').toUpperCase();
+    const url = request.url || '/';
+    
+    const target = new URL(this.options.target);
+    const upstreamUrl = toUpstreamUrl(target, url);
+    if (!upstreamUrl) {
+      const message = `Proxy only forwards paths, not ${JSON.stringify(url)}`;
+      this.reportError(message, undefined, method, url);
+      response.writeHead(400, { 'Content-Type': 'application/json; charset=utf-8' });
+      response.end(JSON.stringify({ error: message }));
+      return;
+    }
+    
+    const headers = toForwardedHeaders(request.headers);
+    headers.host = target.host;
+    headers['accept-encoding'] = 'identity';
+    
+    let upstream: { status: number; headers: http.IncomingHttpHeaders; body: Buffer };
+    try {
+      upstream = await forward(upstreamUrl, method, headers, requestBody);
+    } catch (error) {
+      const message = `Proxy could not reach ${this.options.target}`;
+      this.reportError(message, error, method, url);
+      response.writeHead(502, { 'Content-Type': 'application/json; charset=utf-8' });
+      response.end(JSON.stringify({ error: `${message}: ${error instanceof Error ? error.message : String(error)}` }));
+      return;
+    }
+    
+    // HEAD and 304 responses describe a body they don't carry, so their length is kept
+    const responseHeaders = toForwardedHeaders(upstream.headers);
+    if (method !== 'HEAD' && hasResponseBody(upstream.status)) {
+      responseHeaders['content-length'] = String(upstream.body.length);
+    }
+    response.writeHead(upstream.status, responseHeaders);
+    response.end(method === 'HEAD' || !hasResponseBody(upstream.status) ? undefined : upstream.body);
+    
+    const exchange: RecordedExchange = {
+      method,
+      url,
+      request: {
+        headers: toHeaderRecord(request.headers),
+        ...readTextBody(request.headers, requestBody)
+      },
+      response: {
+        status: upstream.status,
+        headers: toHeaderRecord(upstream.headers),
+        ...readTextBody(upstream.headers, upstream.body)
+      },
+      startedAt: started.toISOString(),
+      durationMs: Date.now() - started.getTime()
+    };
+    
+    this.notify(
+      () => this.listener(exchange),
+      error => this.reportError(`Failed to handle exchange ${method} ${url}`, error, method, url)
+    );
+  }
+  
+  /**
+   * Pass an error to the `onError` listener, see {@link ContractProxyOptions.onError}
+   */
+  private reportError(message: string, cause: unknown, method: string, url: string): void {
+    const onError = this.options.onError;
+    if (!onError) {
+      return;
+    }
+    
+    const error = new Error(cause === undefined ? message : `${message}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.notify(() => onError(error, { method, url }), () => undefined);
+  }
+  
+  /**
+   * Run a listener without delaying the client, so that `stop()` waits for it
+   */
+  private notify(run: () => void | Promise<void>, onFailure: (error: unknown) => void): void {
+    const notified = Promise.resolve()
+      .then(run)
+      .catch(onFailure)
+      .finally(() => this.pending.delete(notified));
+    this.pending.add(notified);
+  }
+}
+
+/**
+ * Copy an exchange with the values of the given headers replaced by `[REDACTED]`,
+ * e.g. before saving it as a fixture
+ */
+export function redactExchange(exchange: RecordedExchange, headerNames: string[] = CREDENTIAL_HEADERS): RecordedExchange {
+  const redacted = new Set(headerNames.map(name => name.toLowerCase()));
+  const redact = (headers: Record<string, string>): Record<string, string> => {
+    const record: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      record[name] = redacted.has(name.toLowerCase()) ? '[REDACTED]' : value;
+    }
+    return record;
+  };
+  
+  return {
+    ...exchange,
+    request: { ...exchange.request, headers: redact(exchange.request.headers) },
+    response: { ...exchange.response, headers: redact(exchange.response.headers) }
+  };
+}
+
+/**
+ * The URL a request target is forwarded to, below the target's path, or undefined
+ * when the request target is not a plain path (e.g. `//other.example/` or an absolute URL)
+ */
+function toUpstreamUrl(target: URL, requestUrl: string): URL | undefined {
+  if (!/^\/(?![\/\\])/.test(requestUrl)) {
+    return undefined;
+  }
+  
+  // Parsed against a placeholder origin, which is then replaced by the target's
+  const upstream = new URL(requestUrl, 'http://proxy.invalid');
+  upstream.protocol = target.protocol;
+  upstream.host = target.host;
+  upstream.pathname = `${target.pathname.replace(/\/+$/, '')}${upstream.pathname}`;
+  upstream.hash = '';
+  return upstream;
+}
+
+/**
+ * Whether a response with this status carries a body
+ */
+function hasResponseBody(status: number): boolean {
+  return status >= 200 && status !== 204 && status !== 304;
+}
+
+/**
+ * Send a request to the target and read the whole response
+ */
+function forward(
+  url: URL,
+  method: string,
+  headers: Record<string, string | string[]>,
+  body: Buffer
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: Buffer }> {
+  const client = url.protocol === 'https:' ? https : http;
+  
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, { method, headers }, response => {
+      readBody(response)
+        .then(content => resolve({ status: response.statusCode || 502, headers: response.headers, body: content }))
+        .catch(reject);
+    });
+    request.on('error', reject);
+    request.end(body.length > 0 ? body : undefined);
+  });
+}
+
+/**
+ * Copy the headers that are forwarded, i.e. all but the hop-by-hop ones
+ */
+function toForwardedHeaders(headers: http.IncomingHttpHeaders): Record<string, string | string[]> {
+  const forwarded: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && !HOP_BY_HOP_HEADERS.has(name.toLowerCase())) {
+      forwarded[name] = value;
+    }
+  }
+  return forwarded;
+}
+
+/**
+ * Read headers into single values, joining repeated headers
+ */
+function toHeaderRecord(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      record[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return record;
+}
+
+/**
+ * The body of a message, if it is JSON or text; binary bodies are left out and
+ * marked as omitted, so they aren't mistaken for a missing body
+ */
+function readTextBody(headers: http.IncomingHttpHeaders, body: Buffer): { body?: any; bodyOmitted?: boolean } {
+  if (body.length === 0) {
+    return {};
+  }
+  
+  const contentType = String(headers['content-type'] || '');
+  if (contentType && !/json|^text\/|xml|x-www-form-urlencoded/i.test(contentType)) {
+    return { bodyOmitted: true };
+  }
+  
+  return { body: parseBody(body.toString('utf8')) };
+}
@@ -0,0 +1,119 @@
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * An HTTP request to send
+ */
+export interface HttpRequestOptions {
+  method: string;
+  
+  /**
+   * Absolute URL, e.g. `http://localhost:3000/users/6f1c...?page=2`
+   */
+  url: string;
+  
+  headers?: Record<string, string>;
+  
+  /**
+   * Body, sent as JSON unless it is a string
+   */
+  body?: any;
+  
+  /**
+   * Milliseconds to wait for the response
+   * @default 10000
+   */
+  timeout?: number;
+}
+
+/**
+ * A response received for an HTTP request
+ */
+export interface HttpResponse {
+  status: number;
+  
+  /**
+   * Headers, with lower-case names
+   */
+  headers: http.IncomingHttpHeaders;
+  
+  /**
+   * Body parsed as JSON, the raw text when it is not JSON, or undefined when empty
+   */
+  body?: any;
+  
+  /**
+   * Body as received
+   */
+  text: string;
+}
+
+/**
+ * Send an HTTP(S) request and read the whole response
+ */
+export function sendHttpRequest(options: HttpRequestOptions): Promise<HttpResponse> {
+  const url = new URL(options.url);
+  const client = url.protocol === 'https:' ? https : http;
+  const payload = options.body === undefined
+    ? undefined
+    : typeof options.body === 'string' ? options.body : JSON.stringify(options.body);
+  
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    ...(payload !== undefined && typeof options.body !== 'string' ? { 'Content-Type': 'application/json' } : {}),
+    ...options.headers
+  };
+  if (payload !== undefined) {
+    headers['Content-Length'] = String(Buffer.byteLength(payload));
+  }
+  
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, { method: options.method.toUpperCase(), headers }, response => {
+      readBody(response)
+        .then(content => {
+          const text = content.toString('utf8');
+          resolve({
+            status: response.statusCode || 0,
+            headers: response.headers,
+            body: parseBody(text),
+            text
+          });
+        })
+        .catch(reject);
+    });
+    
+    const timeout = options.timeout ?? 10000;
+    request.setTimeout(timeout, () => {
+      request.destroy(new Error(`No response within ${timeout}ms`));
+    });
+    request.on('error', reject);
+    request.end(payload);
+  });
+}
+
+/**
+ * Parse a body as JSON, keeping the text when it is not JSON
+ */
+export function parseBody(text: string): any {
+  if (!text) {
+    return undefined;
+  }
+  
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Read a whole request or response body
+ */
+export function readBody(message: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    message.on('data', (chunk: Buffer) => chunks.push(chunk));
+    message.on('end', () => resolve(Buffer.concat(chunks)));
+    message.on('error', reject);
+  });
+}
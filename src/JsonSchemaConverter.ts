@@ -0,0 +1,355 @@
+import { SchemaNode, SchemaCheck, describeSchemaType } from './SchemaInterpreter';
+
+/**
+ * A JSON Schema (draft 2020-12) document or subschema
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Options for the JSON Schema converter
+ */
+export interface JsonSchemaConverterOptions {
+  /**
+   * Called for schemas resolved from a named declaration (e.g. `UserSchema`);
+   * return a `$ref` schema to reference it instead of inlining it
+   */
+  reference?: (node: SchemaNode, convert: (node: SchemaNode) => JsonSchema) => JsonSchema | undefined;
+}
+
+/**
+ * JSON Schema formats for Zod string checks
+ */
+const STRING_FORMATS: Record<string, string> = {
+  uuid: 'uuid',
+  email: 'email',
+  url: 'uri',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  cuid: 'cuid',
+  cuid2: 'cuid2',
+  ulid: 'ulid',
+  emoji: 'emoji'
+};
+
+/**
+ * Converts schemas read by the SchemaInterpreter to JSON Schema (draft 2020-12)
+ *
+ * Schemas describe values on the wire, i.e. the input side of the Zod schema:
+ * fields with a default are optional, and transforms and pipes are described by
+ * the value they receive. What JSON Schema cannot express (transforms, refinements,
+ * the output side of pipes) is noted in `$comment`.
+ */
+export class JsonSchemaConverter {
+  constructor(private options: JsonSchemaConverterOptions = {}) {}
+  
+  /**
+   * Convert a schema
+   */
+  convert(node: SchemaNode): JsonSchema {
+    if (node.name && this.options.reference) {
+      const reference = this.options.reference(node, named => this.convertNode(named));
+      if (reference) {
+        return reference;
+      }
+    }
+    
+    return this.convertNode(node);
+  }
+  
+  /**
+   * Convert a schema without referencing it by name
+   */
+  convertNode(node: SchemaNode): JsonSchema {
+    let schema = this.convertKind(node);
+    
+    if (node.refinements && node.refinements.length > 0) {
+      schema = annotate(schema, `Also refined by ${node.refinements.map(compactSource).join(', ')}`);
+    }
+    if (node.description !== undefined && schema.description === undefined) {
+      return { ...schema, description: node.description };
+    }
+    
+    return schema;
+  }
+  
+  /**
+   * Convert a schema by kind
+   */
+  private convertKind(node: SchemaNode): JsonSchema {
+    switch (node.kind) {
+      case 'string':
+        return this.convertString(node.checks);
+      
+      case 'number':
+        return this.convertNumber(node.checks);
+      
+      case 'bigint':
+        return { type: 'integer', format: 'int64' };
+      
+      case 'boolean':
+        return { type: 'boolean' };
+      
+      case 'date':
+        // Dates travel as ISO strings in JSON
+        return { type: 'string', format: 'date-time' };
+      
+      case 'null':
+        return { type: 'null' };
+      
+      case 'undefined':
+      case 'void':
+      case 'never':
+        return { not: {} };
+      
+      case 'any':
+      case 'unknown':
+        return {};
+      
+      case 'literal':
+        return { const: node.value };
+      
+      case 'enum': {
+        const types = Array.from(new Set(node.values.map(value => typeof value === 'number' ? 'number' : 'string')));
+        return { type: types.length === 1 ? types[0] : types, enum: node.values };
+      }
+      
+      case 'object': {
+        const schema: JsonSchema = { type: 'object', properties: {} };
+        const required: string[] = [];
+        
+        for (const [key, property] of Object.entries(node.shape)) {
+          schema.properties[key] = this.convert(property);
+          if (!isOptionalInput(property)) {
+            required.push(key);
+          }
+        }
+        
+        if (required.length > 0) {
+          schema.required = required;
+        }
+        if (node.catchall) {
+          schema.additionalProperties = this.convert(node.catchall);
+        } else if (node.unknownKeys === 'strict') {
+          schema.additionalProperties = false;
+        }
+        
+        return schema;
+      }
+      
+      case 'array': {
+        const schema: JsonSchema = { type: 'array', items: this.convert(node.element) };
+        for (const check of node.checks) {
+          if (check.kind === 'min' || check.kind === 'length') {
+            schema.minItems = check.value;
+          }
+          if (check.kind === 'max' || check.kind === 'length') {
+            schema.maxItems = check.value;
+          }
+          if (check.kind === 'nonempty') {
+            schema.minItems = Math.max(schema.minItems ?? 0, 1);
+          }
+        }
+        return schema;
+      }
+      
+      case 'tuple':
+        return {
+          type: 'array',
+          prefixItems: node.items.map(item => this.convert(item)),
+          items: node.rest ? this.convert(node.rest) : false,
+          minItems: node.items.length,
+          ...(node.rest ? {} : { maxItems: node.items.length })
+        };
+      
+      case 'record': {
+        const schema: JsonSchema = { type: 'object', additionalProperties: this.convert(node.value) };
+        const key = this.convert(node.key);
+        if (Object.keys(key).some(keyword => keyword !== 'type' && keyword !== 'description')) {
+          schema.propertyNames = key;
+        }
+        return schema;
+      }
+      
+      case 'union': {
+        const options = node.options.map(option => this.convert(option));
+        // Options of a discriminated union never overlap
+        return node.discriminator ? { oneOf: options } : { anyOf: options };
+      }
+      
+      case 'intersection':
+        return { allOf: [this.convert(node.left), this.convert(node.right)] };
+      
+      case 'optional':
+        return this.convert(node.inner);
+      
+      case 'nullable': {
+        const inner = this.convert(node.inner);
+        if (typeof inner.type === 'string' && !inner.$ref && !inner.enum && inner.const === undefined) {
+          return { ...inner, type: [inner.type, 'null'] };
+        }
+        return { anyOf: [inner, { type: 'null' }] };
+      }
+      
+      case 'default': {
+        const inner = this.convert(node.inner);
+        return node.value !== undefined ? { ...inner, default: node.value } : inner;
+      }
+      
+      case 'catch':
+        return annotate(this.convert(node.inner), 'Invalid values are replaced with a fallback when parsed');
+      
+      case 'transform':
+        return annotate(this.convert(node.inner), `Transformed when parsed by ${compactSource(node.source)}`);
+      
+      case 'pipe':
+        return annotate(this.convert(node.input), `Must match ${describeSchemaType(node.output)} after parsing`);
+      
+      case 'unresolved':
+        return { $comment: `Could not be read statically: ${node.reason}` };
+    }
+  }
+  
+  /**
+   * Convert a string schema and its checks
+   */
+  private convertString(checks: SchemaCheck[]): JsonSchema {
+    const schema: JsonSchema = { type: 'string' };
+    const patterns: string[] = [];
+    
+    for (const check of checks) {
+      if (STRING_FORMATS[check.kind]) {
+        schema.format = STRING_FORMATS[check.kind];
+        continue;
+      }
+      
+      switch (check.kind) {
+        case 'min':
+          schema.minLength = check.value;
+          break;
+        case 'max':
+          schema.maxLength = check.value;
+          break;
+        case 'length':
+          schema.minLength = check.value;
+          schema.maxLength = check.value;
+          break;
+        case 'nonempty':
+          schema.minLength = Math.max(schema.minLength ?? 0, 1);
+          break;
+        case 'regex':
+          if (typeof check.value === 'string') {
+            patterns.push(check.value.match(/^\/(.*)\/[a-z]*$/s)?.[1] ?? check.value);
+          }
+          break;
+        case 'startsWith':
+          patterns.push(`^${escapePattern(check.value)}`);
+          break;
+        case 'endsWith':
+          patterns.push(`${escapePattern(check.value)}$`);
+          break;
+        case 'includes':
+          patterns.push(escapePattern(check.value));
+          break;
+        case 'ip':
+          schema.format = check.value?.version === 'v6' ? 'ipv6' : 'ipv4';
+          break;
+      }
+    }
+    
+    // JSON Schema has a single pattern per schema, further ones go into allOf
+    if (patterns.length > 0) {
+      schema.pattern = patterns[0];
+    }
+    if (patterns.length > 1) {
+      schema.allOf = patterns.slice(1).map(pattern => ({ pattern }));
+    }
+    
+    return schema;
+  }
+  
+  /**
+   * Convert a number schema and its checks
+   */
+  private convertNumber(checks: SchemaCheck[]): JsonSchema {
+    const schema: JsonSchema = { type: checks.some(check => check.kind === 'int') ? 'integer' : 'number' };
+    
+    for (const check of checks) {
+      switch (check.kind) {
+        case 'min':
+          schema.minimum = check.value;
+          break;
+        case 'max':
+          schema.maximum = check.value;
+          break;
+        case 'gt':
+          schema.exclusiveMinimum = check.value;
+          break;
+        case 'lt':
+          schema.exclusiveMaximum = check.value;
+          break;
+        case 'positive':
+          schema.exclusiveMinimum = 0;
+          break;
+        case 'negative':
+          schema.exclusiveMaximum = 0;
+          break;
+        case 'nonnegative':
+          schema.minimum = 0;
+          break;
+        case 'nonpositive':
+          schema.maximum = 0;
+          break;
+        case 'multipleOf':
+          schema.multipleOf = check.value;
+          break;
+        case 'safe':
+          schema.minimum = Number.MIN_SAFE_INTEGER;
+          schema.maximum = Number.MAX_SAFE_INTEGER;
+          break;
+      }
+    }
+    
+    return schema;
+  }
+}
+
+/**
+ * Whether a value may be left out on the wire (`.optional()` or `.default()`)
+ */
+export function isOptionalInput(node: SchemaNode): boolean {
+  switch (node.kind) {
+    case 'optional':
+    case 'default':
+      return true;
+    case 'nullable':
+    case 'catch':
+    case 'transform':
+      return isOptionalInput(node.inner);
+    case 'pipe':
+      return isOptionalInput(node.input);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Add a note to the `$comment` of a schema
+ */
+function annotate(schema: JsonSchema, comment: string): JsonSchema {
+  return { ...schema, $comment: schema.$comment ? `${schema.$comment}; ${comment}` : comment };
+}
+
+/**
+ * Source text of a callback on a single line
+ */
+function compactSource(source: string): string {
+  return source.replace(/\s+/g, ' ').trim() || '(unknown)';
+}
+
+/**
+ * Escape a literal string for use in a regular expression
+ */
+function escapePattern(value: string): string {
+  return String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
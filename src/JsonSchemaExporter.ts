@@ -0,0 +1,174 @@
+import { SchemaNode } from './SchemaInterpreter';
+import { JsonSchemaConverter, JsonSchema } from './JsonSchemaConverter';
+
+/**
+ * The parts of a contract JSON Schemas are exported from
+ */
+export interface JsonSchemaContractSource {
+  /**
+   * Stable contract ID, e.g. `users/get`
+   */
+  id: string;
+  
+  method?: string;
+  path?: string;
+  
+  params?: SchemaNode;
+  query?: SchemaNode;
+  body?: SchemaNode;
+  
+  responses: Array<{ status: number; description?: string; schema?: SchemaNode }>;
+}
+
+/**
+ * Options for the JSON Schema export
+ */
+export interface JsonSchemaExportOptions {
+  /**
+   * Base URI the `$id`s are resolved against, e.g. `https://schemas.example.com/`.
+   * Without it the `$id`s are relative, matching the exported file paths
+   */
+  baseUri?: string;
+}
+
+/**
+ * A JSON Schema document for one schema of a contract
+ */
+export interface ContractJsonSchema {
+  contractId: string;
+  
+  /**
+   * The part of the contract the schema describes
+   */
+  target: 'params' | 'query' | 'body' | 'response';
+  
+  /**
+   * Status code, for response schemas
+   */
+  status?: number;
+  
+  /**
+   * File the document is written to, relative to the output directory,
+   * e.g. `users/get/response.200.schema.json`
+   */
+  file: string;
+  
+  /**
+   * The document, with `$schema` and `$id`
+   */
+  schema: JsonSchema;
+}
+
+/**
+ * Dialect of the exported documents
+ */
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Exports the schemas of a contract as standalone JSON Schema (draft 2020-12) documents
+ *
+ * Every document is self-contained: schemas resolved from a named declaration
+ * (e.g. `UserSchema`) are placed in `$defs` (`User`) and referenced by `$ref`.
+ * `$id`s are derived from the contract ID, so they stay the same between exports.
+ */
+export class JsonSchemaExporter {
+  /**
+   * Schemas that could not be read statically, found while exporting
+   */
+  readonly warnings: string[] = [];
+  
+  constructor(private options: JsonSchemaExportOptions = {}) {}
+  
+  /**
+   * Build the documents for a contract
+   */
+  export(contract: JsonSchemaContractSource): ContractJsonSchema[] {
+    const endpoint = [contract.method?.toUpperCase(), contract.path].filter(Boolean).join(' ') || contract.id;
+    const documents: ContractJsonSchema[] = [];
+    
+    const requestTargets: Array<['params' | 'query' | 'body', SchemaNode | undefined]> = [
+      ['params', contract.params],
+      ['query', contract.query],
+      ['body', contract.body]
+    ];
+    for (const [target, node] of requestTargets) {
+      if (node) {
+        const file = `${contract.id}/${target}.schema.json`;
+        documents.push({
+          contractId: contract.id,
+          target,
+          file,
+          schema: this.createDocument(node, file, `${endpoint} ${target}`, contract.id)
+        });
+      }
+    }
+    
+    for (const response of contract.responses) {
+      if (response.schema) {
+        const file = `${contract.id}/response.${response.status}.schema.json`;
+        documents.push({
+          contractId: contract.id,
+          target: 'response',
+          status: response.status,
+          file,
+          schema: this.createDocument(response.schema, file, `${endpoint} response ${response.status}`, contract.id, response.description)
+        });
+      }
+    }
+    
+    return documents;
+  }
+  
+  /**
+   * Build a document, collecting the named schemas it uses in `$defs`
+   */
+  private createDocument(node: SchemaNode, file: string, title: string, contractId: string, description?: string): JsonSchema {
+    const definitions: Record<string, JsonSchema> = {};
+    const converter = new JsonSchemaConverter({
+      reference: (named, convert) => {
+        const name = named.name!.replace(/(.)Schema$/, '$1');
+        if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+          return undefined;
+        }
+        
+        const schema = convert(named);
+        if (definitions[name] === undefined) {
+          definitions[name] = schema;
+        } else if (JSON.stringify(definitions[name]) !== JSON.stringify(schema)) {
+          // A different schema with the same name is inlined instead
+          return undefined;
+        }
+        
+        return { $ref: `#/$defs/${name}` };
+      }
+    });
+    
+    if (node.kind === 'unresolved') {
+      this.warnings.push(`${contractId}: ${title} could not be read statically (${node.reason})`);
+    }
+    
+    // The document itself is the schema, so only nested named schemas are referenced
+    const schema = converter.convertNode(node);
+    const document: JsonSchema = {
+      $schema: JSON_SCHEMA_DIALECT,
+      $id: `${this.getBaseUri()}${file}`,
+      title,
+      ...(description && schema.description === undefined ? { description } : {}),
+      ...schema
+    };
+    
+    if (Object.keys(definitions).length > 0) {
+      document.$defs = Object.fromEntries(Object.entries(definitions).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    
+    return document;
+  }
+  
+  /**
+   * The base URI, ending with a slash
+   */
+  private getBaseUri(): string {
+    const baseUri = this.options.baseUri || '';
+    return baseUri && !baseUri.endsWith('/') ? `${baseUri}/` : baseUri;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Offline word lists used to generate realistic mock data for a locale
+ */
+export interface LocaleDictionary {
+  /**
+   * Locale code, e.g. `en-US`
+   */
+  locale: string;
+  
+  firstNames: string[];
+  lastNames: string[];
+  
+  /**
+   * Legal form appended to company names, e.g. `Inc.` or `GmbH`
+   */
+  companySuffixes: string[];
+  
+  streets: string[];
+  
+  /**
+   * Street address layout with `{number}` and `{street}` placeholders
+   */
+  streetFormat: string;
+  
+  cities: string[];
+  regions: string[];
+  
+  /**
+   * Postal code layout, `#` is replaced by a digit
+   */
+  postalCodeFormat: string;
+  
+  /**
+   * Phone number layout, `#` is replaced by a digit
+   */
+  phoneFormat: string;
+  
+  country: string;
+  countryCode: string;
+  currency: string;
+  
+  /**
+   * Common words used for titles and descriptions
+   */
+  words: string[];
+}
+
+/**
+ * Dictionaries bundled with the addon, keyed by locale
+ */
+export const LOCALE_DICTIONARIES: Record<string, LocaleDictionary> = {
+  'en-US': {
+    locale: 'en-US',
+    firstNames: ['James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David', 'Emily', 'Daniel', 'Sarah'],
+    lastNames: ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Miller', 'Davis', 'Wilson', 'Anderson', 'Taylor', 'Thomas', 'Moore'],
+    companySuffixes: ['Inc.', 'LLC', 'Corp.', 'Group'],
+    streets: ['Main Street', 'Oak Avenue', 'Maple Drive', 'Park Road', 'Cedar Lane', 'Elm Street', 'Washington Avenue', 'Lake View Drive'],
+    streetFormat: '{number} {street}',
+    cities: ['Springfield', 'Portland', 'Austin', 'Denver', 'Boston', 'Seattle', 'Chicago', 'San Diego'],
+    regions: ['California', 'Texas', 'New York', 'Oregon', 'Colorado', 'Massachusetts', 'Washington', 'Illinois'],
+    postalCodeFormat: '#####',
+    phoneFormat: '+1 (###) ###-####',
+    country: 'United States',
+    countryCode: 'US',
+    currency: 'USD',
+    words: [
+      'account', 'report', 'project', 'update', 'team', 'customer', 'order', 'service', 'review', 'plan',
+      'monthly', 'new', 'shared', 'quick', 'annual', 'draft', 'final', 'summary', 'meeting', 'support'
+    ]
+  },
+  'de-DE': {
+    locale: 'de-DE',
+    firstNames: ['Lukas', 'Anna', 'Maximilian', 'Sophie', 'Felix', 'Marie', 'Jonas', 'Laura', 'Leon', 'Julia', 'Paul', 'Hannah'],
+    lastNames: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker', 'Schulz', 'Hoffmann', 'Koch', 'Richter'],
+    companySuffixes: ['GmbH', 'AG', 'KG', 'GmbH & Co. KG'],
+    streets: ['Hauptstraße', 'Bahnhofstraße', 'Gartenweg', 'Schillerstraße', 'Lindenallee', 'Goethestraße', 'Kirchplatz', 'Am Markt'],
+    streetFormat: '{street} {number}',
+    cities: ['Berlin', 'München', 'Hamburg', 'Köln', 'Frankfurt am Main', 'Leipzig', 'Stuttgart', 'Dresden'],
+    regions: ['Bayern', 'Berlin', 'Hamburg', 'Hessen', 'Sachsen', 'Nordrhein-Westfalen', 'Baden-Württemberg', 'Niedersachsen'],
+    postalCodeFormat: '#####',
+    phoneFormat: '+49 30 #######',
+    country: 'Deutschland',
+    countryCode: 'DE',
+    currency: 'EUR',
+    words: [
+      'Konto', 'Bericht', 'Projekt', 'Aktualisierung', 'Team', 'Kunde', 'Bestellung', 'Service', 'Prüfung', 'Plan',
+      'monatlich', 'neu', 'gemeinsam', 'schnell', 'jährlich', 'Entwurf', 'final', 'Übersicht', 'Besprechung', 'Support'
+    ]
+  },
+  'fr-FR': {
+    locale: 'fr-FR',
+    firstNames: ['Lucas', 'Emma', 'Louis', 'Chloé', 'Hugo', 'Léa', 'Jules', 'Manon', 'Gabriel', 'Camille', 'Arthur', 'Inès'],
+    lastNames: ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Richard', 'Petit', 'Durand', 'Leroy', 'Moreau', 'Simon', 'Laurent'],
+    companySuffixes: ['SA', 'SARL', 'SAS'],
+    streets: ['rue de la Paix', 'avenue Victor Hugo', 'boulevard Saint-Michel', 'rue du Moulin', 'place de la République', 'rue des Lilas', 'chemin des Vignes', 'rue Pasteur'],
+    streetFormat: '{number} {street}',
+    cities: ['Paris', 'Lyon', 'Marseille', 'Toulouse', 'Bordeaux', 'Lille', 'Nantes', 'Strasbourg'],
+    regions: ['Île-de-France', 'Auvergne-Rhône-Alpes', 'Occitanie', 'Nouvelle-Aquitaine', 'Hauts-de-France', 'Bretagne', 'Grand Est', 'Normandie'],
+    postalCodeFormat: '#####',
+    phoneFormat: '+33 1 ## ## ## ##',
+    country: 'France',
+    countryCode: 'FR',
+    currency: 'EUR',
+    words: [
+      'compte', 'rapport', 'projet', 'mise à jour', 'équipe', 'client', 'commande', 'service', 'revue', 'plan',
+      'mensuel', 'nouveau', 'partagé', 'rapide', 'annuel', 'brouillon', 'final', 'résumé', 'réunion', 'assistance'
+    ]
+  }
+};
+
+/**
+ * Default locale for mock data
+ */
+export const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Get the dictionary for a locale, matching on the language (`de` → `de-DE`)
+ * and falling back to en-US when no dictionary is bundled for it
+ */
+export function getLocaleDictionary(locale: string): LocaleDictionary {
+  if (LOCALE_DICTIONARIES[locale]) {
+    return LOCALE_DICTIONARIES[locale];
+  }
+  
+  const language = locale.split(/[-_]/)[0].toLowerCase();
+  const match = Object.values(LOCALE_DICTIONARIES)
+    .find(dictionary => dictionary.locale.split('-')[0] === language);
+  
+  return match || LOCALE_DICTIONARIES[DEFAULT_LOCALE];
+}
@@ -0,0 +1,1012 @@
+import { SchemaNode, SchemaCheck, StringSchemaNode, NumberSchemaNode, ArraySchemaNode } from './SchemaInterpreter';
+import { SchemaValidator } from './SchemaValidator';
+import { LocaleDictionary, DEFAULT_LOCALE, getLocaleDictionary } from './LocaleDictionaries';
+
+/**
+ * Context passed to a custom generator
+ */
+export interface MockGeneratorContext {
+  /**
+   * The generator's source of randomness in [0, 1), seeded when the adapter has a seed
+   */
+  random: () => number;
+  
+  /**
+   * Dotted path of the value (e.g. `body.user.email`, `data[0].id`)
+   */
+  path: string;
+  
+  /**
+   * Name of the field (last path segment, without array indices)
+   */
+  field: string;
+  
+  /**
+   * Schema the value has to satisfy
+   */
+  schema: SchemaNode;
+  
+  /**
+   * The object or array the value is generated for, with the fields generated so far
+   */
+  parent?: any;
+  
+  /**
+   * ID of the contract the mock is generated for
+   */
+  contractId?: string;
+}
+
+/**
+ * Generates the value for a field, see {@link MockDataGeneratorOptions.customGenerators}
+ */
+export type CustomGenerator = (context: MockGeneratorContext) => any;
+
+/**
+ * Options for the mock data generator
+ */
+export interface MockDataGeneratorOptions {
+  /**
+   * Source of randomness in [0, 1)
+   */
+  random?: () => number;
+  
+  /**
+   * Clock used for generated dates, which lie within the year before it
+   */
+  now?: () => Date;
+  
+  /**
+   * Whether to generate realistic values from the field name and format;
+   * when off, minimal valid placeholders are generated
+   * @default true
+   */
+  realistic?: boolean;
+  
+  /**
+   * Locale of realistic values, e.g. `de-DE`
+   * @default 'en-US'
+   */
+  locale?: string;
+  
+  /**
+   * Whether optional properties are generated
+   * @default true
+   */
+  includeOptional?: boolean;
+  
+  /**
+   * Custom generators keyed by, in order of precedence:
+   * - `<contractId>:<path>` for a field of one contract, e.g. `users/get:user.id`
+   *   (array items use `[]`, e.g. `users/list:data[].id`)
+   * - a field name, e.g. `email`
+   * - a string format, e.g. `uuid` or `datetime`
+   *
+   * Values that don't satisfy the schema are replaced by a generated value and
+   * reported in {@link MockDataGenerator.warnings}.
+   */
+  customGenerators?: Record<string, CustomGenerator>;
+  
+  /**
+   * ID of the contract mocks are generated for, used for `<contractId>:<path>` keys
+   */
+  contractId?: string;
+}
+
+/**
+ * Number of attempts to find an input that satisfies a pipe
+ */
+const PIPE_ATTEMPTS = 10;
+
+/**
+ * Characters used for generated words
+ */
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Generates values that satisfy schemas read by the SchemaInterpreter.
+ *
+ * Values are generated on the input side of the schema: for a transform or pipe the
+ * generated value is what a client would send, not what the handler receives.
+ */
+export class MockDataGenerator {
+  private random: () => number;
+  private clock: () => Date;
+  private includeOptional: boolean;
+  private realistic: boolean;
+  private dictionary: LocaleDictionary;
+  private customGenerators: Record<string, CustomGenerator>;
+  private contractId?: string;
+  private validator = new SchemaValidator({ allowExtraProperties: true });
+  
+  /**
+   * Problems with custom generators, e.g. values that don't satisfy the schema
+   */
+  readonly warnings: string[] = [];
+  
+  constructor(options: MockDataGeneratorOptions = {}) {
+    this.realistic = options.realistic ?? true;
+    this.dictionary = getLocaleDictionary(options.locale ?? DEFAULT_LOCALE);
+    // Placeholders are stable: every random choice takes its lowest option
+    this.random = this.realistic ? (options.random ?? Math.random) : () => 0;
+    this.clock = options.now ?? (() => new Date());
+    this.includeOptional = options.includeOptional ?? true;
+    this.customGenerators = options.customGenerators ?? {};
+    this.contractId = options.contractId;
+  }
+  
+  /**
+   * Generate a value for a schema
+   * @param schema The schema to satisfy
+   * @param path Dotted path of the value (e.g. `body.user.email`)
+   * @param parent The object or array the value is generated for
+   */
+  generate(schema: SchemaNode, path: string = '', parent?: any): any {
+    const custom = this.findCustomGenerator(schema, path);
+    if (custom) {
+      const context: MockGeneratorContext = {
+        random: this.random,
+        path,
+        field: lastSegment(path),
+        schema,
+        parent,
+        contractId: this.contractId
+      };
+      
+      try {
+        const value = custom.generator(context);
+        const outcome = this.validator.validate(schema, value, path);
+        if (outcome.issues.length === 0) {
+          return value;
+        }
+        this.warnings.push(`Custom generator "${custom.key}" produced a value that does not satisfy the schema: ${outcome.issues.map(issue => issue.message).join('; ')}`);
+      } catch (error) {
+        this.warnings.push(`Custom generator "${custom.key}" failed for ${path || '(root)'}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    
+    return this.generateValue(schema, path);
+  }
+  
+  /**
+   * Find the custom generator for a value, see {@link MockDataGeneratorOptions.customGenerators}
+   */
+  private findCustomGenerator(schema: SchemaNode, path: string): { key: string; generator: CustomGenerator } | undefined {
+    const keys: string[] = [];
+    
+    if (this.contractId !== undefined && path) {
+      keys.push(`${this.contractId}:${path.replace(/\[\d+\]/g, '[]')}`);
+    }
+    if (path) {
+      keys.push(lastSegment(path));
+    }
+    if (schema.kind === 'string') {
+      keys.push(...schema.checks.map(check => check.kind));
+    }
+    
+    const key = keys.find(candidate => typeof this.customGenerators[candidate] === 'function');
+    return key ? { key, generator: this.customGenerators[key] } : undefined;
+  }
+  
+  /**
+   * Generate a value for a schema from its kind and constraints
+   */
+  private generateValue(schema: SchemaNode, path: string): any {
+    switch (schema.kind) {
+      case 'string':
+        return this.generateString(schema, path);
+      
+      case 'number':
+        return this.generateNumber(schema, path);
+      
+      case 'bigint':
+        return schema.coerce ? String(this.integer(1, 1000)) : BigInt(this.integer(1, 1000));
+      
+      case 'boolean':
+        return this.random() >= 0.5;
+      
+      case 'date': {
+        const date = this.recentDate();
+        return schema.coerce ? date.toISOString() : date;
+      }
+      
+      case 'null':
+        return null;
+      
+      case 'undefined':
+      case 'void':
+      case 'never':
+      case 'unresolved':
+        return undefined;
+      
+      case 'any':
+      case 'unknown':
+        return this.word(8);
+      
+      case 'literal':
+        return schema.value;
+      
+      case 'enum':
+        return this.pick(schema.values);
+      
+      case 'object': {
+        const value: Record<string, any> = {};
+        for (const [key, property] of Object.entries(schema.shape)) {
+          if (!this.includeOptional && isOptional(property)) {
+            continue;
+          }
+          
+          const generated = this.generate(property, joinPath(path, key), value);
+          if (generated !== undefined) {
+            value[key] = generated;
+          }
+        }
+        this.orderTimestamps(schema.shape, path, value);
+        return value;
+      }
+      
+      case 'array': {
+        const items: any[] = [];
+        const length = this.arrayLength(schema);
+        for (let index = 0; index < length; index++) {
+          items.push(this.generate(schema.element, `${path}[${index}]`, items));
+        }
+        return items;
+      }
+      
+      case 'tuple': {
+        const items: any[] = [];
+        schema.items.forEach((item, index) => items.push(this.generate(item, `${path}[${index}]`, items)));
+        return items;
+      }
+      
+      case 'record': {
+        const value: Record<string, any> = {};
+        const count = this.integer(1, 2);
+        for (let i = 0; i < count; i++) {
+          const key = schema.key.kind === 'string' || schema.key.kind === 'any' || schema.key.kind === 'unknown'
+            ? `key${i + 1}`
+            : String(this.generate(schema.key, path));
+          value[key] = this.generate(schema.value, joinPath(path, key), value);
+        }
+        return value;
+      }
+      
+      case 'union': {
+        // Prefer options that produce a value, so mocks are as complete as possible
+        const options = schema.options.filter(option => !['null', 'undefined', 'void', 'never'].includes(option.kind));
+        return this.generate(this.pick(options.length > 0 ? options : schema.options), path);
+      }
+      
+      case 'intersection': {
+        const left = this.generate(schema.left, path);
+        const right = this.generate(schema.right, path);
+        return isPlainObject(left) && isPlainObject(right) ? { ...left, ...right } : left;
+      }
+      
+      case 'optional':
+      case 'nullable':
+      case 'catch':
+      case 'transform':
+        return this.generate(schema.inner, path);
+      
+      case 'default':
+        return schema.value !== undefined ? JSON.parse(JSON.stringify(schema.value)) : this.generate(schema.inner, path);
+      
+      case 'pipe':
+        return this.generatePipeInput(schema.input, schema.output, path);
+    }
+  }
+  
+  /**
+   * Move an update timestamp (e.g. `updatedAt`) of a generated object after its
+   * creation timestamp (e.g. `createdAt`), so the pair is plausible
+   */
+  private orderTimestamps(shape: Record<string, SchemaNode>, path: string, value: Record<string, any>): void {
+    const created = Object.keys(value).find(key => CREATED_FIELDS.test(fieldName(key)));
+    const updated = Object.keys(value).find(key => UPDATED_FIELDS.test(fieldName(key)));
+    if (!created || !updated || this.findCustomGenerator(shape[updated], joinPath(path, updated))) {
+      return;
+    }
+    
+    const start = toTime(value[created]);
+    const end = this.clock().getTime();
+    if (start === undefined || toTime(value[updated]) === undefined || start > end) {
+      return;
+    }
+    
+    const date = new Date(start + this.integer(0, Math.floor((end - start) / 1000)) * 1000);
+    const previous = value[updated];
+    const candidate = previous instanceof Date
+      ? date
+      : /^\d{4}-\d{2}-\d{2}$/.test(previous) ? date.toISOString().substring(0, 10) : date.toISOString();
+    
+    if (this.satisfies(shape[updated], candidate)) {
+      value[updated] = candidate;
+    }
+  }
+  
+  /**
+   * Find an input for a pipe whose (transformed) value satisfies the output schema.
+   *
+   * Candidates come from the input schema, and from the output schema both as is and
+   * string-encoded, which covers the common `z.string().transform(parseInt).pipe(z.number())`.
+   */
+  private generatePipeInput(input: SchemaNode, output: SchemaNode, path: string): any {
+    const pipe: SchemaNode = { kind: 'pipe', input, output };
+    let fallback: any;
+    
+    for (let attempt = 0; attempt < PIPE_ATTEMPTS; attempt++) {
+      const fromInput = this.generate(input, path);
+      const fromOutput = this.generate(output, path);
+      const candidates = [fromInput, fromOutput, fromOutput === undefined ? undefined : String(fromOutput)];
+      
+      for (const candidate of candidates) {
+        if (this.validator.validate(pipe, candidate).issues.length === 0) {
+          return candidate;
+        }
+      }
+      
+      fallback = fallback ?? fromInput;
+    }
+    
+    return fallback;
+  }
+  
+  /**
+   * Generate a string satisfying formats and length constraints
+   */
+  private generateString(node: StringSchemaNode, path: string): string {
+    const check = (kind: string) => node.checks.find(candidate => candidate.kind === kind);
+    
+    if (this.realistic) {
+      const candidate = this.realisticString(fieldName(path), node);
+      if (candidate !== undefined && this.satisfies(node, candidate)) {
+        return candidate;
+      }
+    }
+    
+    const regex = check('regex');
+    if (regex && typeof regex.value === 'string') {
+      return sampleRegex(regex.value, this.random);
+    }
+    
+    const format = node.checks.find(candidate => candidate.kind in FORMAT_GENERATORS);
+    if (format) {
+      return !this.realistic && MINIMAL_FORMATS[format.kind]
+        ? MINIMAL_FORMATS[format.kind]
+        : FORMAT_GENERATORS[format.kind](this, format);
+    }
+    
+    const prefix = check('startsWith')?.value ?? '';
+    const suffix = check('endsWith')?.value ?? '';
+    const infix = check('includes')?.value ?? '';
+    const fixed = `${prefix}${infix}${suffix}`.length;
+    
+    const exact = check('length')?.value;
+    const min = Math.max(check('min')?.value ?? 0, check('nonempty') ? 1 : 0);
+    const max = check('max')?.value ?? Math.max(min, 12) + 4;
+    
+    if (!this.realistic) {
+      const length = Math.max((exact ?? Math.min(Math.max(min, PLACEHOLDER.length), max)) - fixed, 0);
+      return `${prefix}${infix}${PLACEHOLDER.padEnd(length, 'x').substring(0, length)}${suffix}`;
+    }
+    
+    const length = exact ?? this.integer(Math.min(Math.max(min, 8), max), Math.min(Math.max(min, 12), max));
+    
+    return `${prefix}${infix}${this.word(Math.max(length - fixed, 0))}${suffix}`;
+  }
+  
+  /**
+   * Propose a realistic string from the field name and format, using the locale dictionary.
+   * The caller checks the proposal against the schema.
+   */
+  private realisticString(name: string, node: StringSchemaNode): string | undefined {
+    const dictionary = this.dictionary;
+    const hasCheck = (kind: string) => node.checks.some(check => check.kind === kind);
+    
+    if (hasCheck('regex')) {
+      return undefined;
+    }
+    if (hasCheck('email') || /e?mail(address)?$/.test(name)) {
+      return `${toAscii(`${this.pick(dictionary.firstNames)}.${this.pick(dictionary.lastNames)}`)}@${this.pick(EMAIL_DOMAINS)}`;
+    }
+    if (hasCheck('url') || /(url|uri|website|homepage|link)$/.test(name)) {
+      return /(avatar|image|photo|picture|logo)/.test(name)
+        ? `https://${this.pick(EMAIL_DOMAINS)}/images/${this.word(10)}.jpg`
+        : `https://www.${this.pick(EMAIL_DOMAINS)}/${toAscii(this.pick(dictionary.words)).replace(/\./g, '-')}`;
+    }
+    if (node.checks.some(check => check.kind in FORMAT_GENERATORS)) {
+      return undefined;
+    }
+    
+    if (/^(first|given)name$/.test(name)) {
+      return this.pick(dictionary.firstNames);
+    }
+    if (/^(last|family|sur)name$/.test(name)) {
+      return this.pick(dictionary.lastNames);
+    }
+    if (/^(user|login|screen)name$|^handle$/.test(name)) {
+      return toAscii(`${this.pick(dictionary.firstNames)}.${this.pick(dictionary.lastNames)}`);
+    }
+    if (/(company|organi[sz]ation|employer|business)(name)?$/.test(name)) {
+      return `${this.pick(dictionary.lastNames)} ${this.pick(dictionary.companySuffixes)}`;
+    }
+    if (/^(full|display|contact|customer|author|owner|person)?name$/.test(name)) {
+      return `${this.pick(dictionary.firstNames)} ${this.pick(dictionary.lastNames)}`;
+    }
+    if (/^(street|streetaddress|address|addressline1?)$/.test(name)) {
+      return dictionary.streetFormat
+        .replace('{number}', String(this.integer(1, 199)))
+        .replace('{street}', this.pick(dictionary.streets));
+    }
+    if (/(city|town)$/.test(name)) {
+      return this.pick(dictionary.cities);
+    }
+    if (/(zip|zipcode|postalcode|postcode)$/.test(name)) {
+      return this.fillDigits(dictionary.postalCodeFormat);
+    }
+    if (/^(state|region|province|county)$/.test(name)) {
+      return this.pick(dictionary.regions);
+    }
+    if (/countrycode$/.test(name)) {
+      return dictionary.countryCode;
+    }
+    if (/country$/.test(name)) {
+      // Fields limited to a few characters hold an ISO 3166-1 code rather than a name
+      const [alpha2, alpha3] = this.pick(ISO_COUNTRY_CODES);
+      const limit = node.checks.find(check => check.kind === 'length' || check.kind === 'max')?.value;
+      return typeof limit === 'number' && limit <= 3 ? (limit === 3 ? alpha3 : alpha2) : dictionary.country;
+    }
+    if (/(phone|mobile|telephone|fax)(number)?$/.test(name)) {
+      return this.fillDigits(dictionary.phoneFormat);
+    }
+    if (/currency(code)?$/.test(name)) {
+      return dictionary.currency;
+    }
+    if (CURRENCY_AMOUNT.test(name)) {
+      return (this.integer(500, 50000) / 100).toFixed(2);
+    }
+    if (/(colou?r)$/.test(name)) {
+      return `#${this.word(6, '0123456789abcdef')}`;
+    }
+    if (/(locale|language)$/.test(name)) {
+      return dictionary.locale;
+    }
+    if (/(title|subject|headline|label)$/.test(name)) {
+      return capitalize(this.words(this.integer(2, 4)));
+    }
+    if (/(description|summary|bio|comment|message|note|notes|text|content|body)$/.test(name)) {
+      return `${capitalize(this.words(this.integer(6, 10)))}.`;
+    }
+    
+    return this.words(this.integer(1, 2));
+  }
+  
+  /**
+   * Propose a realistic number from the field name
+   */
+  private realisticNumber(name: string): number | undefined {
+    if (CURRENCY_AMOUNT.test(name)) {
+      return this.integer(500, 50000) / 100;
+    }
+    if (/^age$/.test(name)) {
+      return this.integer(18, 80);
+    }
+    if (/year$/.test(name)) {
+      return this.clock().getUTCFullYear() - this.integer(0, 20);
+    }
+    if (/(quantity|qty|count)$/.test(name)) {
+      return this.integer(1, 20);
+    }
+    if (/rating$/.test(name)) {
+      return this.integer(1, 5);
+    }
+    if (/(percent|percentage)$/.test(name)) {
+      return this.integer(0, 100);
+    }
+    if (/^(lat|latitude)$/.test(name)) {
+      return this.integer(-900000, 900000) / 10000;
+    }
+    if (/^(lng|lon|long|longitude)$/.test(name)) {
+      return this.integer(-1800000, 1800000) / 10000;
+    }
+    return undefined;
+  }
+  
+  /**
+   * Whether a value is accepted by a schema
+   */
+  private satisfies(node: SchemaNode, value: unknown): boolean {
+    return this.validator.validate(node, value).issues.length === 0;
+  }
+  
+  /**
+   * Random words from the locale dictionary, separated by spaces
+   */
+  private words(count: number): string {
+    return Array.from({ length: count }, () => this.pick(this.dictionary.words)).join(' ');
+  }
+  
+  /**
+   * Replace each `#` in a layout with a random digit
+   */
+  private fillDigits(layout: string): string {
+    return layout.replace(/#/g, () => String(this.integer(0, 9)));
+  }
+  
+  /**
+   * Generate a number satisfying bounds, integer and multipleOf constraints
+   */
+  private generateNumber(node: NumberSchemaNode, path: string): number {
+    if (this.realistic) {
+      const candidate = this.realisticNumber(fieldName(path));
+      if (candidate !== undefined && this.satisfies(node, candidate)) {
+        return candidate;
+      }
+    }
+    
+    const isInteger = node.checks.some(check => check.kind === 'int' || check.kind === 'safe');
+    const step = isInteger ? 1 : 0.01;
+    let min = -Infinity;
+    let max = Infinity;
+    
+    for (const check of node.checks) {
+      switch (check.kind) {
+        case 'min': min = Math.max(min, check.value); break;
+        case 'max': max = Math.min(max, check.value); break;
+        case 'gt': min = Math.max(min, isInteger ? Math.floor(check.value) + 1 : check.value + step); break;
+        case 'lt': max = Math.min(max, isInteger ? Math.ceil(check.value) - 1 : check.value - step); break;
+        case 'positive': min = Math.max(min, step); break;
+        case 'negative': max = Math.min(max, -step); break;
+        case 'nonnegative': min = Math.max(min, 0); break;
+        case 'nonpositive': max = Math.min(max, 0); break;
+      }
+    }
+    
+    if (min === -Infinity && max === Infinity) {
+      min = 1;
+      max = 100;
+    } else if (min === -Infinity) {
+      min = max - 100;
+    } else if (max === Infinity) {
+      max = min + 100;
+    }
+    
+    const multipleOf = node.checks.find(check => check.kind === 'multipleOf')?.value;
+    if (typeof multipleOf === 'number' && multipleOf > 0) {
+      const low = Math.ceil(min / multipleOf);
+      const high = Math.floor(max / multipleOf);
+      const k = this.realistic ? this.integer(low, high) : closestToZero(low, high);
+      return Number((k * multipleOf).toPrecision(12));
+    }
+    
+    if (isInteger) {
+      return this.realistic
+        ? this.integer(Math.ceil(min), Math.floor(max))
+        : closestToZero(Math.ceil(min), Math.floor(max));
+    }
+    
+    if (!this.realistic) {
+      return closestToZero(min, max);
+    }
+    
+    const value = Math.round((min + this.random() * (max - min)) * 100) / 100;
+    return Math.min(Math.max(value, min), max);
+  }
+  
+  /**
+   * Pick an array length within the length constraints, preferring 1-3 items
+   */
+  private arrayLength(node: ArraySchemaNode): number {
+    const check = (kind: string) => node.checks.find(candidate => candidate.kind === kind);
+    
+    const exact = check('length')?.value;
+    if (typeof exact === 'number') {
+      return exact;
+    }
+    
+    const min = Math.max(check('min')?.value ?? 0, check('nonempty') ? 1 : 0);
+    const max = check('max')?.value ?? Infinity;
+    const low = Math.min(Math.max(min, 1), max);
+    
+    return this.integer(low, Math.min(Math.max(low, 3), max));
+  }
+  
+  /**
+   * Random integer in [min, max]
+   */
+  integer(min: number, max: number): number {
+    if (max <= min) {
+      return min;
+    }
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+  
+  /**
+   * Random lower-case alphanumeric word
+   */
+  word(length: number, alphabet: string = ALPHANUMERIC): string {
+    let text = '';
+    for (let i = 0; i < length; i++) {
+      text += alphabet[Math.floor(this.random() * alphabet.length)];
+    }
+    return text;
+  }
+  
+  /**
+   * Random date within the year before the clock's current time
+   */
+  recentDate(): Date {
+    const seconds = this.integer(0, 365 * 86400);
+    return new Date(this.clock().getTime() - seconds * 1000);
+  }
+  
+  /**
+   * Random element of a list
+   */
+  pick<T>(values: T[]): T {
+    return values[Math.floor(this.random() * values.length)];
+  }
+}
+
+/**
+ * Placeholder text for plain strings when realistic data is off
+ */
+const PLACEHOLDER = 'string';
+
+/**
+ * Placeholders for string formats when realistic data is off
+ * (other formats use their generator, which is stable without randomness)
+ */
+const MINIMAL_FORMATS: Record<string, string> = {
+  email: 'user@example.com',
+  url: 'https://example.com'
+};
+
+/**
+ * Domains reserved for documentation, used for emails and URLs
+ */
+const EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net'];
+
+/**
+ * ISO 3166-1 alpha-2 and alpha-3 codes used for short country fields
+ */
+const ISO_COUNTRY_CODES: Array<[string, string]> = [
+  ['US', 'USA'],
+  ['CA', 'CAN'],
+  ['GB', 'GBR'],
+  ['DE', 'DEU'],
+  ['FR', 'FRA'],
+  ['ES', 'ESP'],
+  ['IT', 'ITA'],
+  ['NL', 'NLD'],
+  ['SE', 'SWE'],
+  ['JP', 'JPN'],
+  ['AU', 'AUS'],
+  ['BR', 'BRA']
+];
+
+/**
+ * Normalized field names holding when an object was created
+ */
+const CREATED_FIELDS = /^(createdat|createdon|createddate|creationdate|created)$/;
+
+/**
+ * Normalized field names holding when an object was last changed
+ */
+const UPDATED_FIELDS = /^(updatedat|updatedon|updateddate|modifiedat|modifiedon|lastmodified|modified|updated)$/;
+
+/**
+ * Field names holding currency amounts
+ */
+const CURRENCY_AMOUNT = /(price|amount|total|subtotal|cost|balance|salary|fee|tax)$/;
+
+/**
+ * Generators for string formats
+ */
+const FORMAT_GENERATORS: Record<string, (generator: MockDataGenerator, check: SchemaCheck) => string> = {
+  uuid: generator => {
+    const hex = '0123456789abcdef';
+    return [
+      generator.word(8, hex),
+      generator.word(4, hex),
+      `4${generator.word(3, hex)}`,
+      `${generator.pick(['8', '9', 'a', 'b'])}${generator.word(3, hex)}`,
+      generator.word(12, hex)
+    ].join('-');
+  },
+  email: generator => `user.${generator.word(6)}@example.com`,
+  url: generator => `https://example.com/${generator.word(8)}`,
+  datetime: generator => generator.recentDate().toISOString(),
+  date: generator => generator.recentDate().toISOString().substring(0, 10),
+  time: generator => [generator.integer(0, 23), generator.integer(0, 59), generator.integer(0, 59)]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':'),
+  cuid: generator => `c${generator.word(24)}`,
+  cuid2: generator => generator.word(24),
+  ulid: generator => generator.word(26, '0123456789ABCDEFGHJKMNPQRSTVWXYZ'),
+  ip: generator => `192.168.${generator.integer(0, 255)}.${generator.integer(1, 254)}`,
+  emoji: generator => generator.pick(['🙂', '🚀', '✅'])
+};
+
+/**
+ * Whether a schema accepts undefined
+ */
+function isOptional(node: SchemaNode): boolean {
+  return node.kind === 'optional' || node.kind === 'undefined' || node.kind === 'void';
+}
+
+/**
+ * Milliseconds since the epoch of a generated date or date string
+ */
+function toTime(value: unknown): number | undefined {
+  const time = value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Whether a value is a non-array object
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Last segment of a dotted path, without array indices (`data[0].user.email` → `email`)
+ */
+function lastSegment(path: string): string {
+  return (path.split('.').pop() || '').replace(/\[\d+\]/g, '');
+}
+
+/**
+ * Normalized name of the field at a path (`body.user.firstName` → `firstname`, `tags[0]` → `tags`)
+ */
+function fieldName(path: string): string {
+  const segment = path.split('.').pop() || '';
+  return segment.replace(/\[\d+\]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Lower-case ASCII form of a name for emails and URLs (`Müller` → `mueller`)
+ */
+function toAscii(text: string): string {
+  return text
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue')
+    .replace(/Ä/g, 'Ae').replace(/Ö/g, 'Oe').replace(/Ü/g, 'Ue').replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '.')
+    .replace(/^\.+|\.+$/g, '');
+}
+
+/**
+ * The value closest to zero within [min, max]
+ */
+function closestToZero(min: number, max: number): number {
+  return Math.min(Math.max(0, min), max);
+}
+
+/**
+ * Upper-case the first character
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Join a parent path and a property key
+ */
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Character sets for regex escapes
+ */
+const REGEX_CLASSES: Record<string, string> = {
+  d: '0123456789',
+  w: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_',
+  s: ' ',
+  D: 'abcdefghijklmnopqrstuvwxyz',
+  W: '-',
+  S: 'abcdefghijklmnopqrstuvwxyz'
+};
+
+/**
+ * Printable ASCII characters, used for `.` and negated classes
+ */
+const PRINTABLE = Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)).join('');
+
+/**
+ * Generate a string matching a regex literal (`/^[a-z]{3,8}$/`).
+ *
+ * Supports literals, escapes, character classes, groups with alternation and
+ * quantifiers; lookarounds and backreferences are not supported.
+ */
+function sampleRegex(text: string, random: () => number): string {
+  const literal = text.match(/^\/(.*)\/[a-z]*$/s);
+  const source = literal ? literal[1] : text;
+  let position = 0;
+  
+  const pick = (characters: string) => characters[Math.floor(random() * characters.length)] ?? '';
+  
+  const alternatives = splitAlternatives(source);
+  if (alternatives.length > 1) {
+    return sampleRegex(alternatives[Math.floor(random() * alternatives.length)], random);
+  }
+  
+  let output = '';
+  while (position < source.length) {
+    const char = source[position];
+    let atom: () => string;
+    
+    if (char === '^' || char === '$') {
+      position++;
+      continue;
+    } else if (char === '(') {
+      const end = findGroupEnd(source, position);
+      let inner = source.substring(position + 1, end);
+      if (inner.startsWith('?:')) {
+        inner = inner.substring(2);
+      } else if (/^\?<[A-Za-z_]\w*>/.test(inner)) {
+        inner = inner.replace(/^\?<[A-Za-z_]\w*>/, '');
+      }
+      atom = () => sampleRegex(inner, random);
+      position = end + 1;
+    } else if (char === '[') {
+      const end = skipClass(source, position);
+      const characters = expandClass(source.substring(position + 1, end - 1));
+      atom = () => pick(characters);
+      position = end;
+    } else if (char === '\\') {
+      const escaped = source[position + 1] ?? '';
+      atom = () => REGEX_CLASSES[escaped] !== undefined ? pick(REGEX_CLASSES[escaped]) : escaped;
+      position += 2;
+    } else if (char === '.') {
+      atom = () => pick(ALPHANUMERIC);
+      position++;
+    } else {
+      atom = () => char;
+      position++;
+    }
+    
+    const [min, max] = readQuantifier();
+    const count = min + Math.floor(random() * (max - min + 1));
+    for (let i = 0; i < count; i++) {
+      output += atom();
+    }
+  }
+  
+  return output;
+  
+  function readQuantifier(): [number, number] {
+    const char = source[position];
+    let range: [number, number] = [1, 1];
+    
+    if (char === '*') {
+      range = [0, 3];
+      position++;
+    } else if (char === '+') {
+      range = [1, 3];
+      position++;
+    } else if (char === '?') {
+      range = [0, 1];
+      position++;
+    } else if (char === '{') {
+      const match = source.substring(position).match(/^\{(\d+)(,(\d*))?\}/);
+      if (match) {
+        const min = parseInt(match[1], 10);
+        const max = match[2] === undefined ? min : match[3] ? parseInt(match[3], 10) : min + 3;
+        range = [min, max];
+        position += match[0].length;
+      }
+    }
+    
+    // Lazy and possessive markers don't change what matches
+    if (source[position] === '?' && range[0] !== range[1]) {
+      position++;
+    }
+    
+    return range;
+  }
+}
+
+/**
+ * Split a regex source at the `|`s outside any group or class
+ */
+function splitAlternatives(source: string): string[] {
+  const alternatives: string[] = [];
+  let depth = 0;
+  let start = 0;
+  
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      i = skipClass(source, i) - 1;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      alternatives.push(source.substring(start, i));
+      start = i + 1;
+    }
+  }
+  alternatives.push(source.substring(start));
+  
+  return alternatives;
+}
+
+/**
+ * Index of the `)` closing the group opened at `start`
+ */
+function findGroupEnd(source: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      i = skipClass(source, i) - 1;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Index just after the `]` closing the class opened at `start`
+ */
+function skipClass(source: string, start: number): number {
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === ']' && i > start + 1) {
+      return i + 1;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Expand the body of a character class (`a-z0-9_`, `^,`) to its characters
+ */
+function expandClass(body: string): string {
+  const negated = body.startsWith('^');
+  const content = negated ? body.substring(1) : body;
+  let characters = '';
+  
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      const escaped = content[++i] ?? '';
+      characters += REGEX_CLASSES[escaped] ?? escaped;
+      continue;
+    }
+    if (content[i + 1] === '-' && i + 2 < content.length) {
+      const end = content[i + 2];
+      for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+        characters += String.fromCharCode(code);
+      }
+      i += 2;
+      continue;
+    }
+    characters += char;
+  }
+  
+  if (negated) {
+    return PRINTABLE.split('').filter(char => !characters.includes(char)).join('');
+  }
+  
+  return characters;
+}
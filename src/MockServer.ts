@@ -0,0 +1,175 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { parseBody, readBody } from './HttpTransport';
+
+/**
+ * Options for the mock server
+ */
+export interface MockServerOptions {
+  /**
+   * Port to listen on; 0 picks a free port
+   * @default 0
+   */
+  port?: number;
+  
+  /**
+   * Host to listen on
+   * @default '127.0.0.1'
+   */
+  host?: string;
+  
+  /**
+   * Called when a request could not be answered, e.g. because its body could not be read
+   * (errors thrown by the handler are answered with a 500 instead)
+   */
+  onError?: (error: Error, request: { method: string; url: string }) => void;
+}
+
+/**
+ * A request received by the mock server
+ */
+export interface MockServerRequest {
+  method: string;
+  
+  /**
+   * Path and query string, e.g. `/users/6f1c...?page=2`
+   */
+  url: string;
+  
+  headers: http.IncomingHttpHeaders;
+  
+  /**
+   * Body parsed as JSON, the raw text when it is not JSON, or undefined when empty
+   */
+  body?: any;
+}
+
+/**
+ * A response sent by the mock server
+ */
+export interface MockServerResponse {
+  status: number;
+  
+  /**
+   * Body, sent as JSON; no body is sent when undefined
+   */
+  body?: any;
+  
+  headers?: Record<string, string>;
+}
+
+/**
+ * Handles the requests received by the mock server
+ */
+export type MockServerHandler = (request: MockServerRequest) => Promise<MockServerResponse>;
+
+/**
+ * A local HTTP server answering every request with the response of a handler
+ *
+ * Bodies are read as JSON and responses are sent as JSON; errors thrown by the
+ * handler are answered with a 500.
+ */
+export class MockServer {
+  private server: http.Server | null = null;
+  
+  constructor(private handler: MockServerHandler, private options: MockServerOptions = {}) {}
+  
+  /**
+   * Whether the server is listening
+   */
+  get listening(): boolean {
+    return !!this.server?.listening;
+  }
+  
+  /**
+   * Base URL of the server, e.g. `http://127.0.0.1:4010`, once it is listening
+   */
+  get url(): string | undefined {
+    if (!this.server?.listening) {
+      return undefined;
+    }
+    
+    const address = this.server.address() as AddressInfo;
+    const host = address.address.includes(':') ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+  
+  /**
+   * Start listening, resolving with the base URL
+   */
+  async start(): Promise<string> {
+    if (this.server?.listening) {
+      return this.url!;
+    }
+    
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        if (!response.headersSent) {
+          response.statusCode = 500;
+        }
+        response.end();
+        this.options.onError?.(
+          new Error(`Mock server failed to answer ${request.method} ${request.url}: ${error instanceof Error ? error.message : String(error)}`),
+          { method: (request.method || 'GET').toUpperCase(), url: request.url || '/' }
+        );
+      });
+    });
+    
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    
+    this.server = server;
+    return this.url!;
+  }
+  
+  /**
+   * Stop listening, closing open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    
+    this.server = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+      server.closeAllConnections();
+    });
+  }
+  
+  /**
+   * Answer a request with the response of the handler
+   */
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const body = parseBody((await readBody(request)).toString('utf8'));
+    
+    let result: MockServerResponse;
+    try {
+      result = await this.handler({
+        method: (request.method || 'GET').toUpperCase(),
+        url: request.url || '/',
+        headers: request.headers,
+        body
+      });
+    } catch (error) {
+      result = {
+        status: 500,
+        body: { error: `Mock server error: ${error instanceof Error ? error.message : String(error)}` }
+      };
+    }
+    
+    const payload = result.body === undefined || request.method === 'HEAD' ? undefined : JSON.stringify(result.body);
+    response.writeHead(result.status, {
+      ...(result.body !== undefined ? { 'Content-Type': 'application/json; charset=utf-8' } : {}),
+      ...result.headers
+    });
+    response.end(payload);
+  }
+}
+
@@ -0,0 +1,381 @@
+import * as http from 'http';
+import { stringify as stringifyYaml } from 'yaml';
+import { SchemaNode } from './SchemaInterpreter';
+import { JsonSchemaConverter, JsonSchema, isOptionalInput } from './JsonSchemaConverter';
+
+/**
+ * The parts of a contract an OpenAPI operation is built from
+ */
+export interface OpenAPIContractSource {
+  /**
+   * Stable contract ID, used as the operation ID
+   */
+  id: string;
+  
+  method: string;
+  path: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  
+  params?: SchemaNode;
+  query?: SchemaNode;
+  body?: SchemaNode;
+  
+  responses: Array<{ status: number; description?: string; schema?: SchemaNode }>;
+  
+  /**
+   * Authentication requirements, from `auth` in the contract
+   */
+  auth?: {
+    requiresAuthentication: boolean;
+    roles: string[];
+    scopes: string[];
+  };
+}
+
+/**
+ * Options for the OpenAPI export
+ */
+export interface OpenAPIExportOptions {
+  /**
+   * API title
+   * @default 'API'
+   */
+  title?: string;
+  
+  /**
+   * API version
+   * @default '1.0.0'
+   */
+  version?: string;
+  
+  /**
+   * API description
+   */
+  description?: string;
+  
+  /**
+   * Server URLs, e.g. `https://api.example.com`
+   */
+  servers?: string[];
+  
+  /**
+   * Output format
+   * @default 'json'
+   */
+  format?: 'json' | 'yaml';
+}
+
+/**
+ * An OpenAPI 3.1 document
+ */
+export type OpenAPIDocument = Record<string, any>;
+
+/**
+ * Name of the security scheme used for contracts requiring authentication
+ */
+const SECURITY_SCHEME = 'bearerAuth';
+
+/**
+ * HTTP methods OpenAPI has operations for
+ */
+const OPERATION_METHODS = new Set(['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']);
+
+/**
+ * Schema names that only say which part of a contract they describe, so they are
+ * not shared under their own name
+ */
+const GENERIC_SCHEMA_NAMES = new Set([
+  'Params',
+  'PathParams',
+  'Query',
+  'QueryParams',
+  'Body',
+  'RequestBody',
+  'Request',
+  'Response',
+  'ResponseBody',
+  'Headers',
+  'Payload',
+  'Input',
+  'Output'
+]);
+
+/**
+ * Operation extension listing the roles a contract authorizes
+ */
+export const ROLES_EXTENSION = 'x-roles';
+
+/**
+ * Builds a single OpenAPI 3.1 document from TypedAPI contracts
+ *
+ * Schemas resolved from a named declaration (e.g. `UserSchema`) become shared
+ * `components.schemas` entries (`User`) referenced by `$ref`; generic names like
+ * `BodySchema` are prefixed with the contract (`AdminApiKeyGetBody`). Express path
+ * templates are converted to OpenAPI ones: `/users/:userId` becomes `/users/{userId}`.
+ * Roles are listed in the `x-roles` operation extension, scopes in the security requirement.
+ */
+export class OpenAPIExporter {
+  /**
+   * Problems found while exporting, e.g. duplicate operations
+   */
+  readonly warnings: string[] = [];
+  
+  private components: Record<string, JsonSchema> = {};
+  
+  /**
+   * The contract whose operation is being built, used to name generic schemas
+   */
+  private contract?: OpenAPIContractSource;
+  private converter = new JsonSchemaConverter({
+    reference: (node, convert) => this.reference(node, convert)
+  });
+  
+  constructor(private options: OpenAPIExportOptions = {}) {}
+  
+  /**
+   * Build the document
+   */
+  export(contracts: OpenAPIContractSource[]): OpenAPIDocument {
+    this.components = {};
+    this.warnings.length = 0;
+    
+    const paths: Record<string, Record<string, any>> = {};
+    const tags = new Set<string>();
+    let secured = false;
+    
+    for (const contract of contracts) {
+      const method = contract.method.toLowerCase();
+      if (!OPERATION_METHODS.has(method)) {
+        this.warnings.push(`${contract.id}: unsupported HTTP method "${contract.method}"`);
+        continue;
+      }
+      
+      const apiPath = toOpenAPIPath(contract.path);
+      paths[apiPath] = paths[apiPath] || {};
+      if (paths[apiPath][method]) {
+        this.warnings.push(`${contract.id}: ${method.toUpperCase()} ${apiPath} is already exported by ${paths[apiPath][method].operationId}`);
+        continue;
+      }
+      
+      contract.tags.forEach(tag => tags.add(tag));
+      secured = secured || !!contract.auth?.requiresAuthentication;
+      paths[apiPath][method] = this.createOperation(contract);
+    }
+    
+    const document: OpenAPIDocument = {
+      openapi: '3.1.0',
+      info: {
+        title: this.options.title || 'API',
+        version: this.options.version || '1.0.0',
+        ...(this.options.description ? { description: this.options.description } : {})
+      }
+    };
+    
+    if (this.options.servers && this.options.servers.length > 0) {
+      document.servers = this.options.servers.map(url => ({ url }));
+    }
+    if (tags.size > 0) {
+      document.tags = Array.from(tags).sort().map(name => ({ name }));
+    }
+    
+    document.paths = sortKeys(paths);
+    
+    const components: Record<string, any> = {};
+    if (Object.keys(this.components).length > 0) {
+      components.schemas = sortKeys(this.components);
+    }
+    if (secured) {
+      components.securitySchemes = {
+        [SECURITY_SCHEME]: { type: 'http', scheme: 'bearer' }
+      };
+    }
+    if (Object.keys(components).length > 0) {
+      document.components = components;
+    }
+    
+    return document;
+  }
+  
+  /**
+   * Serialize a document as JSON or YAML
+   */
+  serialize(document: OpenAPIDocument): string {
+    return this.options.format === 'yaml'
+      ? stringifyYaml(document, { aliasDuplicateObjects: false })
+      : `${JSON.stringify(document, null, 2)}\n`;
+  }
+  
+  /**
+   * Build the operation for a contract
+   */
+  private createOperation(contract: OpenAPIContractSource): Record<string, any> {
+    this.contract = contract;
+    const operation: Record<string, any> = {
+      operationId: toOperationId(contract.id)
+    };
+    
+    if (contract.tags.length > 0) {
+      operation.tags = contract.tags;
+    }
+    if (contract.summary) {
+      operation.summary = contract.summary;
+    }
+    if (contract.description) {
+      operation.description = contract.description;
+    }
+    
+    const parameters = [
+      ...this.createParameters(contract.params, 'path', contract),
+      ...this.createParameters(contract.query, 'query', contract)
+    ];
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+    
+    if (contract.body) {
+      operation.requestBody = {
+        required: !isOptionalInput(contract.body),
+        content: {
+          'application/json': { schema: this.converter.convert(contract.body) }
+        }
+      };
+    }
+    
+    operation.responses = {};
+    for (const response of contract.responses) {
+      operation.responses[response.status] = {
+        description: response.description || http.STATUS_CODES[response.status] || `Status ${response.status}`,
+        ...(response.schema ? {
+          content: {
+            'application/json': { schema: this.converter.convert(response.schema) }
+          }
+        } : {})
+      };
+    }
+    
+    // Scopes are listed in the requirement, as OpenAPI 3.1 allows for non-OAuth schemes;
+    // roles have no OpenAPI equivalent and go in an extension, so they survive an import
+    if (contract.auth?.requiresAuthentication) {
+      operation.security = [{ [SECURITY_SCHEME]: [...contract.auth.scopes] }];
+      if (contract.auth.roles.length > 0) {
+        operation[ROLES_EXTENSION] = [...contract.auth.roles];
+      }
+    } else if (contract.auth) {
+      operation.security = [];
+    }
+    
+    this.contract = undefined;
+    return operation;
+  }
+  
+  /**
+   * Build path or query parameters from an object schema
+   */
+  private createParameters(node: SchemaNode | undefined, location: 'path' | 'query', contract: OpenAPIContractSource): any[] {
+    if (!node) {
+      return [];
+    }
+    
+    const shape = getObjectShape(node);
+    if (!shape) {
+      this.warnings.push(`${contract.id}: ${location === 'path' ? 'params' : 'query'} schema is not an object and was not exported`);
+      return [];
+    }
+    
+    return Object.entries(shape).map(([name, property]) => {
+      const { description, ...schema } = this.converter.convert(property);
+      return {
+        name,
+        in: location,
+        // Path parameters are always required in OpenAPI
+        required: location === 'path' || !isOptionalInput(property),
+        ...(description ? { description } : {}),
+        schema
+      };
+    });
+  }
+  
+  /**
+   * Reference a named schema as a shared component, registering it on first use
+   *
+   * Returns undefined when a different schema is already registered under the name,
+   * so the schema is inlined instead.
+   */
+  private reference(node: SchemaNode, convert: (node: SchemaNode) => JsonSchema): JsonSchema | undefined {
+    const declared = node.name!.replace(/(.)Schema$/, '$1');
+    const name = GENERIC_SCHEMA_NAMES.has(declared) && this.contract
+      ? `${toTypeName(this.contract.id)}${declared}`
+      : declared;
+    if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+      return undefined;
+    }
+    
+    const schema = convert(node);
+    const existing = this.components[name];
+    
+    if (existing === undefined) {
+      this.components[name] = schema;
+    } else if (JSON.stringify(existing) !== JSON.stringify(schema)) {
+      return undefined;
+    }
+    
+    return { $ref: `#/components/schemas/${name}` };
+  }
+}
+
+/**
+ * Convert an Express path template to an OpenAPI one (`/users/:userId` → `/users/{userId}`)
+ *
+ * Optional parameters (`:userId?`) have no OpenAPI equivalent and are exported as required.
+ */
+export function toOpenAPIPath(apiPath: string): string {
+  return apiPath.replace(/\:([A-Za-z0-9_]+)\??/g, '{$1}');
+}
+
+/**
+ * Derive an operation ID from a contract ID (`admin/api-key/get` → `adminApiKeyGet`)
+ */
+function toOperationId(contractId: string): string {
+  const name = toTypeName(contractId);
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Derive a component name prefix from a contract ID (`admin/api-key/get` → `AdminApiKeyGet`)
+ */
+function toTypeName(contractId: string): string {
+  return contractId
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * The shape of an object schema, looking through optional and default wrappers
+ */
+function getObjectShape(node: SchemaNode): Record<string, SchemaNode> | undefined {
+  switch (node.kind) {
+    case 'object':
+      return node.shape;
+    case 'optional':
+    case 'nullable':
+    case 'default':
+    case 'catch':
+    case 'transform':
+      return getObjectShape(node.inner);
+    case 'pipe':
+      return getObjectShape(node.input);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Copy an object with its keys sorted, so exports are stable
+ */
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -0,0 +1,1151 @@
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { OpenAPIDocument, ROLES_EXTENSION } from './OpenAPIExporter';
+
+/**
+ * Options for the OpenAPI import
+ */
+export interface OpenAPIImportOptions {
+  /**
+   * Directory shared schema modules are written to, relative to the output directory
+   * @default 'schemas'
+   */
+  schemasDir?: string;
+}
+
+/**
+ * A file generated from an OpenAPI document
+ */
+export interface ImportedFile {
+  /**
+   * Path relative to the output directory, with forward slashes
+   */
+  path: string;
+  
+  content: string;
+  
+  /**
+   * Whether the file is a contract or a shared schema module
+   */
+  kind: 'contract' | 'schema';
+  
+  /**
+   * The operation a contract was generated from, e.g. `GET /users/{userId}`
+   */
+  operation?: string;
+}
+
+/**
+ * A schema object from the document (OpenAPI 3.0 schema objects and JSON Schema 2020-12 alike)
+ */
+type OpenAPISchema = Record<string, any>;
+
+/**
+ * Options applied while rendering a single schema
+ */
+interface RenderOptions {
+  /**
+   * Render `.optional()` (unless the schema has a default)
+   */
+  optional?: boolean;
+  
+  /**
+   * Parse numbers and booleans from strings, for path and query parameters
+   */
+  coerce?: boolean;
+}
+
+/**
+ * State of the file being generated
+ */
+interface RenderContext {
+  /**
+   * Path of the file, relative to the output directory
+   */
+  file: string;
+  
+  /**
+   * Component the file declares, for shared schema modules
+   */
+  component?: string;
+  
+  /**
+   * Components the file references
+   */
+  imports: Set<string>;
+  
+  /**
+   * Components whose type the file references by name, for recursive schemas
+   */
+  typeImports?: Set<string>;
+}
+
+/**
+ * HTTP methods contracts can be generated for
+ */
+const CONTRACT_METHODS = ['get', 'post', 'put', 'delete', 'patch'];
+
+/**
+ * Names declared by generated contract files, which component schemas must not take
+ */
+const RESERVED_NAMES = /^(Params|Query|Body|Response\d{3})$/;
+
+/**
+ * Zod string checks for OpenAPI string formats
+ */
+const STRING_FORMATS: Record<string, string> = {
+  uuid: '.uuid()',
+  email: '.email()',
+  uri: '.url()',
+  url: '.url()',
+  'date-time': '.datetime({ offset: true })',
+  date: '.date()',
+  time: '.time()',
+  ipv4: `.ip({ version: 'v4' })`,
+  ipv6: `.ip({ version: 'v6' })`
+};
+
+/**
+ * Indentation used in generated code
+ */
+const INDENT = '  ';
+
+/**
+ * Generates TypedAPI contract files from an OpenAPI 3.0 or 3.1 document
+ *
+ * Every operation becomes a `<first path segment>/<operation>.contracts.ts` file shaped
+ * like a hand-written contract: exported `ParamsSchema`, `QuerySchema` and `BodySchema`,
+ * a `Response` union type and the `Contract` object. Every `components.schemas` entry
+ * becomes a shared module (`schemas/User.ts` exporting `UserSchema` and `User`), and
+ * `$ref`s to it become imports. OpenAPI path templates are converted to Express ones:
+ * `/users/{userId}` becomes `/users/:userId`.
+ */
+export class OpenAPIImporter {
+  /**
+   * Parts of the document that could not be imported as-is
+   */
+  readonly warnings: string[] = [];
+  
+  private document: OpenAPIDocument = {};
+  
+  /**
+   * Identifiers of the component schemas, keyed by component name
+   */
+  private componentNames = new Map<string, string>();
+  
+  /**
+   * Component schemas each component references directly
+   */
+  private componentReferences = new Map<string, Set<string>>();
+  
+  constructor(private options: OpenAPIImportOptions = {}) {}
+  
+  /**
+   * Generate the files for a document
+   */
+  import(document: OpenAPIDocument): ImportedFile[] {
+    if (!/^3\.[01]\./.test(String(document?.openapi))) {
+      throw new Error(`Unsupported OpenAPI version: ${document?.openapi ?? 'missing'}. Only 3.0 and 3.1 documents can be imported`);
+    }
+    
+    this.document = document;
+    this.warnings.length = 0;
+    this.indexComponents();
+    
+    const files: ImportedFile[] = [];
+    for (const name of this.componentNames.keys()) {
+      files.push(this.createSchemaModule(name));
+    }
+    
+    const used = new Set<string>();
+    for (const [apiPath, pathItem] of Object.entries<Record<string, any>>(document.paths || {})) {
+      for (const [method, operation] of Object.entries<Record<string, any>>(pathItem || {})) {
+        if (method === 'parameters' || method.startsWith('x-') || typeof operation !== 'object') {
+          continue;
+        }
+        if (!CONTRACT_METHODS.includes(method)) {
+          if (['options', 'head', 'trace'].includes(method)) {
+            this.warnings.push(`${method.toUpperCase()} ${apiPath}: contracts cannot use the ${method.toUpperCase()} method, the operation was skipped`);
+          }
+          continue;
+        }
+        
+        files.push(this.createContract(apiPath, method, operation, pathItem.parameters || [], used));
+      }
+    }
+    
+    return files;
+  }
+  
+  /**
+   * Assign identifiers to the component schemas and record the references between them
+   */
+  private indexComponents(): void {
+    this.componentNames.clear();
+    this.componentReferences.clear();
+    
+    const taken = new Set<string>();
+    for (const [name, schema] of Object.entries<OpenAPISchema>(this.document.components?.schemas || {})) {
+      let identifier = toIdentifier(name);
+      if (RESERVED_NAMES.test(identifier)) {
+        identifier = `${identifier}Model`;
+      }
+      
+      let unique = identifier;
+      for (let index = 2; taken.has(unique.toLowerCase()); index++) {
+        unique = `${identifier}${index}`;
+      }
+      taken.add(unique.toLowerCase());
+      
+      this.componentNames.set(name, unique);
+      this.componentReferences.set(name, collectReferences(schema));
+    }
+  }
+  
+  /**
+   * Generate the shared module for a component schema
+   */
+  private createSchemaModule(name: string): ImportedFile {
+    const identifier = this.componentNames.get(name)!;
+    const file = path.posix.join(this.getSchemasDir(), `${identifier}.ts`);
+    const context: RenderContext = { file, component: name, imports: new Set(), typeImports: new Set() };
+    const component: OpenAPISchema = this.document.components.schemas[name];
+    
+    const schema = this.render(component, context, '');
+    
+    // Recursive schemas reference themselves through z.lazy, so their type can't be
+    // inferred and is declared explicitly instead
+    let declarations: string[];
+    if (this.reaches(name, name)) {
+      const type = this.renderTypeScript(component, context, '');
+      const annotation = this.hasDefaults(name) ? `z.ZodType<${identifier}, z.ZodTypeDef, unknown>` : `z.ZodType<${identifier}>`;
+      declarations = [
+        isObjectSchema(component) && type.startsWith('{')
+          ? `export interface ${identifier} ${type}`
+          : `export type ${identifier} = ${type};`,
+        `export const ${identifier}Schema: ${annotation} = ${schema};`
+      ];
+    } else {
+      declarations = [
+        `export const ${identifier}Schema = ${schema};`,
+        `export type ${identifier} = z.infer<typeof ${identifier}Schema>;`
+      ];
+    }
+    
+    const content = [
+      this.renderImports(context),
+      `// Imported from the OpenAPI schema #/components/schemas/${name} by the TypedAPI tester addon`,
+      ...declarations
+    ].join('\n\n');
+    
+    return { path: file, content: `${content}\n`, kind: 'schema' };
+  }
+  
+  /**
+   * Generate the contract file for an operation
+   */
+  private createContract(apiPath: string, method: string, operation: Record<string, any>, pathParameters: any[], used: Set<string>): ImportedFile {
+    const label = `${method.toUpperCase()} ${apiPath}`;
+    const file = this.getContractFile(apiPath, method, operation, used);
+    const context: RenderContext = { file, imports: new Set() };
+    
+    // Operation parameters override path item parameters with the same name and location
+    const parameters = new Map<string, Record<string, any>>();
+    for (const reference of [...pathParameters, ...(operation.parameters || [])]) {
+      const parameter = this.resolve(reference);
+      if (parameter?.name && parameter.in) {
+        parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+    }
+    
+    const pathParams: Array<[string, string]> = [];
+    const queryParams: Array<[string, string]> = [];
+    const paramNames = new Map<string, string>();
+    
+    for (const parameter of parameters.values()) {
+      if (parameter.in === 'path') {
+        const name = toParamName(parameter.name);
+        if (name !== parameter.name) {
+          this.warnings.push(`${label}: path parameter "${parameter.name}" was renamed to "${name}"`);
+        }
+        paramNames.set(parameter.name, name);
+        pathParams.push([name, this.renderParameter(parameter, context, true)]);
+      } else if (parameter.in === 'query') {
+        queryParams.push([parameter.name, this.renderParameter(parameter, context, !!parameter.required)]);
+      } else {
+        this.warnings.push(`${label}: ${parameter.in} parameter "${parameter.name}" has no place in a contract and was skipped`);
+      }
+    }
+    
+    // Every parameter in the template needs a schema, or validateContract reports it
+    const contractPath = apiPath.replace(/\{([^}]+)\}/g, (_match, name: string) => {
+      if (!paramNames.has(name)) {
+        paramNames.set(name, toParamName(name));
+        pathParams.push([toParamName(name), 'z.string()']);
+        this.warnings.push(`${label}: path parameter "${name}" is not declared, it was imported as a string`);
+      }
+      return `:${paramNames.get(name)}`;
+    });
+    
+    const requestSchemas: string[] = [];
+    if (pathParams.length > 0) {
+      requestSchemas.push(`export const ParamsSchema = ${renderShape(pathParams, '')};`);
+    }
+    if (queryParams.length > 0) {
+      requestSchemas.push(`export const QuerySchema = ${renderShape(queryParams, '')};`);
+    }
+    
+    const requestBody = this.resolve(operation.requestBody);
+    const bodySchema = requestBody && this.getContentSchema(requestBody.content, label, 'request body');
+    if (bodySchema) {
+      const body = this.render(bodySchema, context, '', { optional: requestBody.required !== true });
+      requestSchemas.push(`export const BodySchema = ${body};`);
+    }
+    
+    const responses = this.getResponses(operation.responses || {}, label);
+    const responseSchemas: string[] = [];
+    const variants: string[] = [];
+    const responseEntries: string[] = [];
+    
+    for (const { status, response } of responses) {
+      const schema = this.getContentSchema(response.content, label, `${status} response`);
+      const inner = INDENT.repeat(3);
+      const entry = [`${inner}description: ${renderValue(response.description || `Status ${status}`, inner)}`];
+      
+      if (schema) {
+        const reference = this.getComponentReference(schema);
+        let name: string;
+        if (reference) {
+          name = `${this.componentNames.get(reference)}Schema`;
+          context.imports.add(reference);
+        } else {
+          name = `Response${status}Schema`;
+          responseSchemas.push(`const ${name} = ${this.render(schema, context, '')};`);
+        }
+        
+        entry.push(`${inner}schema: ${name}`);
+        variants.push(`{ status: ${status}; body: z.infer<typeof ${name}> }`);
+      } else {
+        variants.push(`{ status: ${status}; body: undefined }`);
+      }
+      
+      responseEntries.push(`${INDENT.repeat(2)}${status}: {\n${entry.join(',\n')}\n${INDENT.repeat(2)}}`);
+    }
+    
+    const properties = [
+      `path: ${renderValue(contractPath, INDENT)}`,
+      `method: '${method}'`
+    ];
+    if (operation.summary) {
+      properties.push(`summary: ${renderValue(operation.summary, INDENT)}`);
+    }
+    if (operation.description) {
+      properties.push(`description: ${renderValue(operation.description, INDENT)}`);
+    }
+    properties.push(`tags: ${renderValue(operation.tags || [], INDENT)}`);
+    
+    const auth = this.getAuth(operation);
+    if (auth) {
+      properties.push(`auth: ${renderValue(auth, INDENT)}`);
+    }
+    if (pathParams.length > 0) {
+      properties.push('params: ParamsSchema');
+    }
+    if (queryParams.length > 0) {
+      properties.push('query: QuerySchema');
+    }
+    if (bodySchema) {
+      properties.push('body: BodySchema');
+    }
+    properties.push(`response: {\n${responseEntries.join(',\n')}\n${INDENT}}`);
+    
+    const sections = [
+      this.renderImports(context),
+      `// Imported from the OpenAPI operation ${label}${operation.operationId ? ` (${operation.operationId})` : ''} by the TypedAPI tester addon`
+    ];
+    if (requestSchemas.length > 0) {
+      sections.push(`// Define the request schemas\n${requestSchemas.join('\n\n')}`);
+    }
+    if (responseSchemas.length > 0) {
+      sections.push(`// Define the response schemas for different status codes\n${responseSchemas.join('\n\n')}`);
+    }
+    if (variants.length > 0) {
+      sections.push(`// Define the response union type\nexport type Response =\n${variants.map(variant => `${INDENT}| ${variant}`).join('\n')};`);
+    }
+    sections.push(`// Define the contract\nexport const Contract = {\n${properties.map(property => `${INDENT}${property}`).join(',\n')}\n};`);
+    
+    return { path: file, content: `${sections.join('\n\n')}\n`, kind: 'contract', operation: label };
+  }
+  
+  /**
+   * Choose a unique contract file for an operation: `<first path segment>/<operation ID>.contracts.ts`,
+   * or the method and remaining path segments without an operation ID
+   */
+  private getContractFile(apiPath: string, method: string, operation: Record<string, any>, used: Set<string>): string {
+    const segments = apiPath.split('/').filter(Boolean);
+    const directory = segments.length > 0 && !segments[0].includes('{') ? toKebabCase(segments.shift()!) : '';
+    
+    const name = operation.operationId
+      ? toKebabCase(operation.operationId)
+      : [method, ...segments.map(segment => segment.replace(/^\{(.+)\}$/, 'by-$1'))].map(toKebabCase).filter(Boolean).join('-');
+    
+    let file = path.posix.join(directory, `${name}.contracts.ts`);
+    for (let index = 2; used.has(file); index++) {
+      file = path.posix.join(directory, `${name}-${index}.contracts.ts`);
+    }
+    used.add(file);
+    
+    return file;
+  }
+  
+  /**
+   * The responses of an operation keyed by status code
+   *
+   * Ranges (`4XX`) use their first status code. `default` is only used, as 200, when
+   * no other response is declared.
+   */
+  private getResponses(responses: Record<string, any>, label: string): Array<{ status: number; response: Record<string, any> }> {
+    const result = new Map<number, Record<string, any>>();
+    
+    for (const [key, value] of Object.entries(responses)) {
+      const response = this.resolve(value) || {};
+      if (/^[1-5]\d\d$/.test(key)) {
+        result.set(parseInt(key, 10), response);
+      } else if (/^[1-5]XX$/i.test(key)) {
+        const status = parseInt(key.charAt(0), 10) * 100;
+        if (!responses[String(status)]) {
+          result.set(status, response);
+          this.warnings.push(`${label}: ${key} responses were imported as ${status}`);
+        }
+      }
+    }
+    
+    if (responses.default) {
+      if (result.size === 0) {
+        result.set(200, this.resolve(responses.default) || {});
+        this.warnings.push(`${label}: the default response was imported as 200`);
+      } else {
+        this.warnings.push(`${label}: the default response has no status code and was skipped`);
+      }
+    }
+    
+    return Array.from(result.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([status, response]) => ({ status, response }));
+  }
+  
+  /**
+   * The schema of a request body or response, preferring JSON content
+   */
+  private getContentSchema(content: Record<string, any> | undefined, label: string, target: string): OpenAPISchema | undefined {
+    const types = Object.keys(content || {});
+    const type = types.find(name => name === 'application/json') || types.find(name => /[/+]json\b/.test(name)) || types[0];
+    
+    if (type && types.length > 1 && !/json/.test(type)) {
+      this.warnings.push(`${label}: ${target} has no JSON content, the ${type} schema was imported`);
+    }
+    
+    return type ? content![type].schema : undefined;
+  }
+  
+  /**
+   * Contract `auth` from the operation's security requirements (or the document's)
+   *
+   * Scopes listed in the requirements become authorization scopes, and roles listed in
+   * the `x-roles` extension (as exported) authorization roles. An empty requirement
+   * (`{}`) makes authentication optional.
+   */
+  private getAuth(operation: Record<string, any>): Record<string, any> | undefined {
+    const security: Array<Record<string, string[]>> | undefined = operation.security ?? this.document.security;
+    if (!Array.isArray(security)) {
+      return undefined;
+    }
+    
+    if (security.length === 0 || security.some(requirement => Object.keys(requirement).length === 0)) {
+      return { requiresAuthentication: false };
+    }
+    
+    const scopes = Array.from(new Set(security.flatMap(requirement => Object.values(requirement).flat())));
+    const roles = Array.isArray(operation[ROLES_EXTENSION])
+      ? operation[ROLES_EXTENSION].filter((role: unknown): role is string => typeof role === 'string')
+      : [];
+    
+    const authorization: Record<string, string[]> = {};
+    if (roles.length > 0) {
+      authorization.roles = roles;
+    }
+    if (scopes.length > 0) {
+      authorization.scopes = scopes;
+    }
+    
+    return Object.keys(authorization).length > 0
+      ? { requiresAuthentication: true, authorization }
+      : { requiresAuthentication: true };
+  }
+  
+  /**
+   * Render a path or query parameter, parsing numbers and booleans from the string Express provides
+   */
+  private renderParameter(parameter: Record<string, any>, context: RenderContext, required: boolean): string {
+    const schema: OpenAPISchema = { ...(parameter.schema || { type: 'string' }) };
+    if (parameter.description && !schema.description) {
+      schema.description = parameter.description;
+    }
+    
+    return this.render(schema, context, INDENT, { optional: !required, coerce: true });
+  }
+  
+  /**
+   * Render a schema as a Zod expression
+   * @param indent Indentation of the line the expression starts on
+   */
+  private render(schema: OpenAPISchema | boolean | undefined, context: RenderContext, indent: string, options: RenderOptions = {}): string {
+    if (schema === undefined || schema === true) {
+      return modifiers('z.unknown()', {}, options);
+    }
+    if (schema === false) {
+      return 'z.never()';
+    }
+    
+    let nullable = schema.nullable === true;
+    let base: string;
+    
+    if (typeof schema.$ref === 'string') {
+      base = this.renderReference(schema.$ref, context, indent, options);
+    } else if (schema.const !== undefined) {
+      base = `z.literal(${renderValue(schema.const, indent)})`;
+    } else if (Array.isArray(schema.enum)) {
+      const values = schema.enum.filter((value: any) => value !== null);
+      nullable = nullable || values.length < schema.enum.length;
+      base = renderEnum(values, indent);
+    } else if (Array.isArray(schema.allOf) || Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+      base = this.renderComposition(schema, context, indent);
+    } else {
+      let types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [inferType(schema)];
+      if (types.includes('null') && types.length > 1) {
+        nullable = true;
+        types = types.filter(type => type !== 'null');
+      }
+      
+      const rendered = types.map(type => this.renderType(type, schema, context, indent, options));
+      base = rendered.length === 1 ? rendered[0] : `z.union([${rendered.join(', ')}])`;
+    }
+    
+    return modifiers(nullable ? `${base}.nullable()` : base, schema, options);
+  }
+  
+  /**
+   * Render a schema of a single type with its keywords
+   */
+  private renderType(type: string, schema: OpenAPISchema, context: RenderContext, indent: string, options: RenderOptions): string {
+    switch (type) {
+      case 'string': {
+        let code = 'z.string()';
+        if (schema.format && STRING_FORMATS[schema.format]) {
+          code += STRING_FORMATS[schema.format];
+        }
+        if (typeof schema.minLength === 'number') {
+          code += `.min(${schema.minLength})`;
+        }
+        if (typeof schema.maxLength === 'number') {
+          code += `.max(${schema.maxLength})`;
+        }
+        if (typeof schema.pattern === 'string') {
+          code += `.regex(${renderPattern(schema.pattern)})`;
+        }
+        return code;
+      }
+      
+      case 'integer':
+      case 'number': {
+        let code = options.coerce ? 'z.coerce.number()' : 'z.number()';
+        if (type === 'integer') {
+          code += '.int()';
+        }
+        // OpenAPI 3.0 marks exclusive bounds with booleans, 3.1 gives them as numbers
+        if (typeof schema.minimum === 'number') {
+          code += schema.exclusiveMinimum === true ? `.gt(${schema.minimum})` : `.min(${schema.minimum})`;
+        }
+        if (typeof schema.maximum === 'number') {
+          code += schema.exclusiveMaximum === true ? `.lt(${schema.maximum})` : `.max(${schema.maximum})`;
+        }
+        if (typeof schema.exclusiveMinimum === 'number') {
+          code += `.gt(${schema.exclusiveMinimum})`;
+        }
+        if (typeof schema.exclusiveMaximum === 'number') {
+          code += `.lt(${schema.exclusiveMaximum})`;
+        }
+        if (typeof schema.multipleOf === 'number') {
+          code += `.multipleOf(${schema.multipleOf})`;
+        }
+        return code;
+      }
+      
+      case 'boolean':
+        // z.coerce.boolean() would read 'false' as true
+        return options.coerce ? `z.enum(['true', 'false']).transform((val) => val === 'true')` : 'z.boolean()';
+      
+      case 'null':
+        return 'z.null()';
+      
+      case 'array': {
+        const itemOptions = { coerce: options.coerce };
+        let code: string;
+        if (Array.isArray(schema.prefixItems)) {
+          const items = schema.prefixItems.map((item: OpenAPISchema) => this.render(item, context, indent, itemOptions));
+          code = `z.tuple([${items.join(', ')}])`;
+          if (schema.items && typeof schema.items === 'object') {
+            code += `.rest(${this.render(schema.items, context, indent, itemOptions)})`;
+          }
+          return code;
+        }
+        
+        code = `z.array(${this.render(schema.items, context, indent, itemOptions)})`;
+        if (typeof schema.minItems === 'number') {
+          code += `.min(${schema.minItems})`;
+        }
+        if (typeof schema.maxItems === 'number') {
+          code += `.max(${schema.maxItems})`;
+        }
+        return code;
+      }
+      
+      case 'object': {
+        const properties = Object.entries<OpenAPISchema>(schema.properties || {});
+        const additional = schema.additionalProperties;
+        
+        if (properties.length === 0 && additional !== false) {
+          const value = additional && additional !== true ? this.render(additional, context, indent) : 'z.unknown()';
+          return `z.record(${value})`;
+        }
+        
+        const required = new Set<string>(schema.required || []);
+        const inner = indent + INDENT;
+        const shape = properties.map(([key, property]): [string, string] => [
+          key,
+          this.render(property, context, inner, { optional: !required.has(key) })
+        ]);
+        
+        let code = renderShape(shape, indent);
+        if (additional === false) {
+          code += '.strict()';
+        } else if (additional === true) {
+          code += '.passthrough()';
+        } else if (additional) {
+          code += `.catchall(${this.render(additional, context, indent)})`;
+        }
+        return code;
+      }
+      
+      default:
+        return 'z.unknown()';
+    }
+  }
+  
+  /**
+   * Render `allOf` as an intersection and `oneOf`/`anyOf` as a union
+   */
+  private renderComposition(schema: OpenAPISchema, context: RenderContext, indent: string): string {
+    if (Array.isArray(schema.allOf)) {
+      const parts: OpenAPISchema[] = [...schema.allOf];
+      // Keywords next to allOf describe one more schema the value has to match
+      if (schema.properties || schema.type) {
+        const rest = { ...schema };
+        ['allOf', 'description', 'default', 'nullable'].forEach(keyword => delete rest[keyword]);
+        parts.push(rest);
+      }
+      
+      const rendered = parts.map(part => this.render(part, context, indent));
+      return rendered.slice(1).reduce((left, right) => `z.intersection(${left}, ${right})`, rendered[0]);
+    }
+    
+    const options: OpenAPISchema[] = schema.oneOf || schema.anyOf;
+    const rendered = options.map(option => this.render(option, context, indent));
+    if (rendered.length === 1) {
+      return rendered[0];
+    }
+    
+    // A discriminated union needs object options, which lazy references are not
+    const discriminator = schema.discriminator?.propertyName;
+    const objects = options.every(option => {
+      const reference = this.getComponentReference(option);
+      const target = reference ? this.document.components.schemas[reference] : option;
+      return inferType(target) === 'object' && !(reference && context.component && this.reaches(reference, context.component));
+    });
+    
+    return discriminator && objects
+      ? `z.discriminatedUnion(${renderValue(discriminator, indent)}, [${rendered.join(', ')}])`
+      : `z.union([${rendered.join(', ')}])`;
+  }
+  
+  /**
+   * Render a `$ref`: component schemas by the identifier of their shared module, other
+   * local references by rendering their target
+   */
+  private renderReference(ref: string, context: RenderContext, indent: string, options: RenderOptions): string {
+    const component = this.getComponentReference({ $ref: ref });
+    if (component) {
+      const name = `${this.componentNames.get(component)}Schema`;
+      // Inside a cycle the referenced module may not be initialized yet
+      if (context.component && this.reaches(component, context.component)) {
+        if (component !== context.component) {
+          context.imports.add(component);
+        }
+        return `z.lazy(() => ${name})`;
+      }
+      
+      context.imports.add(component);
+      return name;
+    }
+    
+    const target = this.resolve({ $ref: ref });
+    if (target === undefined) {
+      this.warnings.push(`${context.file}: reference ${ref} could not be resolved and was imported as unknown`);
+      return 'z.unknown()';
+    }
+    
+    return this.render(target, context, indent, { coerce: options.coerce });
+  }
+  
+  /**
+   * Render the TypeScript type a schema parses to, for recursive schemas whose type
+   * can't be inferred; other components are referenced through `z.infer`
+   * @param indent Indentation of the line the type starts on
+   */
+  private renderTypeScript(schema: OpenAPISchema | boolean | undefined, context: RenderContext, indent: string): string {
+    if (schema === undefined || schema === true) {
+      return 'unknown';
+    }
+    if (schema === false) {
+      return 'never';
+    }
+    
+    let nullable = schema.nullable === true;
+    let base: string;
+    
+    if (typeof schema.$ref === 'string') {
+      base = this.renderTypeReference(schema.$ref, context, indent);
+    } else if (schema.const !== undefined) {
+      base = renderValue(schema.const, indent);
+    } else if (Array.isArray(schema.enum)) {
+      const values = schema.enum.filter((value: any) => value !== null);
+      nullable = nullable || values.length < schema.enum.length;
+      base = values.length > 0 ? values.map((value: any) => renderValue(value, indent)).join(' | ') : 'never';
+    } else if (Array.isArray(schema.allOf)) {
+      const parts: OpenAPISchema[] = [...schema.allOf];
+      if (schema.properties || schema.type) {
+        const rest = { ...schema };
+        ['allOf', 'description', 'default', 'nullable'].forEach(keyword => delete rest[keyword]);
+        parts.push(rest);
+      }
+      base = parts.map(part => group(this.renderTypeScript(part, context, indent))).join(' & ');
+    } else if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+      const options: OpenAPISchema[] = schema.oneOf || schema.anyOf;
+      base = options.map(option => this.renderTypeScript(option, context, indent)).join(' | ');
+    } else {
+      let types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [inferType(schema)];
+      if (types.includes('null') && types.length > 1) {
+        nullable = true;
+        types = types.filter(type => type !== 'null');
+      }
+      base = types.map(type => this.renderTypeScriptType(type, schema, context, indent)).join(' | ');
+    }
+    
+    return nullable ? `${base} | null` : base;
+  }
+  
+  /**
+   * Render the TypeScript type of a schema of a single type
+   */
+  private renderTypeScriptType(type: string, schema: OpenAPISchema, context: RenderContext, indent: string): string {
+    switch (type) {
+      case 'string':
+      case 'boolean':
+      case 'null':
+        return type;
+      
+      case 'integer':
+      case 'number':
+        return 'number';
+      
+      case 'array': {
+        if (Array.isArray(schema.prefixItems)) {
+          const items = schema.prefixItems.map((item: OpenAPISchema) => this.renderTypeScript(item, context, indent));
+          if (schema.items && typeof schema.items === 'object') {
+            items.push(`...Array<${this.renderTypeScript(schema.items, context, indent)}>`);
+          }
+          return `[${items.join(', ')}]`;
+        }
+        return `Array<${this.renderTypeScript(schema.items, context, indent)}>`;
+      }
+      
+      case 'object': {
+        const properties = Object.entries<OpenAPISchema>(schema.properties || {});
+        const additional = schema.additionalProperties;
+        
+        if (properties.length === 0 && additional !== false) {
+          const value = additional && additional !== true ? this.renderTypeScript(additional, context, indent) : 'unknown';
+          return `Record<string, ${value}>`;
+        }
+        if (properties.length === 0) {
+          return '{}';
+        }
+        
+        // Properties with a default are always present once parsed
+        const required = new Set<string>(schema.required || []);
+        const inner = indent + INDENT;
+        const members = properties.map(([key, property]) => {
+          const optional = !required.has(key) && property?.default === undefined;
+          const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : renderValue(key, inner);
+          return `${inner}${name}${optional ? '?' : ''}: ${this.renderTypeScript(property, context, inner)};`;
+        });
+        if (additional === true) {
+          members.push(`${inner}[key: string]: unknown;`);
+        }
+        return `{\n${members.join('\n')}\n${indent}}`;
+      }
+      
+      default:
+        return 'unknown';
+    }
+  }
+  
+  /**
+   * Render the TypeScript type of a `$ref`: components in the same cycle by name, other
+   * components through `z.infer`, other local references by rendering their target
+   */
+  private renderTypeReference(ref: string, context: RenderContext, indent: string): string {
+    const component = this.getComponentReference({ $ref: ref });
+    if (component) {
+      const identifier = this.componentNames.get(component)!;
+      if (context.component && this.reaches(component, context.component)) {
+        context.typeImports?.add(component);
+        return identifier;
+      }
+      
+      context.imports.add(component);
+      return `z.infer<typeof ${identifier}Schema>`;
+    }
+    
+    return this.renderTypeScript(this.resolve({ $ref: ref }), context, indent);
+  }
+  
+  /**
+   * Render the import declarations of a file
+   */
+  private renderImports(context: RenderContext): string {
+    const lines = [`import { z } from 'zod';`];
+    
+    const components = Array.from(new Set([...Array.from(context.imports), ...Array.from(context.typeImports || [])]))
+      .filter(name => name !== context.component)
+      .sort((a, b) => this.componentNames.get(a)!.localeCompare(this.componentNames.get(b)!));
+    
+    for (const component of components) {
+      const identifier = this.componentNames.get(component)!;
+      let specifier = path.posix.relative(path.posix.dirname(context.file), path.posix.join(this.getSchemasDir(), identifier));
+      if (!specifier.startsWith('.')) {
+        specifier = `./${specifier}`;
+      }
+      const names = context.typeImports?.has(component) ? [identifier, `${identifier}Schema`] : [`${identifier}Schema`];
+      lines.push(`import { ${names.join(', ')} } from '${specifier}';`);
+    }
+    
+    return lines.join('\n');
+  }
+  
+  /**
+   * The component a schema references directly with a `$ref`, if any
+   */
+  private getComponentReference(schema: OpenAPISchema | undefined): string | undefined {
+    const match = typeof schema?.$ref === 'string' ? schema.$ref.match(/^#\/components\/schemas\/(.+)$/) : null;
+    if (!match) {
+      return undefined;
+    }
+    
+    const name = decodePointerSegment(match[1]);
+    return this.componentNames.has(name) ? name : undefined;
+  }
+  
+  /**
+   * Follow local `$ref`s (e.g. to `#/components/parameters/...`) to the object they point to
+   */
+  private resolve(value: any, seen: Set<string> = new Set()): any {
+    if (!value || typeof value.$ref !== 'string') {
+      return value;
+    }
+    
+    const ref: string = value.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) {
+      return undefined;
+    }
+    seen.add(ref);
+    
+    const target = ref.slice(2).split('/').map(decodePointerSegment)
+      .reduce((current: any, key) => current?.[key], this.document);
+    return this.resolve(target, seen);
+  }
+  
+  /**
+   * Whether a component references another, directly or through other components
+   */
+  private reaches(from: string, to: string): boolean {
+    const visited = new Set<string>();
+    const pending = Array.from(this.componentReferences.get(from) || []);
+    
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      if (current === to) {
+        return true;
+      }
+      if (!visited.has(current)) {
+        visited.add(current);
+        pending.push(...Array.from(this.componentReferences.get(current) || []));
+      }
+    }
+    return false;
+  }
+  
+  /**
+   * Whether a component, or a component it references, declares defaults, so the
+   * values its schema accepts differ from the values it parses to
+   */
+  private hasDefaults(name: string): boolean {
+    const components = Array.from(this.componentNames.keys()).filter(other => other === name || this.reaches(name, other));
+    return components.some(component => hasKeyword(this.document.components.schemas[component], 'default'));
+  }
+  
+  /**
+   * Directory of the shared schema modules, relative to the output directory
+   */
+  private getSchemasDir(): string {
+    return (this.options.schemasDir || 'schemas').replace(/\\/g, '/').replace(/^\.\/|\/$/g, '');
+  }
+}
+
+/**
+ * Parse an OpenAPI document from JSON or YAML
+ */
+export function parseOpenAPIDocument(content: string): OpenAPIDocument {
+  const document = content.trimStart().startsWith('{') ? JSON.parse(content) : parseYaml(content);
+  
+  if (!document || typeof document !== 'object') {
+    throw new Error('The document is not a JSON or YAML object');
+  }
+  
+  return document;
+}
+
+/**
+ * Apply the wrappers of a schema: `.optional()` or `.default()`, then `.describe()`
+ */
+function modifiers(code: string, schema: OpenAPISchema, options: RenderOptions): string {
+  if (schema.default !== undefined) {
+    code += `.default(${renderValue(schema.default, '')})`;
+  } else if (options.optional) {
+    code += '.optional()';
+  }
+  if (typeof schema.description === 'string' && schema.description) {
+    code += `.describe(${renderValue(schema.description, '')})`;
+  }
+  
+  return code;
+}
+
+/**
+ * Render an object shape as a multi-line `z.object({ ... })`
+ * @param indent Indentation of the line the expression starts on
+ */
+function renderShape(shape: Array<[string, string]>, indent: string): string {
+  if (shape.length === 0) {
+    return 'z.object({})';
+  }
+  
+  const inner = indent + INDENT;
+  const members = shape.map(([key, value]) => `${inner}${/^[A-Za-z_$][\w$]*$/.test(key) ? key : renderValue(key, inner)}: ${value}`);
+  return `z.object({\n${members.join(',\n')}\n${indent}})`;
+}
+
+/**
+ * Render the values of an `enum` keyword
+ */
+function renderEnum(values: any[], indent: string): string {
+  if (values.length === 0) {
+    return 'z.never()';
+  }
+  if (values.length === 1) {
+    return `z.literal(${renderValue(values[0], indent)})`;
+  }
+  if (values.every(value => typeof value === 'string')) {
+    return `z.enum([${values.map(value => renderValue(value, indent)).join(', ')}])`;
+  }
+  
+  return `z.union([${values.map(value => `z.literal(${renderValue(value, indent)})`).join(', ')}])`;
+}
+
+/**
+ * Render a JSON value as a TypeScript expression, with single-quoted strings
+ * @param indent Indentation of the line the value starts on
+ */
+function renderValue(value: any, indent: string): string {
+  if (typeof value === 'string') {
+    return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => renderValue(item, indent)).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    
+    const inner = indent + INDENT;
+    const members = entries.map(([key, item]) => `${inner}${/^[A-Za-z_$][\w$]*$/.test(key) ? key : renderValue(key, inner)}: ${renderValue(item, inner)}`);
+    return `{\n${members.join(',\n')}\n${indent}}`;
+  }
+  
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Render a JSON Schema pattern as a regular expression literal
+ */
+function renderPattern(pattern: string): string {
+  return `/${pattern.replace(/\\.|\//g, match => match === '/' ? '\\/' : match)}/`;
+}
+
+/**
+ * The type of a schema without a `type` keyword, from the keywords it uses
+ */
+function inferType(schema: OpenAPISchema | undefined): string {
+  if (!schema) {
+    return 'unknown';
+  }
+  if (schema.type) {
+    return Array.isArray(schema.type) ? schema.type.find((type: string) => type !== 'null') || 'null' : schema.type;
+  }
+  if (schema.properties || schema.additionalProperties !== undefined || schema.required) {
+    return 'object';
+  }
+  if (schema.items || schema.prefixItems) {
+    return 'array';
+  }
+  if (schema.pattern || schema.format || schema.minLength !== undefined || schema.maxLength !== undefined) {
+    return 'string';
+  }
+  if (schema.minimum !== undefined || schema.maximum !== undefined || schema.multipleOf !== undefined) {
+    return 'number';
+  }
+  
+  return 'unknown';
+}
+
+/**
+ * Whether a schema is a plain object schema, whose type can be declared as an interface
+ */
+function isObjectSchema(schema: OpenAPISchema): boolean {
+  return typeof schema.$ref !== 'string' && schema.const === undefined && !schema.enum
+    && !schema.allOf && !schema.oneOf && !schema.anyOf && schema.nullable !== true
+    && (schema.type === 'object' || (!schema.type && inferType(schema) === 'object'));
+}
+
+/**
+ * Wrap a union or intersection type in parentheses, so it can be combined with others
+ */
+function group(type: string): string {
+  let depth = 0;
+  for (let index = 0; index < type.length; index++) {
+    const char = type[index];
+    if (char === "'") {
+      // Skip string literals, which may contain any of the characters below
+      for (index++; index < type.length && type[index] !== "'"; index++) {
+        if (type[index] === '\\') {
+          index++;
+        }
+      }
+    } else if ('{[(<'.includes(char)) {
+      depth++;
+    } else if ('}])>'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && (char === '|' || char === '&')) {
+      return `(${type})`;
+    }
+  }
+  return type;
+}
+
+/**
+ * Whether a keyword is used anywhere inside a schema
+ */
+function hasKeyword(schema: any, keyword: string): boolean {
+  if (Array.isArray(schema)) {
+    return schema.some(item => hasKeyword(item, keyword));
+  }
+  if (schema && typeof schema === 'object') {
+    return keyword in schema || Object.values(schema).some(value => hasKeyword(value, keyword));
+  }
+  return false;
+}
+
+/**
+ * The component schemas a schema references, anywhere inside it
+ */
+function collectReferences(schema: any, references: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(schema)) {
+    schema.forEach(item => collectReferences(item, references));
+  } else if (schema && typeof schema === 'object') {
+    const match = typeof schema.$ref === 'string' ? schema.$ref.match(/^#\/components\/schemas\/(.+)$/) : null;
+    if (match) {
+      references.add(decodePointerSegment(match[1]));
+    }
+    Object.values(schema).forEach(value => collectReferences(value, references));
+  }
+  
+  return references;
+}
+
+/**
+ * Decode a JSON Pointer segment (`~1` is `/`, `~0` is `~`)
+ */
+function decodePointerSegment(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Convert a component name to a PascalCase identifier (`user-profile` → `UserProfile`)
+ */
+function toIdentifier(name: string): string {
+  const identifier = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  
+  return /^[A-Za-z]/.test(identifier) ? identifier : `Model${identifier}`;
+}
+
+/**
+ * Convert a path parameter name to one Express accepts (`user-id` → `userId`)
+ */
+function toParamName(name: string): string {
+  if (/^[A-Za-z_]\w*$/.test(name)) {
+    return name;
+  }
+  
+  const parts = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const camel = parts.map((part, index) => index === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1)).join('');
+  return /^[A-Za-z_]/.test(camel) ? camel : `param${camel}`;
+}
+
+/**
+ * Convert a name to kebab case (`getUserById` → `get-user-by-id`)
+ */
+function toKebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .join('-')
+    .toLowerCase();
+}
@@ -0,0 +1,260 @@
+/**
+ * A route registered with the matcher
+ */
+export interface RouteDefinition<T> {
+  /**
+   * HTTP method (case-insensitive)
+   */
+  method: string;
+  
+  /**
+   * Path template, e.g. `/users/:userId`
+   */
+  path: string;
+  
+  /**
+   * Data associated with the route (e.g. the contract)
+   */
+  data: T;
+}
+
+/**
+ * A route matching a concrete request
+ */
+export interface RouteMatch<T> {
+  /**
+   * The matched route
+   */
+  route: RouteDefinition<T>;
+  
+  /**
+   * Path parameters extracted from the URL (decoded)
+   */
+  params: Record<string, string>;
+  
+  /**
+   * Query string parsed the way Express delivers it (repeated keys become arrays)
+   */
+  query: Record<string, string | string[]>;
+}
+
+/**
+ * Result of matching a method + URL
+ */
+export interface RouteMatchResult<T> {
+  /**
+   * The most specific match, if it is unique
+   */
+  match?: RouteMatch<T>;
+  
+  /**
+   * Equally specific matches when the request is ambiguous
+   */
+  ambiguous: RouteMatch<T>[];
+  
+  /**
+   * Methods of routes whose path matches, when no route matches the method
+   */
+  allowedMethods: string[];
+}
+
+/**
+ * A parsed path template segment
+ */
+interface RouteSegment {
+  type: 'static' | 'param';
+  value: string;
+  optional: boolean;
+}
+
+/**
+ * A registered route with its parsed template
+ */
+interface CompiledRoute<T> {
+  definition: RouteDefinition<T>;
+  method: string;
+  segments: RouteSegment[];
+}
+
+/**
+ * Matches concrete request URLs against Express-style path templates
+ *
+ * Static segments take precedence over parameters, compared segment by segment from the
+ * left, so `/users/me` wins over `/users/:userId`. Routes that are equally specific are
+ * reported as ambiguous instead of picking one arbitrarily.
+ */
+export class RouteMatcher<T> {
+  private routes: CompiledRoute<T>[] = [];
+  
+  /**
+   * Register a route
+   */
+  add(route: RouteDefinition<T>): void {
+    this.routes.push({
+      definition: route,
+      method: route.method.toLowerCase(),
+      segments: parseTemplate(route.path)
+    });
+  }
+  
+  /**
+   * Number of registered routes
+   */
+  get size(): number {
+    return this.routes.length;
+  }
+  
+  /**
+   * Match a method and a concrete URL (path with optional query string, or absolute URL)
+   */
+  match(method: string, url: string): RouteMatchResult<T> {
+    const parsed = new URL(url, 'http://localhost');
+    const pathSegments = splitPath(parsed.pathname);
+    const query = parseQuery(parsed.searchParams);
+    const requestMethod = method.toLowerCase();
+    
+    const candidates: Array<{ match: RouteMatch<T>; score: number[] }> = [];
+    const allowedMethods = new Set<string>();
+    
+    for (const route of this.routes) {
+      const result = matchSegments(route.segments, pathSegments);
+      if (!result) {
+        continue;
+      }
+      
+      if (route.method !== requestMethod) {
+        allowedMethods.add(route.method);
+        continue;
+      }
+      
+      candidates.push({
+        match: { route: route.definition, params: result.params, query },
+        score: result.score
+      });
+    }
+    
+    if (candidates.length === 0) {
+      return { ambiguous: [], allowedMethods: Array.from(allowedMethods).sort() };
+    }
+    
+    candidates.sort((a, b) => compareScores(b.score, a.score));
+    const best = candidates.filter(candidate => compareScores(candidate.score, candidates[0].score) === 0);
+    
+    if (best.length > 1) {
+      return { ambiguous: best.map(candidate => candidate.match), allowedMethods: [] };
+    }
+    
+    return { match: best[0].match, ambiguous: [], allowedMethods: [] };
+  }
+}
+
+/**
+ * Parse a path template into segments
+ */
+function parseTemplate(template: string): RouteSegment[] {
+  return splitPath(template).map(segment => {
+    const param = segment.match(/^:([A-Za-z0-9_]+)(\?)?$/);
+    if (param) {
+      return { type: 'param' as const, value: param[1], optional: !!param[2] };
+    }
+    
+    return { type: 'static' as const, value: segment, optional: false };
+  });
+}
+
+/**
+ * Split a path into non-empty segments, ignoring leading and trailing slashes
+ */
+function splitPath(pathname: string): string[] {
+  return pathname.split('/').filter(segment => segment.length > 0);
+}
+
+/**
+ * Match template segments against path segments
+ *
+ * The score has one entry per template segment: 2 for a static match,
+ * 1 for a parameter and -2 for an omitted optional parameter, which ranks
+ * below a template that ends there.
+ */
+function matchSegments(
+  segments: RouteSegment[],
+  pathSegments: string[]
+): { params: Record<string, string>; score: number[] } | undefined {
+  if (pathSegments.length > segments.length) {
+    return undefined;
+  }
+  
+  const params: Record<string, string> = {};
+  const score: number[] = [];
+  
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const value = pathSegments[i];
+    
+    if (value === undefined) {
+      if (!segment.optional) {
+        return undefined;
+      }
+      score.push(-2);
+      continue;
+    }
+    
+    if (segment.type === 'static') {
+      if (segment.value !== value) {
+        return undefined;
+      }
+      score.push(2);
+    } else {
+      params[segment.value] = decodeSegment(value);
+      score.push(1);
+    }
+  }
+  
+  return { params, score };
+}
+
+/**
+ * Compare two scores lexicographically
+ */
+function compareScores(a: number[], b: number[]): number {
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const difference = (a[i] ?? -1) - (b[i] ?? -1);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  
+  return 0;
+}
+
+/**
+ * Decode a URL path segment, keeping it as is if it is malformed
+ */
+function decodeSegment(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse a query string, turning repeated keys into arrays
+ */
+function parseQuery(searchParams: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  
+  searchParams.forEach((value, key) => {
+    const existing = query[key];
+    if (existing === undefined) {
+      query[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      query[key] = [existing, value];
+    }
+  });
+  
+  return query;
+}
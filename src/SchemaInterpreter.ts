@@ -0,0 +1,1138 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Source location of a schema node inside its contract file (1-based)
+ */
+export interface SchemaLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * A single constraint attached to a string, number or array schema,
+ * e.g. `.uuid()`, `.min(3)` or `.int()`
+ */
+export interface SchemaCheck {
+  kind: string;
+  value?: any;
+}
+
+/**
+ * Properties shared by every schema node
+ */
+export interface SchemaNodeBase {
+  /**
+   * Text passed to `.describe()`
+   */
+  description?: string;
+
+  /**
+   * Name of the declaration the schema was resolved from (e.g. `UserSchema`)
+   */
+  name?: string;
+
+  /**
+   * Source text of `.refine()`/`.superRefine()` callbacks, which are not evaluated
+   */
+  refinements?: string[];
+
+  /**
+   * Where the schema expression starts in the contract file
+   */
+  location?: SchemaLocation;
+}
+
+export interface StringSchemaNode extends SchemaNodeBase {
+  kind: 'string';
+  checks: SchemaCheck[];
+  coerce?: boolean;
+}
+
+export interface NumberSchemaNode extends SchemaNodeBase {
+  kind: 'number';
+  checks: SchemaCheck[];
+  coerce?: boolean;
+}
+
+export interface BigIntSchemaNode extends SchemaNodeBase {
+  kind: 'bigint';
+  coerce?: boolean;
+}
+
+export interface BooleanSchemaNode extends SchemaNodeBase {
+  kind: 'boolean';
+  coerce?: boolean;
+}
+
+export interface DateSchemaNode extends SchemaNodeBase {
+  kind: 'date';
+  coerce?: boolean;
+}
+
+export interface PrimitiveSchemaNode extends SchemaNodeBase {
+  kind: 'null' | 'undefined' | 'void' | 'any' | 'unknown' | 'never';
+}
+
+export interface LiteralSchemaNode extends SchemaNodeBase {
+  kind: 'literal';
+  value: string | number | boolean | null;
+}
+
+export interface EnumSchemaNode extends SchemaNodeBase {
+  kind: 'enum';
+  values: Array<string | number>;
+}
+
+export interface ObjectSchemaNode extends SchemaNodeBase {
+  kind: 'object';
+  shape: Record<string, SchemaNode>;
+  unknownKeys: 'strip' | 'strict' | 'passthrough';
+  catchall?: SchemaNode;
+}
+
+export interface ArraySchemaNode extends SchemaNodeBase {
+  kind: 'array';
+  element: SchemaNode;
+  checks: SchemaCheck[];
+}
+
+export interface TupleSchemaNode extends SchemaNodeBase {
+  kind: 'tuple';
+  items: SchemaNode[];
+  rest?: SchemaNode;
+}
+
+export interface RecordSchemaNode extends SchemaNodeBase {
+  kind: 'record';
+  key: SchemaNode;
+  value: SchemaNode;
+}
+
+export interface UnionSchemaNode extends SchemaNodeBase {
+  kind: 'union';
+  options: SchemaNode[];
+
+  /**
+   * Discriminator key for `z.discriminatedUnion()`
+   */
+  discriminator?: string;
+}
+
+export interface IntersectionSchemaNode extends SchemaNodeBase {
+  kind: 'intersection';
+  left: SchemaNode;
+  right: SchemaNode;
+}
+
+export interface OptionalSchemaNode extends SchemaNodeBase {
+  kind: 'optional';
+  inner: SchemaNode;
+}
+
+export interface NullableSchemaNode extends SchemaNodeBase {
+  kind: 'nullable';
+  inner: SchemaNode;
+}
+
+export interface DefaultSchemaNode extends SchemaNodeBase {
+  kind: 'default';
+  inner: SchemaNode;
+
+  /**
+   * The default value, when it could be evaluated statically
+   */
+  value?: any;
+
+  /**
+   * Source text of a default that could not be evaluated statically
+   */
+  source?: string;
+}
+
+export interface CatchSchemaNode extends SchemaNodeBase {
+  kind: 'catch';
+  inner: SchemaNode;
+  value?: any;
+  source?: string;
+}
+
+export interface TransformSchemaNode extends SchemaNodeBase {
+  kind: 'transform';
+  inner: SchemaNode;
+
+  /**
+   * Source text of the transform callback
+   */
+  source: string;
+}
+
+export interface PipeSchemaNode extends SchemaNodeBase {
+  kind: 'pipe';
+  input: SchemaNode;
+  output: SchemaNode;
+}
+
+export interface UnresolvedSchemaNode extends SchemaNodeBase {
+  kind: 'unresolved';
+
+  /**
+   * Why the expression could not be interpreted
+   */
+  reason: string;
+
+  /**
+   * Source text of the expression
+   */
+  source: string;
+}
+
+/**
+ * Intermediate schema model produced by statically reading a Zod expression
+ */
+export type SchemaNode =
+  | StringSchemaNode
+  | NumberSchemaNode
+  | BigIntSchemaNode
+  | BooleanSchemaNode
+  | DateSchemaNode
+  | PrimitiveSchemaNode
+  | LiteralSchemaNode
+  | EnumSchemaNode
+  | ObjectSchemaNode
+  | ArraySchemaNode
+  | TupleSchemaNode
+  | RecordSchemaNode
+  | UnionSchemaNode
+  | IntersectionSchemaNode
+  | OptionalSchemaNode
+  | NullableSchemaNode
+  | DefaultSchemaNode
+  | CatchSchemaNode
+  | TransformSchemaNode
+  | PipeSchemaNode
+  | UnresolvedSchemaNode;
+
+/**
+ * Marker returned by {@link evaluateLiteral} for expressions that are not static values
+ */
+export const NOT_STATIC = Symbol('not-static');
+
+/**
+ * Methods that add a constraint to the schema they are called on
+ */
+const CHECK_METHODS = new Set([
+  'uuid', 'email', 'url', 'datetime', 'date', 'time', 'cuid', 'cuid2', 'ulid', 'ip', 'emoji',
+  'min', 'max', 'length', 'regex', 'startsWith', 'endsWith', 'includes', 'nonempty',
+  'int', 'positive', 'negative', 'nonnegative', 'nonpositive', 'gt', 'gte', 'lt', 'lte',
+  'multipleOf', 'step', 'finite', 'safe'
+]);
+
+/**
+ * Aliases that Zod accepts for the same constraint
+ */
+const CHECK_ALIASES: Record<string, string> = {
+  gte: 'min',
+  lte: 'max',
+  step: 'multipleOf'
+};
+
+/**
+ * Methods that return the schema unchanged as far as accepted values go
+ */
+const PASSTHROUGH_METHODS = new Set(['brand', 'readonly', 'openapi']);
+
+/**
+ * Object methods that change the shape of the object
+ */
+const SHAPE_METHODS = new Set(['extend', 'merge', 'pick', 'omit', 'partial', 'required', 'deepPartial', 'keyof']);
+
+/**
+ * Schemas returned by {@link SchemaInterpreter.interpret}, so they can be told apart
+ * from plain contract values
+ */
+const interpretedSchemas = new WeakSet<object>();
+
+/**
+ * Whether a value is a schema produced by the SchemaInterpreter
+ */
+export function isSchemaNode(value: unknown): value is SchemaNode {
+  return typeof value === 'object' && value !== null && interpretedSchemas.has(value);
+}
+
+/**
+ * Options for the schema interpreter
+ */
+export interface SchemaInterpreterOptions {
+  /**
+   * Load a module by file name, returning undefined when it does not exist. Without it,
+   * identifiers imported from other modules are left unresolved
+   */
+  loadModule?: (fileName: string) => ts.SourceFile | undefined;
+}
+
+/**
+ * Reads Zod schema expressions from a contract source file without executing it.
+ *
+ * Identifiers are resolved against top-level `const` and `enum` declarations in the same file,
+ * and against named imports from relative modules when a module loader is given.
+ * Anything that cannot be understood statically becomes an `unresolved` node carrying
+ * the original source text, so callers can report it instead of guessing.
+ */
+export class SchemaInterpreter {
+  /**
+   * Local names of the Zod namespace import (usually `z`)
+   */
+  private zodNames: Set<string>;
+
+  /**
+   * Top-level variable initializers keyed by name
+   */
+  private declarations = new Map<string, ts.Expression>();
+
+  /**
+   * Top-level enum declarations keyed by name
+   */
+  private enums = new Map<string, ts.EnumDeclaration>();
+
+  /**
+   * Named imports and re-exports from relative modules, keyed by local name
+   */
+  private imports = new Map<string, { specifier: string; name: string }>();
+
+  /**
+   * Relative modules re-exported with `export * from`
+   */
+  private starExports: string[] = [];
+
+  /**
+   * Interpreters of loaded modules keyed by file name, shared by every interpreter
+   * reached from the same contract file
+   */
+  private modules = new Map<string, SchemaInterpreter | null>();
+
+  /**
+   * Identifiers currently being resolved (qualified by file name), used to stop self-referencing schemas
+   */
+  private resolving = new Set<string>();
+
+  constructor(private sourceFile: ts.SourceFile, private options: SchemaInterpreterOptions = {}) {
+    this.zodNames = new Set();
+
+    ts.forEachChild(sourceFile, (node) => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier) && node.moduleSpecifier.text.startsWith('.')) {
+        const specifier = node.moduleSpecifier.text;
+        const bindings = node.importClause?.namedBindings;
+        if (bindings && ts.isNamedImports(bindings) && !node.importClause?.isTypeOnly) {
+          bindings.elements.forEach(element => {
+            this.imports.set(element.name.text, { specifier, name: (element.propertyName || element.name).text });
+          });
+        }
+      } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier) && node.moduleSpecifier.text.startsWith('.')) {
+        const specifier = node.moduleSpecifier.text;
+        if (!node.exportClause) {
+          this.starExports.push(specifier);
+        } else if (ts.isNamedExports(node.exportClause)) {
+          node.exportClause.elements.forEach(element => {
+            this.imports.set(element.name.text, { specifier, name: (element.propertyName || element.name).text });
+          });
+        }
+      } else if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier) && node.moduleSpecifier.text === 'zod') {
+        const bindings = node.importClause?.namedBindings;
+        if (bindings && ts.isNamedImports(bindings)) {
+          bindings.elements.forEach(element => {
+            const importedName = (element.propertyName || element.name).text;
+            if (importedName === 'z') {
+              this.zodNames.add(element.name.text);
+            }
+          });
+        } else if (bindings && ts.isNamespaceImport(bindings)) {
+          this.zodNames.add(bindings.name.text);
+        }
+      } else if (ts.isVariableStatement(node)) {
+        node.declarationList.declarations.forEach(declaration => {
+          if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+            this.declarations.set(declaration.name.text, declaration.initializer);
+          }
+        });
+      } else if (ts.isEnumDeclaration(node)) {
+        this.enums.set(node.name.text, node);
+      }
+    });
+
+    if (this.zodNames.size === 0) {
+      this.zodNames.add('z');
+    }
+  }
+
+  /**
+   * Interpret a schema expression
+   */
+  interpret(expression: ts.Expression): SchemaNode {
+    const schema = this.read(expression);
+    interpretedSchemas.add(schema);
+    return schema;
+  }
+
+  /**
+   * Whether an expression is built from the Zod namespace (directly or through a local declaration)
+   */
+  isSchemaExpression(expression: ts.Expression): boolean {
+    let node = unwrapExpression(expression);
+    const seen = new Set<string>();
+
+    while (true) {
+      if (ts.isIdentifier(node)) {
+        if (this.zodNames.has(node.text)) {
+          return true;
+        }
+        const initializer = this.declarations.get(node.text);
+        if (!initializer && !seen.has(node.text) && this.imports.has(node.text)) {
+          const imported = this.imports.get(node.text)!;
+          return !!this.loadModule(imported.specifier)?.isExportedSchema(imported.name);
+        }
+        if (!initializer || seen.has(node.text)) {
+          return false;
+        }
+        seen.add(node.text);
+        node = unwrapExpression(initializer);
+      } else if (ts.isCallExpression(node)) {
+        node = unwrapExpression(node.expression);
+      } else if (ts.isPropertyAccessExpression(node)) {
+        node = unwrapExpression(node.expression);
+      } else {
+        return false;
+      }
+    }
+  }
+
+  /**
+   * Whether a name exported from this module is a Zod schema
+   */
+  private isExportedSchema(name: string): boolean {
+    const key = `${this.sourceFile.fileName}#${name}`;
+    if (this.resolving.has(key)) {
+      return false;
+    }
+
+    this.resolving.add(key);
+    try {
+      if (this.declarations.has(name)) {
+        return this.isSchemaExpression(this.declarations.get(name)!);
+      }
+      if (this.imports.has(name)) {
+        const imported = this.imports.get(name)!;
+        return !!this.loadModule(imported.specifier)?.isExportedSchema(imported.name);
+      }
+      return this.starExports.some(specifier => this.loadModule(specifier)?.isExportedSchema(name));
+    } finally {
+      this.resolving.delete(key);
+    }
+  }
+
+  /**
+   * Follow an identifier to the expression it was declared with
+   */
+  resolveValue(expression: ts.Expression): ts.Expression {
+    let node = unwrapExpression(expression);
+    const seen = new Set<string>();
+
+    while (ts.isIdentifier(node) && this.declarations.has(node.text) && !seen.has(node.text)) {
+      seen.add(node.text);
+      node = unwrapExpression(this.declarations.get(node.text)!);
+    }
+    return node;
+  }
+
+  /**
+   * Read a schema expression into a schema node
+   */
+  private read(expression: ts.Expression): SchemaNode {
+    const node = unwrapExpression(expression);
+
+    if (ts.isIdentifier(node)) {
+      return this.resolveIdentifier(node);
+    }
+
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const target = unwrapExpression(node.expression.expression);
+      const method = node.expression.name.text;
+
+      if (ts.isIdentifier(target) && this.zodNames.has(target.text)) {
+        return this.interpretFactory(method, node.arguments, node, false);
+      }
+
+      // z.coerce.number()
+      if (
+        ts.isPropertyAccessExpression(target) &&
+        target.name.text === 'coerce' &&
+        ts.isIdentifier(target.expression) &&
+        this.zodNames.has(target.expression.text)
+      ) {
+        return this.interpretFactory(method, node.arguments, node, true);
+      }
+
+      return this.applyMethod(this.read(target), method, node.arguments, node);
+    }
+
+    // Schema.shape.field and Schema.element
+    if (ts.isPropertyAccessExpression(node)) {
+      const member = node.name.text;
+      const target = unwrapExpression(node.expression);
+
+      if (ts.isPropertyAccessExpression(target) && target.name.text === 'shape') {
+        const base = this.read(target.expression);
+        if (base.kind === 'object' && base.shape[member]) {
+          return base.shape[member];
+        }
+      } else if (member === 'element') {
+        const base = this.read(target);
+        if (base.kind === 'array') {
+          return base.element;
+        }
+      }
+    }
+
+    return this.unresolved(node, 'Expression is not a Zod schema');
+  }
+
+  /**
+   * Resolve an identifier to the schema it was declared with
+   */
+  private resolveIdentifier(identifier: ts.Identifier): SchemaNode {
+    const name = identifier.text;
+    const initializer = this.declarations.get(name);
+
+    if (!initializer) {
+      const imported = this.imports.get(name);
+      if (imported) {
+        return this.resolveImport(name)
+          || this.unresolved(identifier, `Identifier ${name} is imported from ${imported.specifier}, which could not be read`);
+      }
+      return this.unresolved(identifier, `Identifier ${name} is not declared in this file`);
+    }
+
+    return this.resolveDeclaration(name, identifier);
+  }
+
+  /**
+   * Resolve a top-level declaration to its schema
+   * @param node Node unresolved results are reported at
+   */
+  private resolveDeclaration(name: string, node: ts.Node): SchemaNode {
+    const initializer = this.declarations.get(name)!;
+    const key = `${this.sourceFile.fileName}#${name}`;
+    if (this.resolving.has(key)) {
+      return this.unresolved(node, `Identifier ${name} references itself`);
+    }
+
+    this.resolving.add(key);
+    try {
+      const schema = this.read(initializer);
+      return schema.kind === 'unresolved' ? schema : { ...schema, name };
+    } finally {
+      this.resolving.delete(key);
+    }
+  }
+
+  /**
+   * Resolve a named import to the schema exported by its module
+   */
+  private resolveImport(name: string): SchemaNode | undefined {
+    const imported = this.imports.get(name)!;
+    return this.loadModule(imported.specifier)?.resolveExport(imported.name);
+  }
+
+  /**
+   * Resolve a name exported from this module, following re-exports
+   */
+  private resolveExport(name: string): SchemaNode | undefined {
+    if (this.declarations.has(name)) {
+      return this.resolveDeclaration(name, this.declarations.get(name)!);
+    }
+    if (this.imports.has(name)) {
+      return this.resolveImport(name);
+    }
+
+    for (const specifier of this.starExports) {
+      const schema = this.loadModule(specifier)?.resolveExport(name);
+      if (schema) {
+        return schema;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the interpreter for a relative module, or undefined when it cannot be loaded
+   */
+  private loadModule(specifier: string): SchemaInterpreter | undefined {
+    if (!this.options.loadModule) {
+      return undefined;
+    }
+
+    const base = path.resolve(path.dirname(this.sourceFile.fileName), specifier.replace(/\.js$/, ''));
+    for (const fileName of [base, `${base}.ts`, `${base}.tsx`, path.join(base, 'index.ts')]) {
+      if (!this.modules.has(fileName)) {
+        const sourceFile = /\.tsx?$/.test(fileName) ? this.options.loadModule(fileName) : undefined;
+        const interpreter = sourceFile ? new SchemaInterpreter(sourceFile, this.options) : null;
+        if (interpreter) {
+          // Share the module cache and the resolution stack across modules
+          interpreter.modules = this.modules;
+          interpreter.resolving = this.resolving;
+        }
+        this.modules.set(fileName, interpreter);
+      }
+
+      const interpreter = this.modules.get(fileName);
+      if (interpreter) {
+        return interpreter;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Interpret a `z.<factory>(...)` call
+   */
+  private interpretFactory(
+    factory: string,
+    args: ts.NodeArray<ts.Expression>,
+    node: ts.CallExpression,
+    coerce: boolean
+  ): SchemaNode {
+    const location = this.getLocation(node);
+    const coerceFlag = coerce ? { coerce: true } : {};
+
+    switch (factory) {
+      case 'string':
+      case 'number':
+        return { kind: factory, checks: [], ...coerceFlag, location };
+      case 'bigint':
+      case 'boolean':
+      case 'date':
+        return { kind: factory, ...coerceFlag, location };
+      case 'null':
+      case 'undefined':
+      case 'void':
+      case 'any':
+      case 'unknown':
+      case 'never':
+        return { kind: factory, location };
+      case 'literal': {
+        const value = args[0] ? evaluateLiteral(this.resolveValue(args[0])) : NOT_STATIC;
+        if (value === NOT_STATIC || (value !== null && typeof value === 'object')) {
+          break;
+        }
+        return { kind: 'literal', value, location };
+      }
+      case 'enum': {
+        const values = args[0] ? evaluateLiteral(this.resolveValue(args[0])) : NOT_STATIC;
+        if (!Array.isArray(values)) {
+          break;
+        }
+        return { kind: 'enum', values, location };
+      }
+      case 'nativeEnum': {
+        const values = args[0] ? this.readEnumValues(args[0]) : undefined;
+        if (!values) {
+          break;
+        }
+        return { kind: 'enum', values, location };
+      }
+      case 'object':
+      case 'strictObject': {
+        const shapeArg = args[0] ? this.resolveValue(args[0]) : undefined;
+        if (!shapeArg || !ts.isObjectLiteralExpression(shapeArg)) {
+          break;
+        }
+        const unknownKeys = factory === 'strictObject' ? 'strict' : 'strip';
+        return { kind: 'object', shape: this.interpretShape(shapeArg), unknownKeys, location };
+      }
+      case 'array':
+        if (!args[0]) {
+          break;
+        }
+        return { kind: 'array', element: this.read(args[0]), checks: [], location };
+      case 'tuple': {
+        const itemsArg = args[0] ? this.resolveValue(args[0]) : undefined;
+        if (!itemsArg || !ts.isArrayLiteralExpression(itemsArg)) {
+          break;
+        }
+        return {
+          kind: 'tuple',
+          items: itemsArg.elements.map(element => this.read(element)),
+          rest: args[1] ? this.read(args[1]) : undefined,
+          location
+        };
+      }
+      case 'record':
+        if (!args[0]) {
+          break;
+        }
+        return {
+          kind: 'record',
+          key: args[1] ? this.read(args[0]) : { kind: 'string', checks: [] },
+          value: this.read(args[1] || args[0]),
+          location
+        };
+      case 'union':
+      case 'discriminatedUnion': {
+        const optionsIndex = factory === 'union' ? 0 : 1;
+        const optionsArg = args[optionsIndex] ? this.resolveValue(args[optionsIndex]) : undefined;
+        if (!optionsArg || !ts.isArrayLiteralExpression(optionsArg)) {
+          break;
+        }
+        const discriminator = factory === 'discriminatedUnion' && args[0] ? evaluateLiteral(args[0]) : undefined;
+        return {
+          kind: 'union',
+          options: optionsArg.elements.map(element => this.read(element)),
+          ...(typeof discriminator === 'string' ? { discriminator } : {}),
+          location
+        };
+      }
+      case 'intersection':
+        if (!args[0] || !args[1]) {
+          break;
+        }
+        return { kind: 'intersection', left: this.read(args[0]), right: this.read(args[1]), location };
+      case 'optional':
+      case 'nullable':
+        if (!args[0]) {
+          break;
+        }
+        return { kind: factory, inner: this.read(args[0]), location };
+      case 'preprocess':
+        if (!args[0] || !args[1]) {
+          break;
+        }
+        return {
+          kind: 'pipe',
+          input: { kind: 'transform', inner: { kind: 'unknown' }, source: args[0].getText(this.sourceFile) },
+          output: this.read(args[1]),
+          location
+        };
+      case 'lazy':
+        return this.unresolved(node, 'Lazy schemas are not interpreted');
+    }
+
+    return this.unresolved(node, `Unsupported Zod factory: z.${coerce ? 'coerce.' : ''}${factory}()`);
+  }
+
+  /**
+   * Apply a chained method call to an already interpreted schema
+   */
+  private applyMethod(base: SchemaNode, method: string, args: ts.NodeArray<ts.Expression>, node: ts.CallExpression): SchemaNode {
+    const location = this.getLocation(node);
+
+    if (base.kind === 'unresolved') {
+      return base;
+    }
+
+    // Wrappers keep the description of the schema they wrap, like Zod does
+    const inherited: SchemaNodeBase = base.description !== undefined
+      ? { description: base.description, location }
+      : { location };
+
+    if (CHECK_METHODS.has(method) && (base.kind === 'string' || base.kind === 'number' || base.kind === 'array')) {
+      const check: SchemaCheck = { kind: CHECK_ALIASES[method] || method };
+      if (args[0]) {
+        const value = evaluateLiteral(this.resolveValue(args[0]));
+        if (ts.isRegularExpressionLiteral(args[0])) {
+          check.value = args[0].text;
+        } else if (value !== NOT_STATIC) {
+          check.value = value;
+        }
+      }
+      // nonempty() on arrays is min(1)
+      if (method === 'nonempty' && base.kind === 'array') {
+        check.kind = 'min';
+        check.value = 1;
+      }
+      return { ...base, checks: [...base.checks, check] };
+    }
+
+    switch (method) {
+      case 'describe': {
+        const description = args[0] ? evaluateLiteral(args[0]) : NOT_STATIC;
+        return typeof description === 'string' ? { ...base, description } : base;
+      }
+      case 'optional':
+      case 'nullable':
+        return { kind: method, inner: base, ...inherited };
+      case 'nullish':
+        return { kind: 'optional', inner: { kind: 'nullable', inner: base, ...inherited }, ...inherited };
+      case 'default':
+      case 'catch': {
+        const value = args[0] ? this.evaluateDefault(args[0]) : NOT_STATIC;
+        if (value === NOT_STATIC) {
+          return { kind: method, inner: base, source: args[0] ? args[0].getText(this.sourceFile) : '', ...inherited };
+        }
+        return { kind: method, inner: base, value, ...inherited };
+      }
+      case 'transform':
+        return { kind: 'transform', inner: base, source: args[0] ? args[0].getText(this.sourceFile) : '', ...inherited };
+      case 'pipe':
+        if (!args[0]) {
+          break;
+        }
+        return { kind: 'pipe', input: base, output: this.read(args[0]), ...inherited };
+      case 'refine':
+      case 'superRefine':
+        return { ...base, refinements: [...(base.refinements || []), args[0] ? args[0].getText(this.sourceFile) : ''] };
+      case 'array':
+        return { kind: 'array', element: base, checks: [], location };
+      case 'or':
+        if (!args[0]) {
+          break;
+        }
+        return { kind: 'union', options: [base, this.read(args[0])], location };
+      case 'and':
+        if (!args[0]) {
+          break;
+        }
+        return { kind: 'intersection', left: base, right: this.read(args[0]), location };
+      case 'rest':
+        if (base.kind !== 'tuple' || !args[0]) {
+          break;
+        }
+        return { ...base, rest: this.read(args[0]) };
+    }
+
+    if (PASSTHROUGH_METHODS.has(method)) {
+      return base;
+    }
+
+    if (base.kind === 'object') {
+      const objectResult = this.applyObjectMethod(base, method, args);
+      if (objectResult) {
+        // A reshaped object is no longer the declaration it was derived from
+        if (SHAPE_METHODS.has(method)) {
+          const { name, ...reshaped } = objectResult;
+          return reshaped as SchemaNode;
+        }
+        return objectResult;
+      }
+    }
+
+    if (base.kind === 'enum' && (method === 'extract' || method === 'exclude')) {
+      const values = args[0] ? evaluateLiteral(this.resolveValue(args[0])) : NOT_STATIC;
+      if (Array.isArray(values)) {
+        return {
+          kind: 'enum',
+          values: base.values.filter(value => values.includes(value) === (method === 'extract')),
+          location
+        };
+      }
+    }
+
+    return this.unresolved(node, `Unsupported Zod method: .${method}() on ${base.kind} schema`);
+  }
+
+  /**
+   * Apply an object-only method such as `.extend()`, `.pick()` or `.partial()`
+   */
+  private applyObjectMethod(base: ObjectSchemaNode, method: string, args: ts.NodeArray<ts.Expression>): SchemaNode | undefined {
+    const keysArg = args[0] ? evaluateLiteral(this.resolveValue(args[0])) : undefined;
+    const selectedKeys = keysArg && typeof keysArg === 'object' && !Array.isArray(keysArg)
+      ? Object.keys(keysArg).filter(key => keysArg[key] === true)
+      : undefined;
+
+    switch (method) {
+      case 'strict':
+      case 'passthrough':
+      case 'strip':
+        return { ...base, unknownKeys: method };
+      case 'catchall':
+        return args[0] ? { ...base, catchall: this.read(args[0]) } : base;
+      case 'extend': {
+        const shapeArg = args[0] ? this.resolveValue(args[0]) : undefined;
+        if (!shapeArg || !ts.isObjectLiteralExpression(shapeArg)) {
+          return undefined;
+        }
+        return { ...base, shape: { ...base.shape, ...this.interpretShape(shapeArg) } };
+      }
+      case 'merge': {
+        const other = args[0] ? this.read(args[0]) : undefined;
+        if (!other || other.kind !== 'object') {
+          return undefined;
+        }
+        return { ...base, shape: { ...base.shape, ...other.shape }, unknownKeys: other.unknownKeys };
+      }
+      case 'pick':
+      case 'omit': {
+        if (!selectedKeys) {
+          return undefined;
+        }
+        const shape: Record<string, SchemaNode> = {};
+        for (const [key, value] of Object.entries(base.shape)) {
+          if (selectedKeys.includes(key) === (method === 'pick')) {
+            shape[key] = value;
+          }
+        }
+        return { ...base, shape };
+      }
+      case 'partial':
+      case 'required': {
+        const shape: Record<string, SchemaNode> = {};
+        for (const [key, value] of Object.entries(base.shape)) {
+          if (selectedKeys && !selectedKeys.includes(key)) {
+            shape[key] = value;
+          } else if (method === 'partial') {
+            shape[key] = value.kind === 'optional' ? value : { kind: 'optional', inner: value, description: value.description };
+          } else {
+            shape[key] = value.kind === 'optional' ? value.inner : value;
+          }
+        }
+        return { ...base, shape };
+      }
+      case 'deepPartial':
+        return deepPartial(base);
+      case 'keyof':
+        return { kind: 'enum', values: Object.keys(base.shape), location: base.location };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Interpret the shape argument of `z.object()`
+   */
+  private interpretShape(node: ts.ObjectLiteralExpression): Record<string, SchemaNode> {
+    const shape: Record<string, SchemaNode> = {};
+
+    node.properties.forEach(property => {
+      if (ts.isPropertyAssignment(property)) {
+        shape[getPropertyName(property.name)] = this.read(property.initializer);
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        shape[property.name.text] = this.resolveIdentifier(property.name);
+      } else if (ts.isSpreadAssignment(property)) {
+        // { ...BaseSchema.shape }
+        const spread = unwrapExpression(property.expression);
+        if (ts.isPropertyAccessExpression(spread) && spread.name.text === 'shape') {
+          const base = this.read(spread.expression);
+          if (base.kind === 'object') {
+            Object.assign(shape, base.shape);
+          }
+        }
+      }
+    });
+
+    return shape;
+  }
+
+  /**
+   * Evaluate the argument of `.default()`/`.catch()`, including `() => value` callbacks
+   */
+  private evaluateDefault(expression: ts.Expression): any {
+    const node = unwrapExpression(expression);
+    if (ts.isArrowFunction(node) && !ts.isBlock(node.body)) {
+      return evaluateLiteral(this.resolveValue(node.body));
+    }
+    return evaluateLiteral(this.resolveValue(node));
+  }
+
+  /**
+   * Read the values of a TypeScript enum or `as const` object passed to `z.nativeEnum()`
+   */
+  private readEnumValues(expression: ts.Expression): Array<string | number> | undefined {
+    const node = unwrapExpression(expression);
+
+    if (ts.isIdentifier(node) && this.enums.has(node.text)) {
+      const values: Array<string | number> = [];
+      let next = 0;
+      for (const member of this.enums.get(node.text)!.members) {
+        const value = member.initializer ? evaluateLiteral(member.initializer) : next;
+        if (typeof value !== 'string' && typeof value !== 'number') {
+          return undefined;
+        }
+        values.push(value);
+        if (typeof value === 'number') {
+          next = value + 1;
+        }
+      }
+      return values;
+    }
+
+    const value = evaluateLiteral(this.resolveValue(node));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.values(value).filter((item): item is string | number => typeof item === 'string' || typeof item === 'number');
+    }
+    return undefined;
+  }
+
+  /**
+   * Build an unresolved node for an expression
+   */
+  private unresolved(node: ts.Node, reason: string): UnresolvedSchemaNode {
+    return {
+      kind: 'unresolved',
+      reason,
+      source: node.getText(this.sourceFile),
+      location: this.getLocation(node)
+    };
+  }
+
+  /**
+   * Get the 1-based location of a node
+   */
+  private getLocation(node: ts.Node): SchemaLocation {
+    const { line, character } = this.sourceFile.getLineAndCharacterOfPosition(node.getStart(this.sourceFile));
+    return { line: line + 1, column: character + 1 };
+  }
+}
+
+/**
+ * Make every object property optional, recursively
+ */
+function deepPartial(node: SchemaNode): SchemaNode {
+  switch (node.kind) {
+    case 'object': {
+      const shape: Record<string, SchemaNode> = {};
+      for (const [key, value] of Object.entries(node.shape)) {
+        const inner = deepPartial(value.kind === 'optional' ? value.inner : value);
+        shape[key] = { kind: 'optional', inner, description: value.description };
+      }
+      return { ...node, shape };
+    }
+    case 'array':
+      return { ...node, element: deepPartial(node.element) };
+    case 'optional':
+    case 'nullable':
+      return { ...node, inner: deepPartial(node.inner) };
+    default:
+      return node;
+  }
+}
+
+/**
+ * Describe the type a schema accepts as a short TypeScript-like label,
+ * e.g. `{ user: User }` or `Array<APIAuthKey>`.
+ *
+ * Schemas resolved from a declaration use its name without a `Schema` suffix.
+ */
+export function describeSchemaType(node: SchemaNode): string {
+  if (node.name) {
+    return node.name.replace(/(.)Schema$/, '$1');
+  }
+
+  switch (node.kind) {
+    case 'date':
+      return 'Date';
+    case 'literal':
+      return JSON.stringify(node.value);
+    case 'enum':
+      return node.values.map(value => JSON.stringify(value)).join(' | ');
+    case 'object': {
+      const properties = Object.entries(node.shape).map(([key, property]) => {
+        const type = property.kind === 'optional' ? describeSchemaType(property.inner) : describeSchemaType(property);
+        return `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}${property.kind === 'optional' ? '?' : ''}: ${type}`;
+      });
+      return properties.length > 0 ? `{ ${properties.join('; ')} }` : '{}';
+    }
+    case 'array':
+      return `Array<${describeSchemaType(node.element)}>`;
+    case 'tuple':
+      return `[${[...node.items.map(describeSchemaType), ...(node.rest ? [`...${describeSchemaType(node.rest)}[]`] : [])].join(', ')}]`;
+    case 'record':
+      return `Record<${describeSchemaType(node.key)}, ${describeSchemaType(node.value)}>`;
+    case 'union':
+      return node.options.map(describeSchemaType).join(' | ');
+    case 'intersection':
+      return `${describeSchemaType(node.left)} & ${describeSchemaType(node.right)}`;
+    case 'optional':
+      return `${describeSchemaType(node.inner)} | undefined`;
+    case 'nullable':
+      return `${describeSchemaType(node.inner)} | null`;
+    case 'default':
+    case 'catch':
+    case 'transform':
+      return describeSchemaType(node.inner);
+    case 'pipe':
+      return describeSchemaType(node.output);
+    case 'unresolved':
+      return 'unknown';
+    default:
+      return node.kind;
+  }
+}
+
+/**
+ * Strip parentheses and `as`/`satisfies` wrappers from an expression
+ */
+export function unwrapExpression(expression: ts.Expression): ts.Expression {
+  let node = expression;
+  while (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isTypeAssertionExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isSatisfiesExpression(node)
+  ) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Get the text of a property name (identifier, string or numeric literal)
+ */
+export function getPropertyName(name: ts.PropertyName): string {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return name.getText();
+}
+
+/**
+ * Evaluate a literal expression (strings, numbers, booleans, null, arrays and objects)
+ */
+export function evaluateLiteral(expression: ts.Expression): any {
+  const node = unwrapExpression(expression);
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isNumericLiteral(node)) {
+    return parseFloat(node.text);
+  }
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return -parseFloat(node.operand.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) {
+    return true;
+  }
+  if (node.kind === ts.SyntaxKind.FalseKeyword) {
+    return false;
+  }
+  if (node.kind === ts.SyntaxKind.NullKeyword) {
+    return null;
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    const values: any[] = [];
+    for (const element of node.elements) {
+      const value = evaluateLiteral(element);
+      if (value === NOT_STATIC) {
+        return NOT_STATIC;
+      }
+      values.push(value);
+    }
+    return values;
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const result: Record<string, any> = {};
+    for (const property of node.properties) {
+      if (!ts.isPropertyAssignment(property)) {
+        return NOT_STATIC;
+      }
+      const value = evaluateLiteral(property.initializer);
+      if (value === NOT_STATIC) {
+        return NOT_STATIC;
+      }
+      result[getPropertyName(property.name)] = value;
+    }
+    return result;
+  }
+
+  return NOT_STATIC;
+}
@@ -0,0 +1,848 @@
+import * as ts from 'typescript';
+import { SchemaNode, SchemaCheck, SchemaLocation } from './SchemaInterpreter';
+import { toJsonPointer } from './ValidationIssue';
+
+/**
+ * Kinds of schema findings
+ */
+export type SchemaIssueCode =
+  | 'invalid-type'
+  | 'constraint'
+  | 'invalid-value'
+  | 'invalid-union'
+  | 'unrecognized-key'
+  | 'extra-property'
+  | 'unchecked';
+
+/**
+ * A single value that failed its schema, or could not be checked
+ */
+export interface SchemaIssue {
+  /**
+   * Kind of finding
+   */
+  code: SchemaIssueCode;
+  
+  /**
+   * Dotted path of the failing field, e.g. `params.userId` or `user.email`
+   */
+  path: string;
+  
+  /**
+   * JSON pointer to the failing field, built from its keys, e.g. `/params/userId`
+   */
+  pointer: string;
+  
+  /**
+   * The constraint that was expected (e.g. `uuid`, `email`, `int`, `positive`)
+   */
+  expected?: string;
+  
+  /**
+   * The value that was received
+   */
+  received?: unknown;
+  
+  /**
+   * Human readable description of the failure
+   */
+  message: string;
+  
+  /**
+   * Where the failing schema is declared
+   */
+  location?: SchemaLocation;
+}
+
+/**
+ * Result of validating a value against a schema
+ */
+export interface SchemaValidationOutcome {
+  /**
+   * Values that don't satisfy the schema
+   */
+  issues: SchemaIssue[];
+  
+  /**
+   * Parts of the value that could not be checked, or extra properties
+   */
+  warnings: SchemaIssue[];
+  
+  /**
+   * The parsed value, with defaults and statically known transforms applied
+   */
+  value: unknown;
+}
+
+/**
+ * Options for the schema validator
+ */
+export interface SchemaValidatorOptions {
+  /**
+   * Whether properties not declared in an object schema are accepted silently
+   */
+  allowExtraProperties?: boolean;
+  
+  /**
+   * Whether properties not declared in an object schema are reported as issues
+   * rather than warnings, unless extra properties are allowed
+   */
+  strict?: boolean;
+}
+
+/**
+ * Keys and array indices leading to a value
+ */
+type FieldPath = Array<string | number>;
+
+/**
+ * Marker for values produced by a transform that could not be evaluated statically
+ */
+const UNEVALUATED = Symbol('unevaluated');
+
+/**
+ * Formats accepted by string checks
+ */
+const STRING_FORMATS: Record<string, RegExp> = {
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+  email: /^(?!\.)(?!.*\.\.)([A-Z0-9_'+\-\.]*)[A-Z0-9_+-]@([A-Z0-9][A-Z0-9\-]*\.)+[A-Z]{2,}$/i,
+  date: /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/,
+  time: /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d+)?$/,
+  cuid: /^c[^\s-]{8,}$/i,
+  cuid2: /^[0-9a-z]+$/,
+  ulid: /^[0-9A-HJKMNP-TV-Z]{26}$/,
+  ip: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$|^[0-9a-fA-F:]+$/
+};
+
+/**
+ * Validates plain values against schemas read by the SchemaInterpreter
+ */
+export class SchemaValidator {
+  private allowExtraProperties: boolean;
+  private strict: boolean;
+  
+  constructor(options: SchemaValidatorOptions = {}) {
+    this.allowExtraProperties = options.allowExtraProperties ?? false;
+    this.strict = options.strict ?? false;
+  }
+  
+  /**
+   * Validate a value against a schema
+   * @param schema The schema to validate against
+   * @param value The value to validate
+   * @param rootPath Path prefix used in issue paths (e.g. `params`)
+   */
+  validate(schema: SchemaNode, value: unknown, rootPath: string = ''): SchemaValidationOutcome {
+    const issues: SchemaIssue[] = [];
+    const warnings: SchemaIssue[] = [];
+    const output = this.check(schema, value, rootPath ? [rootPath] : [], issues, warnings);
+    
+    return {
+      issues,
+      warnings,
+      value: settle(output)
+    };
+  }
+  
+  /**
+   * Check a value against a schema node and return the parsed value
+   */
+  private check(node: SchemaNode, value: unknown, path: FieldPath, issues: SchemaIssue[], warnings: SchemaIssue[]): unknown {
+    switch (node.kind) {
+      case 'any':
+      case 'unknown':
+        return value;
+      
+      case 'unresolved':
+        this.addWarning(warnings, 'unchecked', node, path, `schema could not be interpreted (${node.reason}), value was not checked`);
+        return value;
+      
+      case 'never':
+        this.addIssue(issues, 'invalid-type', node, path, 'never', value);
+        return value;
+      
+      case 'undefined':
+      case 'void':
+        if (value !== undefined) {
+          this.addIssue(issues, 'invalid-type', node, path, 'undefined', value);
+        }
+        return value;
+      
+      case 'optional':
+        return value === undefined ? undefined : this.check(node.inner, value, path, issues, warnings);
+      
+      case 'nullable':
+        return value === null ? null : this.check(node.inner, value, path, issues, warnings);
+      
+      case 'default':
+        if (value === undefined && node.source !== undefined) {
+          this.addWarning(warnings, 'unchecked', node, path, 'default value could not be evaluated statically');
+          return UNEVALUATED;
+        }
+        return this.check(node.inner, value === undefined ? clone(node.value) : value, path, issues, warnings);
+      
+      case 'catch': {
+        const innerIssues: SchemaIssue[] = [];
+        const parsed = this.check(node.inner, value, path, innerIssues, warnings);
+        if (innerIssues.length === 0) {
+          return parsed;
+        }
+        // Zod replaces invalid values with the catch value instead of failing
+        return node.source !== undefined ? UNEVALUATED : clone(node.value);
+      }
+      
+      case 'transform': {
+        const issueCount = issues.length;
+        const input = this.check(node.inner, value, path, issues, warnings);
+        if (issues.length > issueCount || input === UNEVALUATED) {
+          return UNEVALUATED;
+        }
+        const output = evaluateTransform(node.source, input);
+        if (output === UNEVALUATED) {
+          this.addWarning(warnings, 'unchecked', node, path, 'transform could not be evaluated statically, later constraints were not checked');
+        }
+        return output;
+      }
+      
+      case 'pipe': {
+        const issueCount = issues.length;
+        const intermediate = this.check(node.input, value, path, issues, warnings);
+        if (issues.length > issueCount || intermediate === UNEVALUATED) {
+          return UNEVALUATED;
+        }
+        return this.check(node.output, intermediate, path, issues, warnings);
+      }
+      
+      case 'string': {
+        const text = node.coerce && value !== undefined && value !== null ? String(value) : value;
+        if (typeof text !== 'string') {
+          this.addIssue(issues, 'invalid-type', node, path, 'string', text);
+          return text;
+        }
+        node.checks.forEach(check => {
+          if (!checkString(check, text)) {
+            this.addIssue(issues, 'constraint', node, path, describeCheck(check, 'string'), text);
+          }
+        });
+        return text;
+      }
+      
+      case 'number': {
+        const numeric = node.coerce ? Number(value) : value;
+        if (typeof numeric !== 'number' || Number.isNaN(numeric)) {
+          this.addIssue(issues, 'invalid-type', node, path, 'number', numeric);
+          return numeric;
+        }
+        node.checks.forEach(check => {
+          if (!checkNumber(check, numeric)) {
+            this.addIssue(issues, 'constraint', node, path, describeCheck(check, 'number'), numeric);
+          }
+        });
+        return numeric;
+      }
+      
+      case 'boolean': {
+        const flag = node.coerce ? Boolean(value) : value;
+        if (typeof flag !== 'boolean') {
+          this.addIssue(issues, 'invalid-type', node, path, 'boolean', flag);
+        }
+        return flag;
+      }
+      
+      case 'bigint': {
+        let big = value;
+        if (node.coerce && (typeof value === 'string' || typeof value === 'number')) {
+          try {
+            big = BigInt(value);
+          } catch {
+            // Reported as an invalid type below
+          }
+        }
+        if (typeof big !== 'bigint') {
+          this.addIssue(issues, 'invalid-type', node, path, 'bigint', big);
+        }
+        return big;
+      }
+      
+      case 'date': {
+        const date = node.coerce && (typeof value === 'string' || typeof value === 'number') ? new Date(value) : value;
+        if (!(date instanceof Date) || Number.isNaN(date.getTime())) {
+          this.addIssue(issues, 'invalid-type', node, path, 'date', date);
+        }
+        return date;
+      }
+      
+      case 'null':
+        if (value !== null) {
+          this.addIssue(issues, 'invalid-type', node, path, 'null', value);
+        }
+        return value;
+      
+      case 'literal':
+        if (value !== node.value) {
+          this.addIssue(issues, 'invalid-value', node, path, JSON.stringify(node.value), value);
+        }
+        return value;
+      
+      case 'enum':
+        if (!node.values.includes(value as any)) {
+          this.addIssue(issues, 'invalid-value', node, path, `one of ${node.values.map(v => JSON.stringify(v)).join(' | ')}`, value);
+        }
+        return value;
+      
+      case 'array': {
+        if (!Array.isArray(value)) {
+          this.addIssue(issues, 'invalid-type', node, path, 'array', value);
+          return value;
+        }
+        node.checks.forEach(check => {
+          if (!checkLength(check, value.length)) {
+            this.addIssue(issues, 'constraint', node, path, describeCheck(check, 'array'), value);
+          }
+        });
+        return value.map((item, index) => settle(this.check(node.element, item, joinPath(path, index), issues, warnings)));
+      }
+      
+      case 'tuple': {
+        if (!Array.isArray(value)) {
+          this.addIssue(issues, 'invalid-type', node, path, 'array', value);
+          return value;
+        }
+        if (value.length < node.items.length || (!node.rest && value.length > node.items.length)) {
+          this.addIssue(issues, 'constraint', node, path, `exactly ${node.items.length} items`, value);
+          return value;
+        }
+        return value.map((item, index) => {
+          const itemSchema = index < node.items.length ? node.items[index] : node.rest!;
+          return settle(this.check(itemSchema, item, joinPath(path, index), issues, warnings));
+        });
+      }
+      
+      case 'record': {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          this.addIssue(issues, 'invalid-type', node, path, 'object', value);
+          return value;
+        }
+        const output: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+          this.check(node.key, key, joinPath(path, key), issues, warnings);
+          output[key] = settle(this.check(node.value, item, joinPath(path, key), issues, warnings));
+        }
+        return output;
+      }
+      
+      case 'intersection': {
+        const left = this.check(node.left, value, path, issues, warnings);
+        const right = this.check(node.right, value, path, issues, warnings);
+        if (isPlainObject(left) && isPlainObject(right)) {
+          return { ...left, ...right };
+        }
+        return left;
+      }
+      
+      case 'object': {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          this.addIssue(issues, 'invalid-type', node, path, 'object', value);
+          return value;
+        }
+        const input = value as Record<string, unknown>;
+        const output: Record<string, unknown> = {};
+        
+        for (const [key, property] of Object.entries(node.shape)) {
+          const parsed = settle(this.check(property, input[key], joinPath(path, key), issues, warnings));
+          if (parsed !== undefined) {
+            output[key] = parsed;
+          }
+        }
+        
+        for (const key of Object.keys(input)) {
+          if (key in node.shape) {
+            continue;
+          }
+          if (node.catchall) {
+            output[key] = settle(this.check(node.catchall, input[key], joinPath(path, key), issues, warnings));
+          } else if (node.unknownKeys === 'strict') {
+            this.addIssue(issues, 'unrecognized-key', node, joinPath(path, key), 'no additional properties', input[key]);
+          } else if (node.unknownKeys === 'passthrough') {
+            output[key] = input[key];
+          } else if (this.strict && !this.allowExtraProperties) {
+            this.addIssue(issues, 'unrecognized-key', node, joinPath(path, key), 'no additional properties', input[key]);
+          } else if (!this.allowExtraProperties) {
+            this.addWarning(warnings, 'extra-property', node, joinPath(path, key), 'property is not declared in the schema');
+          }
+        }
+        
+        return output;
+      }
+      
+      case 'union': {
+        // Discriminated unions report issues against the matching option
+        if (node.discriminator && isPlainObject(value)) {
+          const discriminator = node.discriminator;
+          const option = node.options.find(candidate => {
+            const property = candidate.kind === 'object' ? candidate.shape[discriminator] : undefined;
+            return property && (
+              (property.kind === 'literal' && property.value === value[discriminator]) ||
+              (property.kind === 'enum' && property.values.includes(value[discriminator] as any))
+            );
+          });
+          if (option) {
+            return this.check(option, value, path, issues, warnings);
+          }
+          const accepted = node.options
+            .map(candidate => candidate.kind === 'object' ? candidate.shape[discriminator] : undefined)
+            .filter((property): property is SchemaNode => !!property)
+            .map(describeNode);
+          this.addIssue(issues, 'invalid-union', node, joinPath(path, discriminator), accepted.join(' | '), value[discriminator]);
+          return value;
+        }
+        
+        for (const option of node.options) {
+          const optionIssues: SchemaIssue[] = [];
+          const optionWarnings: SchemaIssue[] = [];
+          const parsed = this.check(option, value, path, optionIssues, optionWarnings);
+          if (optionIssues.length === 0) {
+            warnings.push(...optionWarnings);
+            return parsed;
+          }
+        }
+        this.addIssue(issues, 'invalid-union', node, path, node.options.map(describeNode).join(' | '), value);
+        return value;
+      }
+    }
+  }
+  
+  /**
+   * Record a failing value
+   */
+  private addIssue(
+    issues: SchemaIssue[],
+    code: SchemaIssueCode,
+    node: SchemaNode,
+    path: FieldPath,
+    expected: string,
+    received: unknown
+  ): void {
+    issues.push({
+      code,
+      path: formatPath(path),
+      pointer: toJsonPointer(path),
+      expected,
+      received,
+      message: `${displayPath(path)}: expected ${expected}, received ${formatValue(received)}`,
+      location: node.location
+    });
+  }
+  
+  /**
+   * Record a part of the value that was accepted without a full check
+   */
+  private addWarning(warnings: SchemaIssue[], code: SchemaIssueCode, node: SchemaNode, path: FieldPath, message: string): void {
+    warnings.push({
+      code,
+      path: formatPath(path),
+      pointer: toJsonPointer(path),
+      message: `${displayPath(path)}: ${message}`,
+      location: node.location
+    });
+  }
+}
+
+/**
+ * Check a string against a single constraint
+ */
+function checkString(check: SchemaCheck, value: string): boolean {
+  switch (check.kind) {
+    case 'url':
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return false;
+      }
+    case 'datetime': {
+      const offset = typeof check.value === 'object' && check.value?.offset === true;
+      const pattern = offset
+        ? /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}(:?\d{2})?)$/
+        : /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+      return pattern.test(value) && !Number.isNaN(Date.parse(value));
+    }
+    case 'regex':
+      return typeof check.value === 'string' ? toRegExp(check.value).test(value) : true;
+    case 'startsWith':
+      return value.startsWith(check.value);
+    case 'endsWith':
+      return value.endsWith(check.value);
+    case 'includes':
+      return value.includes(check.value);
+    case 'nonempty':
+      return value.length > 0;
+    case 'min':
+    case 'max':
+    case 'length':
+      return checkLength(check, value.length);
+    default:
+      return STRING_FORMATS[check.kind] ? STRING_FORMATS[check.kind].test(value) : true;
+  }
+}
+
+/**
+ * Check a number against a single constraint
+ */
+function checkNumber(check: SchemaCheck, value: number): boolean {
+  switch (check.kind) {
+    case 'int':
+      return Number.isInteger(value);
+    case 'positive':
+      return value > 0;
+    case 'negative':
+      return value < 0;
+    case 'nonnegative':
+      return value >= 0;
+    case 'nonpositive':
+      return value <= 0;
+    case 'min':
+      return value >= check.value;
+    case 'max':
+      return value <= check.value;
+    case 'gt':
+      return value > check.value;
+    case 'lt':
+      return value < check.value;
+    case 'multipleOf':
+      return typeof check.value === 'number' && check.value !== 0 ? Math.abs(value % check.value) < 1e-9 : true;
+    case 'finite':
+      return Number.isFinite(value);
+    case 'safe':
+      return Number.isSafeInteger(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Check a string or array length against a min/max/length constraint
+ */
+function checkLength(check: SchemaCheck, length: number): boolean {
+  switch (check.kind) {
+    case 'min':
+      return length >= check.value;
+    case 'max':
+      return length <= check.value;
+    case 'length':
+      return length === check.value;
+    case 'nonempty':
+      return length > 0;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Describe a constraint for issue messages
+ */
+function describeCheck(check: SchemaCheck, type: 'string' | 'number' | 'array'): string {
+  const unit = type === 'array' ? 'items' : 'characters';
+  
+  switch (check.kind) {
+    case 'min':
+      return type === 'number' ? `>= ${check.value}` : `at least ${check.value} ${unit}`;
+    case 'max':
+      return type === 'number' ? `<= ${check.value}` : `at most ${check.value} ${unit}`;
+    case 'length':
+      return `exactly ${check.value} ${unit}`;
+    case 'gt':
+      return `> ${check.value}`;
+    case 'lt':
+      return `< ${check.value}`;
+    case 'multipleOf':
+      return `multiple of ${check.value}`;
+    case 'regex':
+      return `match ${check.value}`;
+    case 'startsWith':
+    case 'endsWith':
+    case 'includes':
+      return `${check.kind} ${JSON.stringify(check.value)}`;
+    default:
+      return check.kind;
+  }
+}
+
+/**
+ * Short description of a schema node, used for union issues
+ */
+function describeNode(node: SchemaNode): string {
+  switch (node.kind) {
+    case 'literal':
+      return JSON.stringify(node.value);
+    case 'enum':
+      return node.values.map(value => JSON.stringify(value)).join(' | ');
+    case 'optional':
+    case 'nullable':
+    case 'default':
+    case 'catch':
+    case 'transform':
+      return describeNode(node.inner);
+    case 'pipe':
+      return describeNode(node.input);
+    default:
+      return node.name || node.kind;
+  }
+}
+
+/**
+ * Convert regex literal text (`/abc/i`) to a RegExp
+ */
+function toRegExp(text: string): RegExp {
+  const match = text.match(/^\/(.*)\/([a-z]*)$/s);
+  return match ? new RegExp(match[1], match[2]) : new RegExp(text);
+}
+
+/**
+ * Whether a value is a non-array object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A parsed child value, with values that could not be evaluated left undefined
+ */
+function settle(value: unknown): unknown {
+  return value === UNEVALUATED ? undefined : value;
+}
+
+/**
+ * Join a parent path and a property key or array index
+ */
+function joinPath(parent: FieldPath, key: string | number): FieldPath {
+  return [...parent, key];
+}
+
+/**
+ * Dotted form of a path, e.g. `user.roles[0].name`
+ */
+function formatPath(path: FieldPath): string {
+  return path.reduce<string>(
+    (text, key) => typeof key === 'number' ? `${text}[${key}]` : text ? `${text}.${key}` : key,
+    ''
+  );
+}
+
+/**
+ * Path shown in messages, `(root)` for the root value
+ */
+function displayPath(path: FieldPath): string {
+  return formatPath(path) || '(root)';
+}
+
+/**
+ * Format a received value for messages
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return String(value);
+  }
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+}
+
+/**
+ * Deep-copy a JSON value so defaults are not shared between parses
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Evaluate a `.transform()` callback statically.
+ *
+ * Only single-expression callbacks built from common conversions are understood
+ * (`parseInt`, `Number`, `toLowerCase()`, `split(',')`, comparisons, ...).
+ * Anything else yields UNEVALUATED.
+ */
+function evaluateTransform(source: string, input: unknown): unknown {
+  const sourceFile = ts.createSourceFile('transform.ts', `(${source})`, ts.ScriptTarget.ES2020, true);
+  const statement = sourceFile.statements[0];
+  if (!statement || !ts.isExpressionStatement(statement)) {
+    return UNEVALUATED;
+  }
+  
+  let fn: ts.Expression = statement.expression;
+  while (ts.isParenthesizedExpression(fn)) {
+    fn = fn.expression;
+  }
+  
+  // Bare function references such as .transform(Number)
+  if (ts.isIdentifier(fn)) {
+    return callGlobal(fn.text, [input]);
+  }
+  
+  if (!ts.isArrowFunction(fn) && !ts.isFunctionExpression(fn)) {
+    return UNEVALUATED;
+  }
+  
+  const parameter = fn.parameters[0];
+  const scope: Record<string, unknown> = {};
+  if (parameter && ts.isIdentifier(parameter.name)) {
+    scope[parameter.name.text] = input;
+  }
+  
+  let body: ts.ConciseBody = fn.body;
+  if (ts.isBlock(body)) {
+    const returnStatement = body.statements.length === 1 ? body.statements[0] : undefined;
+    if (!returnStatement || !ts.isReturnStatement(returnStatement) || !returnStatement.expression) {
+      return UNEVALUATED;
+    }
+    body = returnStatement.expression;
+  }
+  
+  return evaluateExpression(body, scope);
+}
+
+/**
+ * Evaluate a small subset of JavaScript expressions
+ */
+function evaluateExpression(node: ts.Expression, scope: Record<string, unknown>): unknown {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isNonNullExpression(node)) {
+    return evaluateExpression(node.expression, scope);
+  }
+  if (ts.isIdentifier(node)) {
+    if (node.text in scope) {
+      return scope[node.text];
+    }
+    return node.text === 'undefined' ? undefined : UNEVALUATED;
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isNumericLiteral(node)) {
+    return parseFloat(node.text);
+  }
+  switch (node.kind) {
+    case ts.SyntaxKind.TrueKeyword:
+      return true;
+    case ts.SyntaxKind.FalseKeyword:
+      return false;
+    case ts.SyntaxKind.NullKeyword:
+      return null;
+  }
+  
+  if (ts.isPrefixUnaryExpression(node)) {
+    const operand = evaluateExpression(node.operand, scope);
+    if (operand === UNEVALUATED) {
+      return UNEVALUATED;
+    }
+    switch (node.operator) {
+      case ts.SyntaxKind.ExclamationToken:
+        return !operand;
+      case ts.SyntaxKind.MinusToken:
+        return -(operand as number);
+      case ts.SyntaxKind.PlusToken:
+        return +(operand as number);
+    }
+    return UNEVALUATED;
+  }
+  
+  if (ts.isConditionalExpression(node)) {
+    const condition = evaluateExpression(node.condition, scope);
+    if (condition === UNEVALUATED) {
+      return UNEVALUATED;
+    }
+    return evaluateExpression(condition ? node.whenTrue : node.whenFalse, scope);
+  }
+  
+  if (ts.isBinaryExpression(node)) {
+    const left = evaluateExpression(node.left, scope);
+    const right = evaluateExpression(node.right, scope);
+    if (left === UNEVALUATED || right === UNEVALUATED) {
+      return UNEVALUATED;
+    }
+    const l = left as any;
+    const r = right as any;
+    switch (node.operatorToken.kind) {
+      case ts.SyntaxKind.EqualsEqualsEqualsToken: return l === r;
+      case ts.SyntaxKind.ExclamationEqualsEqualsToken: return l !== r;
+      case ts.SyntaxKind.EqualsEqualsToken: return l == r;
+      case ts.SyntaxKind.ExclamationEqualsToken: return l != r;
+      case ts.SyntaxKind.AmpersandAmpersandToken: return l && r;
+      case ts.SyntaxKind.BarBarToken: return l || r;
+      case ts.SyntaxKind.QuestionQuestionToken: return l ?? r;
+      case ts.SyntaxKind.PlusToken: return l + r;
+      case ts.SyntaxKind.MinusToken: return l - r;
+      case ts.SyntaxKind.AsteriskToken: return l * r;
+      case ts.SyntaxKind.SlashToken: return l / r;
+    }
+    return UNEVALUATED;
+  }
+  
+  if (ts.isPropertyAccessExpression(node)) {
+    const target = evaluateExpression(node.expression, scope);
+    if ((typeof target === 'string' || Array.isArray(target)) && node.name.text === 'length') {
+      return target.length;
+    }
+    return UNEVALUATED;
+  }
+  
+  if (ts.isCallExpression(node)) {
+    const args = node.arguments.map(argument => evaluateExpression(argument, scope));
+    if (args.includes(UNEVALUATED)) {
+      return UNEVALUATED;
+    }
+    
+    if (ts.isIdentifier(node.expression)) {
+      return callGlobal(node.expression.text, args);
+    }
+    
+    if (ts.isPropertyAccessExpression(node.expression)) {
+      const target = evaluateExpression(node.expression.expression, scope);
+      const method = node.expression.name.text;
+      
+      if (typeof target === 'string') {
+        switch (method) {
+          case 'toLowerCase': return target.toLowerCase();
+          case 'toUpperCase': return target.toUpperCase();
+          case 'trim': return target.trim();
+          case 'toString': return target;
+          case 'split': return typeof args[0] === 'string' ? target.split(args[0]) : UNEVALUATED;
+        }
+      }
+      if (typeof target === 'number' && method === 'toString') {
+        return target.toString();
+      }
+      if (Array.isArray(target) && method === 'join') {
+        return target.join(typeof args[0] === 'string' ? args[0] : ',');
+      }
+      if (ts.isIdentifier(node.expression.expression) && node.expression.expression.text === 'Number') {
+        return callGlobal(`Number.${method}`, args);
+      }
+    }
+  }
+  
+  return UNEVALUATED;
+}
+
+/**
+ * Call one of the global conversion functions allowed in transforms
+ */
+function callGlobal(name: string, args: unknown[]): unknown {
+  switch (name) {
+    case 'parseInt':
+    case 'Number.parseInt':
+      return parseInt(String(args[0]), typeof args[1] === 'number' ? args[1] : undefined);
+    case 'parseFloat':
+    case 'Number.parseFloat':
+      return parseFloat(String(args[0]));
+    case 'Number':
+      return Number(args[0]);
+    case 'String':
+      return String(args[0]);
+    case 'Boolean':
+      return Boolean(args[0]);
+    default:
+      return UNEVALUATED;
+  }
+}
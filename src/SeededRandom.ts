@@ -0,0 +1,38 @@
+/**
+ * Deterministic pseudo-random number generator (mulberry32)
+ *
+ * The same seed yields the same sequence on every platform, which keeps
+ * generated mocks reproducible.
+ */
+export class SeededRandom {
+  private state: number;
+  
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+  
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+  
+  /**
+   * Derive a seed for a named stream (e.g. a contract and status code) from a base seed,
+   * so each stream is reproducible regardless of the order streams are used in
+   */
+  static derive(seed: number, key: string): number {
+    // FNV-1a hash of the key
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return ((seed >>> 0) ^ hash) >>> 0;
+  }
+}
@@ -0,0 +1,379 @@
+import { SchemaNode, ObjectSchemaNode } from './SchemaInterpreter';
+
+/**
+ * The parts of a contract types are generated from
+ */
+export interface ContractTypeSource {
+  /**
+   * Stable contract ID, e.g. `users/get`
+   */
+  id: string;
+  
+  method?: string;
+  path?: string;
+  summary?: string;
+  description?: string;
+  
+  params?: SchemaNode;
+  query?: SchemaNode;
+  body?: SchemaNode;
+  
+  /**
+   * Declared responses, in the order they should appear in the `Response` union
+   */
+  responses: Array<{ status: number; description?: string; schema?: SchemaNode }>;
+}
+
+/**
+ * Generated TypeScript module for a contract
+ */
+export interface GeneratedContractTypes {
+  /**
+   * Module source, containing only type declarations
+   */
+  code: string;
+  
+  /**
+   * Names of the exported types, in declaration order
+   */
+  typeNames: string[];
+}
+
+/**
+ * Which side of a schema a type describes: what a client sends, or what Zod returns after parsing
+ */
+type TypeMode = 'input' | 'output';
+
+/**
+ * A type declaration to emit
+ */
+interface TypeDeclaration {
+  name: string;
+  description?: string;
+  node: SchemaNode;
+  mode: TypeMode;
+}
+
+/**
+ * Names the generator declares itself, which named schemas must not shadow
+ */
+const RESERVED_NAMES = /^(Params|Query|QueryInput|Body|Response(\d{3})?)$/;
+
+/**
+ * Global TypeScript and DOM names; named schemas with these names get a `Type` suffix
+ * (`ErrorSchema` becomes `ErrorType`) so importing them doesn't shadow the global
+ */
+const GLOBAL_NAMES = new Set([
+  'Array', 'ArrayBuffer', 'Awaited', 'BigInt', 'Blob', 'Boolean', 'Buffer', 'Date', 'Document',
+  'Element', 'Error', 'Event', 'Exclude', 'Extract', 'File', 'FormData', 'Function', 'Headers',
+  'Iterable', 'JSON', 'Map', 'Math', 'NonNullable', 'Number', 'Object', 'Omit', 'Partial', 'Pick',
+  'Promise', 'Readonly', 'Record', 'RegExp', 'Request', 'Required', 'ReturnType', 'Set', 'String',
+  'Symbol', 'URL', 'Uint8Array', 'WeakMap', 'WeakSet', 'Window'
+]);
+
+/**
+ * Indentation used in generated code
+ */
+const INDENT = '  ';
+
+/**
+ * Generates a standalone TypeScript module from the schemas of a contract
+ *
+ * The module exports `Params`, `QueryInput` (the query as sent) and `Query` (after parsing),
+ * `Body`, one `Response<status>` type per response schema and a `Response` union
+ * discriminated by `status`. Schemas resolved from a named declaration (e.g. `UserSchema`)
+ * are emitted once as their own type (`User`) and referenced by name.
+ */
+export class TypeGenerator {
+  /**
+   * Named schema declarations found while rendering, keyed by type name
+   */
+  private named = new Map<string, string>();
+  
+  /**
+   * Named declarations in the order they were found
+   */
+  private namedDeclarations: TypeDeclaration[] = [];
+  
+  /**
+   * Generate the module for a contract
+   */
+  generate(source: ContractTypeSource): GeneratedContractTypes {
+    this.named.clear();
+    this.namedDeclarations = [];
+    
+    const endpoint = [source.method?.toUpperCase(), source.path].filter(Boolean).join(' ');
+    const declarations: TypeDeclaration[] = [];
+    
+    if (source.params) {
+      declarations.push({
+        name: 'Params',
+        description: source.params.description || `Path parameters of ${endpoint || source.id}`,
+        node: source.params,
+        mode: 'output'
+      });
+    }
+    
+    if (source.query) {
+      declarations.push({
+        name: 'QueryInput',
+        description: source.query.description || 'Query parameters as sent by the client, before parsing',
+        node: source.query,
+        mode: 'input'
+      });
+      declarations.push({
+        name: 'Query',
+        description: source.query.description || 'Query parameters after parsing (defaults, coercion and transforms applied)',
+        node: source.query,
+        mode: 'output'
+      });
+    }
+    
+    if (source.body) {
+      declarations.push({
+        name: 'Body',
+        description: source.body.description || 'Request body',
+        node: source.body,
+        mode: 'input'
+      });
+    }
+    
+    const variants: string[] = [];
+    for (const response of source.responses) {
+      if (!response.schema) {
+        variants.push(`{ status: ${response.status}; body: undefined }`);
+        continue;
+      }
+      
+      const name = `Response${response.status}`;
+      declarations.push({
+        name,
+        description: response.description || response.schema.description,
+        node: response.schema,
+        mode: 'output'
+      });
+      variants.push(`{ status: ${response.status}; body: ${name} }`);
+    }
+    
+    // Render the contract types first, which collects the named schemas they use
+    const rendered = declarations.map(declaration => {
+      const reference = declaration.node.name ? this.reference(declaration.node, declaration.mode) : undefined;
+      return reference
+        ? `${this.renderComment(declaration.description, '')}export type ${declaration.name} = ${reference};`
+        : this.renderDeclaration(declaration);
+    });
+    
+    if (variants.length > 0) {
+      const description = [source.summary, source.description].filter(Boolean).join('\n\n')
+        || `Responses of ${endpoint || source.id}`;
+      rendered.push(`${this.renderComment(`${description}\n\nDiscriminated by \`status\`.`, '')}export type Response =\n${variants.map(variant => `${INDENT}| ${variant}`).join('\n')};`);
+    }
+    
+    const header = [
+      `// Types for ${endpoint ? `${endpoint} (${source.id})` : source.id}`,
+      '// Generated from the contract schemas by the TypedAPI tester addon; do not edit.'
+    ].join('\n');
+    
+    const named = this.namedDeclarations.map(declaration => this.named.get(declaration.name)!);
+    const typeNames = [
+      ...this.namedDeclarations.map(declaration => declaration.name),
+      ...declarations.map(declaration => declaration.name),
+      ...(variants.length > 0 ? ['Response'] : [])
+    ];
+    
+    return {
+      code: `${[header, ...named, ...rendered].join('\n\n')}\n`,
+      typeNames
+    };
+  }
+  
+  /**
+   * Render an exported declaration, as an interface for objects and a type alias otherwise
+   */
+  private renderDeclaration(declaration: TypeDeclaration): string {
+    const comment = this.renderComment(declaration.description, '');
+    const node = this.unwrap(declaration.node, declaration.mode).node;
+    
+    if (node.kind === 'object') {
+      return `${comment}export interface ${declaration.name} ${this.renderObject(node, declaration.mode, '')}`;
+    }
+    
+    return `${comment}export type ${declaration.name} = ${this.render(declaration.node, declaration.mode, '', true)};`;
+  }
+  
+  /**
+   * Render the type of a schema
+   * @param indent Indentation of the line the type starts on
+   * @param declaring Whether the schema is the declaration itself, so its own name is not referenced
+   */
+  private render(node: SchemaNode, mode: TypeMode, indent: string, declaring: boolean = false): string {
+    if (node.name && !declaring) {
+      const reference = this.reference(node, mode);
+      if (reference) {
+        return reference;
+      }
+    }
+    
+    switch (node.kind) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'bigint':
+      case 'boolean':
+        return node.coerce && mode === 'input' ? `${node.kind} | string` : node.kind;
+      case 'date':
+        return node.coerce && mode === 'input' ? 'Date | string' : 'Date';
+      case 'null':
+      case 'undefined':
+      case 'void':
+      case 'any':
+      case 'unknown':
+      case 'never':
+        return node.kind;
+      case 'literal':
+        return renderLiteral(node.value);
+      case 'enum':
+        return node.values.map(renderLiteral).join(' | ') || 'never';
+      case 'object':
+        return this.renderObject(node, mode, indent);
+      case 'array':
+        return `Array<${this.render(node.element, mode, indent)}>`;
+      case 'tuple': {
+        const items = node.items.map(item => this.render(item, mode, indent));
+        if (node.rest) {
+          items.push(`...Array<${this.render(node.rest, mode, indent)}>`);
+        }
+        return `[${items.join(', ')}]`;
+      }
+      case 'record':
+        return `Record<${this.render(node.key, mode, indent)}, ${this.render(node.value, mode, indent)}>`;
+      case 'union':
+        return node.options.map(option => this.render(option, mode, indent)).join(' | ') || 'never';
+      case 'intersection':
+        return [node.left, node.right]
+          .map(side => {
+            const type = this.render(side, mode, indent);
+            return this.unwrap(side, mode).node.kind === 'union' || this.unwrap(side, mode).optional ? `(${type})` : type;
+          })
+          .join(' & ');
+      case 'optional':
+        return `${this.render(node.inner, mode, indent)} | undefined`;
+      case 'nullable':
+        return `${this.render(node.inner, mode, indent)} | null`;
+      case 'default':
+        // A default makes the value optional for the client and always present after parsing
+        return mode === 'input'
+          ? `${this.render(node.inner, mode, indent)} | undefined`
+          : this.render(this.unwrap(node.inner, mode).node, mode, indent);
+      case 'catch':
+        return this.render(node.inner, mode, indent);
+      case 'transform':
+        // The return type of a transform callback is not known statically
+        return mode === 'input' ? this.render(node.inner, mode, indent) : 'unknown';
+      case 'pipe':
+        return this.render(mode === 'input' ? node.input : node.output, mode, indent);
+      case 'unresolved':
+        return 'unknown';
+    }
+  }
+  
+  /**
+   * Render an object schema as a multi-line type literal
+   */
+  private renderObject(node: ObjectSchemaNode, mode: TypeMode, indent: string): string {
+    const inner = indent + INDENT;
+    const members = Object.entries(node.shape).map(([key, property]) => {
+      const { node: value, optional } = this.unwrap(property, mode);
+      const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : renderLiteral(key);
+      return `${this.renderComment(property.description, inner)}${inner}${name}${optional ? '?' : ''}: ${this.render(value, mode, inner)};`;
+    });
+    
+    if (node.catchall) {
+      members.push(`${inner}[key: string]: ${this.render(node.catchall, mode, inner)};`);
+    } else if (node.unknownKeys === 'passthrough') {
+      members.push(`${inner}[key: string]: unknown;`);
+    }
+    
+    return members.length > 0 ? `{\n${members.join('\n')}\n${indent}}` : '{}';
+  }
+  
+  /**
+   * Strip the wrappers that only make a property optional or select the input or output side,
+   * e.g. `.optional()`, and `.default()` for the input side
+   */
+  private unwrap(node: SchemaNode, mode: TypeMode): { node: SchemaNode; optional: boolean } {
+    let current = node;
+    let optional = false;
+    
+    for (;;) {
+      if (current.kind === 'optional') {
+        optional = true;
+        current = current.inner;
+      } else if (current.kind === 'default') {
+        optional = optional || mode === 'input';
+        current = current.inner;
+      } else if (current.kind === 'catch' || (current.kind === 'transform' && mode === 'input')) {
+        current = current.inner;
+      } else if (current.kind === 'pipe') {
+        current = mode === 'input' ? current.input : current.output;
+      } else {
+        return { node: current, optional };
+      }
+    }
+  }
+  
+  /**
+   * Reference a named schema, declaring it on first use
+   *
+   * Returns undefined when the schema has to be inlined: its name clashes with a
+   * generated type or another schema, or it differs between the input and output side.
+   */
+  private reference(node: SchemaNode, mode: TypeMode): string | undefined {
+    const baseName = node.name!.replace(/(.)Schema$/, '$1');
+    const name = GLOBAL_NAMES.has(baseName) ? `${baseName}Type` : baseName;
+    if (!/^[A-Za-z_$][\w$]*$/.test(name) || RESERVED_NAMES.test(name)) {
+      return undefined;
+    }
+    
+    const output = this.render(node, 'output', '', true);
+    if (mode === 'input' && this.render(node, 'input', '', true) !== output) {
+      return undefined;
+    }
+    
+    const declaration: TypeDeclaration = { name, description: node.description, node, mode: 'output' };
+    const code = this.renderDeclaration(declaration);
+    const existing = this.named.get(name);
+    
+    if (existing === undefined) {
+      this.named.set(name, code);
+      this.namedDeclarations.push(declaration);
+    } else if (existing !== code) {
+      return undefined;
+    }
+    
+    return name;
+  }
+  
+  /**
+   * Render a JSDoc comment, or nothing without text
+   */
+  private renderComment(text: string | undefined, indent: string): string {
+    if (!text) {
+      return '';
+    }
+    
+    const lines = text.split('\n').map(line => `${indent} *${line ? ` ${line.replace(/\*\//g, '*\\/')}` : ''}`);
+    return `${indent}/**\n${lines.join('\n')}\n${indent} */\n`;
+  }
+}
+
+/**
+ * Render a literal value as a TypeScript literal type, with single-quoted strings
+ */
+function renderLiteral(value: string | number | boolean | null): string {
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  
+  return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
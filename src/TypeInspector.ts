@@ -0,0 +1,608 @@
+import * as ts from 'typescript';
+import { SchemaInterpreter, unwrapExpression } from './SchemaInterpreter';
+import { SourceLocation } from './ValidationIssue';
+
+/**
+ * What kind of declaration a type name resolves to
+ *
+ * - `zod-schema` is a variable holding a Zod schema (e.g. `const UserSchema = z.object(...)`)
+ * - `zod-infer` is a type alias of `z.infer`/`z.input`/`z.output` of a schema
+ */
+export type TypeDeclarationKind = 'interface' | 'type' | 'class' | 'enum' | 'zod-schema' | 'zod-infer' | 'variable';
+
+/**
+ * Result of looking up a type in a contract
+ */
+export interface TypeExistenceResult {
+  /**
+   * Whether the contract declares, imports or re-exports the type
+   */
+  exists: boolean;
+  
+  /**
+   * The name that was looked up
+   */
+  typeName: string;
+  
+  /**
+   * Kind of declaration the name resolves to
+   */
+  kind?: TypeDeclarationKind;
+  
+  /**
+   * Whether the contract module exports the name (directly or as a re-export)
+   */
+  exported: boolean;
+  
+  /**
+   * Where the type is declared; for imported and re-exported types this is in the original module
+   */
+  location?: SourceLocation;
+  
+  /**
+   * Whether the type is declared in another module and imported or re-exported by the contract
+   */
+  reexported?: boolean;
+  
+  /**
+   * Schema a `zod-infer` type is inferred from
+   */
+  inferredFrom?: string;
+  
+  /**
+   * Close matches among the names in the contract, when the type is missing
+   */
+  suggestions: string[];
+  
+  /**
+   * Human readable summary of the result
+   */
+  message: string;
+}
+
+/**
+ * Result of resolving a property path on a type
+ */
+export interface TypePropertyResult {
+  /**
+   * Whether every segment of the path resolves
+   */
+  exists: boolean;
+  
+  /**
+   * The type the path was resolved on
+   */
+  typeName: string;
+  
+  /**
+   * The property path, e.g. `user.email` or `body[].permissions`
+   */
+  propertyPath: string;
+  
+  /**
+   * Whether the property may be missing (optional or `undefined`)
+   */
+  optional: boolean;
+  
+  /**
+   * Whether the property may be `null`
+   */
+  nullable: boolean;
+  
+  /**
+   * Resolved type of the property as text, e.g. `string | null`
+   */
+  type?: string;
+  
+  /**
+   * The expected type, when one was asserted
+   */
+  expectedType?: string;
+  
+  /**
+   * Whether the resolved type matches the expected type
+   */
+  matchesExpected?: boolean;
+  
+  /**
+   * Properties that exist where the path stopped resolving
+   */
+  availableProperties: string[];
+  
+  /**
+   * Human readable summary of the result
+   */
+  message: string;
+}
+
+/**
+ * A step of a property path: a property name or `[]` for the elements of an array
+ */
+type PathStep = { property: string } | { element: true };
+
+/**
+ * A name visible in a contract module, with the symbol it resolves to
+ */
+interface ModuleName {
+  symbol: ts.Symbol;
+  target: ts.Symbol;
+  exported: boolean;
+}
+
+/**
+ * Zod helpers whose type argument is a schema
+ */
+const INFER_HELPERS = new Set(['infer', 'input', 'output', 'TypeOf']);
+
+/**
+ * Maximum number of suggestions returned for a missing name
+ */
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Looks up the types of a contract module with the TypeScript type checker
+ *
+ * Names are resolved from the module's exports (including `export * from` and
+ * `export { X } from` re-exports) and its top-level declarations and imports.
+ */
+export class TypeInspector {
+  constructor(private checker: ts.TypeChecker, private sourceFile: ts.SourceFile) {}
+  
+  /**
+   * Look up a type (or Zod schema) by name
+   */
+  findType(typeName: string): TypeExistenceResult {
+    const names = this.getModuleNames();
+    const entry = names.get(typeName);
+    
+    if (!entry) {
+      const suggestions = findClosestNames(typeName, Array.from(names.keys()));
+      return {
+        exists: false,
+        typeName,
+        exported: false,
+        suggestions,
+        message: `Type "${typeName}" is not declared in the contract${suggestions.length > 0 ? `; did you mean ${suggestions.map(name => `"${name}"`).join(', ')}?` : ''}`
+      };
+    }
+    
+    const declaration = this.getPrimaryDeclaration(entry.target);
+    const kind = declaration ? this.getDeclarationKind(declaration, entry.target) : undefined;
+    const declarationFile = declaration?.getSourceFile();
+    const reexported = !!declarationFile && declarationFile.fileName !== this.sourceFile.fileName;
+    const inferredFrom = declaration && kind === 'zod-infer' ? getInferredSchemaName(declaration as ts.TypeAliasDeclaration) : undefined;
+    
+    let location: SourceLocation | undefined;
+    if (declaration && declarationFile) {
+      const position = declarationFile.getLineAndCharacterOfPosition(declaration.getStart(declarationFile));
+      location = { file: declarationFile.fileName, line: position.line + 1, column: position.character + 1 };
+    }
+    
+    const description = [
+      kind ? `${kind} "${typeName}"` : `"${typeName}"`,
+      inferredFrom ? `inferred from "${inferredFrom}"` : '',
+      location ? `declared at ${location.file}:${location.line}` : '',
+      entry.exported ? (reexported ? '(re-exported)' : '(exported)') : '(not exported)'
+    ].filter(Boolean).join(' ');
+    
+    return {
+      exists: true,
+      typeName,
+      kind,
+      exported: entry.exported,
+      location,
+      ...(reexported ? { reexported } : {}),
+      ...(inferredFrom ? { inferredFrom } : {}),
+      suggestions: [],
+      message: `Found ${description}`
+    };
+  }
+  
+  /**
+   * Resolve a property path (e.g. `user.email`, `body[].permissions`) on a type or Zod schema,
+   * optionally asserting its type (e.g. `string` or `'active' | 'revoked'`)
+   *
+   * Zod schemas are resolved to their parsed (output) type at every step.
+   */
+  getProperty(typeName: string, propertyPath: string, expectedType?: string): TypePropertyResult {
+    const failure = (message: string, availableProperties: string[] = []): TypePropertyResult => ({
+      exists: false,
+      typeName,
+      propertyPath,
+      optional: false,
+      nullable: false,
+      ...(expectedType !== undefined ? { expectedType } : {}),
+      availableProperties,
+      message
+    });
+    
+    const existence = this.findType(typeName);
+    const entry = this.getModuleNames().get(typeName);
+    if (!existence.exists || !entry) {
+      return failure(existence.message);
+    }
+    
+    const steps = parsePropertyPath(propertyPath);
+    if (!steps) {
+      return failure(`Invalid property path "${propertyPath}"`);
+    }
+    
+    let types = this.flatten(this.unwrapSchema(this.getSymbolType(entry.target)));
+    let optional = false;
+    let resolved = typeName;
+    
+    for (const step of steps) {
+      const values = types.filter(type => !(type.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+      
+      if (values.some(type => type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown))) {
+        return failure(`Type of "${resolved}" could not be resolved (is zod installed where the contract is?)`);
+      }
+      
+      if ('element' in step) {
+        const elements = values.map(type =>
+          type.flags & ts.TypeFlags.Object ? this.checker.getIndexTypeOfType(type, ts.IndexKind.Number) : undefined
+        );
+        if (values.length === 0 || elements.some(element => !element)) {
+          return failure(`"${resolved}" is not an array (type: ${this.typeText(types)})`);
+        }
+        
+        types = elements.flatMap(element => this.flatten(this.unwrapSchema(element!)));
+        optional = false;
+        resolved += '[]';
+        continue;
+      }
+      
+      const objects = values.filter(type => type.flags & ts.TypeFlags.Object || type.isIntersection());
+      const properties = objects.map(type => this.checker.getPropertyOfType(type, step.property));
+      const found = properties.filter((property): property is ts.Symbol => !!property);
+      
+      if (found.length === 0) {
+        const available = uniqueNames(objects.flatMap(type => this.checker.getPropertiesOfType(type).map(property => property.name)));
+        const suggestions = findClosestNames(step.property, available);
+        return failure(
+          `Property "${step.property}" does not exist on "${resolved}"`
+            + (suggestions.length > 0 ? `; did you mean ${suggestions.map(name => `"${name}"`).join(', ')}?` : '')
+            + (available.length > 0 ? ` Available properties: ${available.join(', ')}` : ''),
+          available
+        );
+      }
+      
+      // A property missing from some union members may be absent
+      optional = found.length < values.length || found.some(property => !!(property.flags & ts.SymbolFlags.Optional));
+      types = found.flatMap(property => this.flatten(this.unwrapSchema(this.checker.getTypeOfSymbolAtLocation(property, this.sourceFile))));
+      resolved = resolved === typeName ? `${typeName}.${step.property}` : `${resolved}.${step.property}`;
+    }
+    
+    optional = optional || types.some(type => !!(type.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+    const nullable = types.some(type => !!(type.flags & ts.TypeFlags.Null));
+    const type = this.typeText(types);
+    const flags = [optional ? 'optional' : '', nullable ? 'nullable' : ''].filter(Boolean).join(', ');
+    
+    const result: TypePropertyResult = {
+      exists: true,
+      typeName,
+      propertyPath,
+      optional,
+      nullable,
+      type,
+      availableProperties: [],
+      message: `Property "${propertyPath}" of "${typeName}" has type ${type}${flags ? ` (${flags})` : ''}`
+    };
+    
+    if (expectedType !== undefined) {
+      result.expectedType = expectedType;
+      result.matchesExpected = this.matchesExpectedType(types, expectedType);
+      if (!result.matchesExpected) {
+        result.message = `Property "${propertyPath}" of "${typeName}" has type ${type}, expected ${expectedType}`;
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * The type a symbol stands for: the declared type of types, the type of values
+   */
+  private getSymbolType(symbol: ts.Symbol): ts.Type {
+    if (symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias | ts.SymbolFlags.Class | ts.SymbolFlags.Enum)) {
+      return this.checker.getDeclaredTypeOfSymbol(symbol);
+    }
+    
+    return this.checker.getTypeOfSymbolAtLocation(symbol, this.sourceFile);
+  }
+  
+  /**
+   * The parsed type of a Zod schema (its `_output`), or the type itself
+   */
+  private unwrapSchema(type: ts.Type): ts.Type {
+    const output = type.getProperty('_output');
+    if (!output || !type.getProperty('_def')) {
+      return type;
+    }
+    
+    return this.checker.getTypeOfSymbolAtLocation(output, this.sourceFile);
+  }
+  
+  /**
+   * Union members of a type, or the type itself
+   */
+  private flatten(type: ts.Type): ts.Type[] {
+    // Enums are unions of their members, but are kept whole to read as `Status`
+    if (type.isUnion() && !type.types.every(member => member.flags & ts.TypeFlags.EnumLiteral)) {
+      return type.types.flatMap(member => this.flatten(member));
+    }
+    
+    return [type];
+  }
+  
+  /**
+   * Text of a set of union members, without `undefined` (reported as optional)
+   * and with `true | false` as `boolean`
+   */
+  private typeText(types: ts.Type[]): string {
+    // `null` goes last, the way unions are usually written
+    const texts = uniqueNames(types
+      .filter(type => !(type.flags & ts.TypeFlags.Undefined))
+      .sort((a, b) => Number(!!(a.flags & ts.TypeFlags.Null)) - Number(!!(b.flags & ts.TypeFlags.Null)))
+      .map(type => this.checker.typeToString(type)));
+    
+    if (texts.includes('true') && texts.includes('false')) {
+      const index = Math.min(texts.indexOf('true'), texts.indexOf('false'));
+      texts.splice(0, texts.length, ...texts.filter(text => text !== 'true' && text !== 'false'));
+      texts.splice(index, 0, 'boolean');
+    }
+    
+    return texts.join(' | ') || 'never';
+  }
+  
+  /**
+   * Compare resolved union members with an expected type written like
+   * `string`, `a string`, `Array<string>` or `'active' | 'revoked' | null`
+   *
+   * Enum members also match their values, so `Status` matches `'active' | 'revoked'`.
+   */
+  private matchesExpectedType(types: ts.Type[], expectedType: string): boolean {
+    const expected = splitUnion(expectedType.trim().replace(/^(an?|the)\s+/i, '')).map(normalizeTypeText);
+    const includeUndefined = expected.includes('undefined');
+    
+    // Enums match by name (`Status`) or member by member
+    const members = types
+      .filter(type => includeUndefined || !(type.flags & ts.TypeFlags.Undefined))
+      .flatMap(type => type.isUnion() && !expected.includes(normalizeTypeText(this.checker.typeToString(type))) ? type.types : [type]);
+    
+    // Each member is a set of accepted spellings
+    const spellings = members.map(member => {
+      const texts = [normalizeTypeText(this.checker.typeToString(member))];
+      if (member.isLiteral()) {
+        texts.push(normalizeTypeText(JSON.stringify(member.value)));
+      }
+      if (member.flags & ts.TypeFlags.BooleanLiteral) {
+        texts.push('boolean');
+      }
+      return texts;
+    });
+    
+    return spellings.every(texts => texts.some(text => expected.includes(text)))
+      && expected.every(text => spellings.some(texts => texts.includes(text)));
+  }
+  
+  /**
+   * Names visible in the module: exports first, then local declarations and imports
+   */
+  private getModuleNames(): Map<string, ModuleName> {
+    const names = new Map<string, ModuleName>();
+    const resolve = (symbol: ts.Symbol): ts.Symbol =>
+      symbol.flags & ts.SymbolFlags.Alias ? this.checker.getAliasedSymbol(symbol) : symbol;
+    
+    const moduleSymbol = this.checker.getSymbolAtLocation(this.sourceFile);
+    if (moduleSymbol) {
+      for (const symbol of this.checker.getExportsOfModule(moduleSymbol)) {
+        names.set(symbol.name, { symbol, target: resolve(symbol), exported: true });
+      }
+    }
+    
+    const lastStatement = this.sourceFile.statements[this.sourceFile.statements.length - 1];
+    if (lastStatement) {
+      const meaning = ts.SymbolFlags.Type | ts.SymbolFlags.Value | ts.SymbolFlags.Alias;
+      for (const symbol of this.checker.getSymbolsInScope(lastStatement, meaning)) {
+        const local = symbol.declarations?.some(declaration => declaration.getSourceFile() === this.sourceFile);
+        if (local && !names.has(symbol.name)) {
+          names.set(symbol.name, { symbol, target: resolve(symbol), exported: false });
+        }
+      }
+    }
+    
+    return names;
+  }
+  
+  /**
+   * The declaration that describes a symbol best: type declarations win over a
+   * value of the same name (e.g. `type User = z.infer<typeof User>` next to `const User`)
+   */
+  private getPrimaryDeclaration(symbol: ts.Symbol): ts.Declaration | undefined {
+    const declarations = symbol.declarations || [];
+    
+    return declarations.find(declaration =>
+      ts.isInterfaceDeclaration(declaration) ||
+      ts.isTypeAliasDeclaration(declaration) ||
+      ts.isClassDeclaration(declaration) ||
+      ts.isEnumDeclaration(declaration)
+    ) || declarations[0];
+  }
+  
+  /**
+   * Classify a declaration
+   */
+  private getDeclarationKind(declaration: ts.Declaration, symbol: ts.Symbol): TypeDeclarationKind | undefined {
+    if (ts.isInterfaceDeclaration(declaration)) {
+      return 'interface';
+    }
+    if (ts.isTypeAliasDeclaration(declaration)) {
+      return getInferredSchemaName(declaration) ? 'zod-infer' : 'type';
+    }
+    if (ts.isClassDeclaration(declaration)) {
+      return 'class';
+    }
+    if (ts.isEnumDeclaration(declaration)) {
+      return 'enum';
+    }
+    if (ts.isVariableDeclaration(declaration)) {
+      return this.isZodSchema(declaration, symbol) ? 'zod-schema' : 'variable';
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Whether a variable holds a Zod schema, from its type when zod can be resolved
+   * and from its initializer otherwise
+   */
+  private isZodSchema(declaration: ts.VariableDeclaration, symbol: ts.Symbol): boolean {
+    const type = this.checker.getTypeOfSymbolAtLocation(symbol, declaration);
+    if (type.getProperty('_def') && type.getProperty('safeParse')) {
+      return true;
+    }
+    
+    return !!declaration.initializer
+      && new SchemaInterpreter(declaration.getSourceFile()).isSchemaExpression(unwrapExpression(declaration.initializer));
+  }
+}
+
+/**
+ * Name of the schema in `z.infer<typeof Schema>` (also `z.input`/`z.output`)
+ */
+function getInferredSchemaName(declaration: ts.TypeAliasDeclaration): string | undefined {
+  const type = declaration.type;
+  if (!ts.isTypeReferenceNode(type) || !type.typeArguments || type.typeArguments.length !== 1) {
+    return undefined;
+  }
+  
+  const helper = ts.isQualifiedName(type.typeName) ? type.typeName.right.text : type.typeName.text;
+  const argument = type.typeArguments[0];
+  
+  if (!INFER_HELPERS.has(helper) || !ts.isTypeQueryNode(argument)) {
+    return undefined;
+  }
+  
+  return argument.exprName.getText(declaration.getSourceFile());
+}
+
+/**
+ * Parse a property path like `user.email`, `body[].permissions` or `roles[0].name`
+ *
+ * Returns undefined for malformed paths.
+ */
+function parsePropertyPath(propertyPath: string): PathStep[] | undefined {
+  const steps: PathStep[] = [];
+  const pattern = /\.?([A-Za-z_$][\w$-]*)|\[(\d*)\]|\.?"([^"]+)"/y;
+  let index = 0;
+  
+  while (index < propertyPath.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(propertyPath);
+    if (!match || (index === 0 && propertyPath[0] === '.')) {
+      return undefined;
+    }
+    
+    steps.push(match[2] !== undefined ? { element: true } : { property: match[1] ?? match[3] });
+    index = pattern.lastIndex;
+  }
+  
+  return steps.length > 0 ? steps : undefined;
+}
+
+/**
+ * Split a union type text on its top-level `|`
+ */
+function splitUnion(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  
+  for (const char of text) {
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if ('<([{'.includes(char)) {
+      depth++;
+    } else if ('>)]}'.includes(char)) {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  
+  return parts.map(part => part.trim()).filter(part => part.length > 0);
+}
+
+/**
+ * Normalize a type text for comparison: double quotes, `T[]` for `Array<T>`, no whitespace
+ */
+function normalizeTypeText(text: string): string {
+  let normalized = text.replace(/\s+/g, '').replace(/'/g, '"');
+  
+  // Array<T> → T[], innermost first
+  let previous;
+  do {
+    previous = normalized;
+    normalized = normalized.replace(/Array<([^<>|]+)>/g, '$1[]').replace(/Array<([^<>]+)>/g, '($1)[]');
+  } while (normalized !== previous);
+  
+  return normalized;
+}
+
+/**
+ * Unique names, in order of first occurrence
+ */
+function uniqueNames(names: string[]): string[] {
+  return Array.from(new Set(names));
+}
+
+/**
+ * Names close to a misspelled name: case-insensitive matches, names containing it,
+ * and names within a small edit distance, closest first
+ */
+export function findClosestNames(name: string, candidates: string[]): string[] {
+  const target = name.toLowerCase();
+  const threshold = Math.max(2, Math.floor(name.length / 3));
+  
+  return candidates
+    .map(candidate => {
+      const lower = candidate.toLowerCase();
+      const distance = lower === target ? 0
+        : lower.includes(target) || target.includes(lower) ? 1
+          : editDistance(lower, target);
+      return { candidate, distance };
+    })
+    .filter(({ candidate, distance }) => candidate !== name && distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  
+  return previous[b.length];
+}
@@ -1,7 +1,52 @@
 import { BaseAdapter } from '@craftapit/tester';
 import * as path from 'path';
+import * as http from 'http';
 import * as fs from 'fs/promises';
+import { execFileSync } from 'child_process';
 import * as ts from 'typescript';
+import {
+  SchemaInterpreter,
+  SchemaNode,
+  NOT_STATIC,
+  describeSchemaType,
+  evaluateLiteral,
+  getPropertyName,
+  isSchemaNode,
+  unwrapExpression
+} from './SchemaInterpreter';
+import { SchemaValidator, SchemaIssue } from './SchemaValidator';
+import {
+  ValidationIssue,
+  ValidationSeverity,
+  SourceLocation,
+  createIssue,
+  toJsonPointer,
+  summarizeIssues
+} from './ValidationIssue';
+import {
+  ContractDiscovery,
+  DiscoveredContract,
+  createContractId,
+  DEFAULT_CONTRACT_INCLUDE,
+  DEFAULT_CONTRACT_EXCLUDE
+} from './ContractDiscovery';
+import { RouteMatcher } from './RouteMatcher';
+import { MockDataGenerator, CustomGenerator } from './MockDataGenerator';
+import { TypeGenerator } from './TypeGenerator';
+import { TypeInspector, TypeExistenceResult, TypePropertyResult } from './TypeInspector';
+import { OpenAPIExporter, OpenAPIExportOptions, OpenAPIDocument, OpenAPIContractSource } from './OpenAPIExporter';
+import { OpenAPIImporter, OpenAPIImportOptions, parseOpenAPIDocument } from './OpenAPIImporter';
+import { JsonSchemaExporter, JsonSchemaExportOptions, ContractJsonSchema } from './JsonSchemaExporter';
+import { ContractDiffer, ContractDiffReport, ContractSnapshot } from './ContractDiffer';
+import { SeededRandom } from './SeededRandom';
+import { MockServer, MockServerRequest, MockServerResponse } from './MockServer';
+import { sendHttpRequest, parseBody } from './HttpTransport';
+import { ContractProxy, RecordedExchange, redactExchange } from './ContractProxy';
+
+/**
+ * Instant returned by the default mock clock
+ */
+const DEFAULT_MOCK_TIME = Date.UTC(2024, 0, 1);
 
 /**
  * Configuration options for the TypedAPI adapter
@@ -12,12 +57,25 @@ export interface TypedAPIAdapterConfig {
    */
   contractsBasePath?: string;
   
+  /**
+   * Glob patterns (relative to the contracts base path) of contract files to discover.
+   * Defaults to every `.ts` file in any directory; narrow it to e.g. `*.contracts.ts` files
+   */
+  include?: string[];
+  
+  /**
+   * Glob patterns (relative to the contracts base path) of files and directories to skip.
+   * Defaults to `node_modules` directories and `.d.ts` files
+   */
+  exclude?: string[];
+  
   /**
    * Validation options
    */
   validation?: {
     /**
-     * Whether to use strict mode for validation
+     * Whether to use strict mode for validation, reporting properties not declared
+     * in the contract schemas as errors instead of warnings
      */
     strictMode?: boolean;
     
@@ -35,6 +93,12 @@ export interface TypedAPIAdapterConfig {
      * Whether to validate path parameters
      */
     validatePaths?: boolean;
+    
+    /**
+     * Whether to report conventional response shape hints
+     * (e.g. a "data" wrapper on GET 200 responses) in `details.hints`
+     */
+    responseHints?: boolean;
   };
   
   /**
@@ -42,27 +106,118 @@ export interface TypedAPIAdapterConfig {
    */
   mock?: {
     /**
-     * Whether to generate realistic data for mocks
+     * Whether to generate realistic data for mocks, chosen from the field name
+     * and format; when off, minimal valid placeholders are generated
      */
     generateRealisticData?: boolean;
     
     /**
-     * Locale for generated data
+     * Locale for generated data (bundled: en-US, de-DE, fr-FR)
      */
     locale?: string;
     
     /**
-     * Seed for consistent mock generation
+     * Seed for consistent mock generation; the same seed and contract
+     * always produce the same mocks
      */
     seed?: number;
     
     /**
-     * Custom generators for specific field types
+     * Clock used for generated dates. Defaults to a fixed instant
+     * (2024-01-01T00:00:00Z) so mocks are reproducible
+     */
+    clock?: () => Date;
+    
+    /**
+     * Custom generators keyed by `<contractId>:<path>` (e.g. `users/get:user.id`),
+     * field name (e.g. `email`) or string format (e.g. `uuid`), in that order of precedence.
+     * They receive the seeded random source, the path, the schema and the parent object;
+     * values that don't satisfy the schema are replaced and reported as warnings
+     */
+    customGenerators?: Record<string, CustomGenerator>;
+  };
+  
+  /**
+   * Local mock HTTP server answering requests from the contracts
+   */
+  mockServer?: {
+    /**
+     * Whether to start the server on `initialize()`; it is stopped on `cleanup()`
+     * @default false
+     */
+    enabled?: boolean;
+    
+    /**
+     * Port to listen on; 0 picks a free port
+     * @default 0
+     */
+    port?: number;
+    
+    /**
+     * Host to listen on
+     * @default '127.0.0.1'
+     */
+    host?: string;
+    
+    /**
+     * Responses forced for a route, keyed by contract ID (e.g. `users/get`)
+     * or method and path template (e.g. `GET /users/:userId`)
+     */
+    overrides?: Record<string, MockRouteOverride>;
+  };
+  
+  /**
+   * Local proxy validating live traffic against the contracts
+   */
+  proxy?: {
+    /**
+     * Whether to start the proxy on `initialize()`; it is stopped on `cleanup()`
+     * @default false
+     */
+    enabled?: boolean;
+    
+    /**
+     * Base URL of the backend requests are forwarded to, e.g. `http://localhost:8080`
+     */
+    target?: string;
+    
+    /**
+     * Port to listen on; 0 picks a free port
+     * @default 0
+     */
+    port?: number;
+    
+    /**
+     * Host to listen on
+     * @default '127.0.0.1'
+     */
+    host?: string;
+    
+    /**
+     * File violations are appended to, one JSON object per line
      */
-    customGenerators?: Record<string, () => any>;
+    violationLog?: string;
+    
+    /**
+     * File exchanges are recorded to as fixtures, one JSON object per line,
+     * for `replayExchanges`
+     */
+    recordPath?: string;
+    
+    /**
+     * Headers whose values are replaced with `[REDACTED]` in recordings, so credentials
+     * don't end up in fixtures; `false` records every header as received
+     * @default CREDENTIAL_HEADERS (authorization, cookie, set-cookie, x-api-key, ...)
+     */
+    redactHeaders?: string[] | false;
   };
 }
 
+/**
+ * Options for starting the proxy, overriding the `proxy` configuration
+ */
+export type StartProxyOptions = Omit<NonNullable<TypedAPIAdapterConfig['proxy']>, 'enabled'>;
+
 /**
  * Validation result interface
  */
@@ -82,10 +237,16 @@ export interface ValidationResult {
    */
   warnings?: string[];
   
+  /**
+   * Structured issues; `errors` and `warnings` are derived from these
+   */
+  issues?: ValidationIssue[];
+  
   /**
    * Details about what was validated
    */
   details?: {
+    contractId?: string;
     contractName?: string;
     path?: string;
     method?: string;
@@ -113,1074 +274,3805 @@ export interface GeneratedTypes {
    * Source file path
    */
   sourcePath: string;
+  
+  /**
+   * Path of the written module, when an output directory was given
+   */
+  outputPath?: string;
 }
 
 /**
- * Mock response interface
+ * Options for type generation
  */
-export interface MockResponse {
+export interface GenerateTypesOptions {
   /**
-   * The mock data
+   * Directory to write the module to, as `<contractId>.d.ts`
+   * (e.g. `admin/api-key/get.d.ts`); relative paths are resolved from the working directory
    */
-  data: any;
-  
+  outputDir?: string;
+}
+
+/**
+ * Options for the OpenAPI export
+ */
+export interface ExportOpenAPIOptions extends OpenAPIExportOptions {
   /**
-   * Type information about the mock
+   * File to write the document to; relative paths are resolved from the working directory
    */
-  type: string;
+  outputPath?: string;
   
   /**
-   * Whether the mock was generated successfully
+   * Only export the contracts matching this filter
    */
-  success: boolean;
+  filter?: ContractFilter;
 }
 
 /**
- * TypedAPI adapter for Craft-a-Tester
+ * Result of an OpenAPI export
  */
-export class TypedAPIAdapter extends BaseAdapter {
-  private contractsBasePath: string;
-  private validation: Required<NonNullable<TypedAPIAdapterConfig['validation']>>;
-  private mock: Required<NonNullable<TypedAPIAdapterConfig['mock']>>;
-  
+export interface OpenAPIExportResult {
   /**
-   * TypeScript program for type checking
+   * The OpenAPI 3.1 document
    */
-  private program: ts.Program | null = null;
+  document: OpenAPIDocument;
   
   /**
-   * Type checker for TypeScript analysis
+   * The document serialized as JSON or YAML
    */
-  private typeChecker: ts.TypeChecker | null = null;
+  content: string;
   
-  constructor(config: TypedAPIAdapterConfig = {}) {
-    super(config);
-    
-    this.contractsBasePath = config.contractsBasePath || './contracts';
-    
-    this.validation = {
-      strictMode: config.validation?.strictMode ?? true,
-      allowExtraProperties: config.validation?.allowExtraProperties ?? false,
-      validateTypes: config.validation?.validateTypes ?? true,
-      validatePaths: config.validation?.validatePaths ?? true,
-      ...config.validation
-    };
-    
-    this.mock = {
-      generateRealisticData: config.mock?.generateRealisticData ?? true,
-      locale: config.mock?.locale ?? 'en-US',
-      seed: config.mock?.seed ?? Math.floor(Math.random() * 10000),
-      customGenerators: config.mock?.customGenerators ?? {},
-      ...config.mock
-    };
-  }
+  /**
+   * Format of `content`
+   */
+  format: 'json' | 'yaml';
   
   /**
-   * Initialize the adapter
+   * IDs of the exported contracts
    */
-  async initialize(): Promise<void> {
-    console.log('Initializing TypedAPI adapter');
-    
-    // Check if contracts path exists
-    try {
-      await fs.access(this.contractsBasePath);
-    } catch (error) {
-      console.warn(`Contracts path ${this.contractsBasePath} does not exist or is not accessible`);
-    }
-    
-    // Initialize TypeScript compiler
-    this.initTypeScriptCompiler();
-    
-    console.log(`TypedAPI adapter initialized with contracts base path: ${this.contractsBasePath}`);
-    console.log(`Validation config: ${JSON.stringify(this.validation)}`);
-    console.log(`Mock config: ${JSON.stringify(this.mock)}`);
-  }
+  contractIds: string[];
   
   /**
-   * Clean up the adapter
+   * Contracts or operations that could not be exported
    */
-  async cleanup(): Promise<void> {
-    console.log('Cleaning up TypedAPI adapter');
-    this.program = null;
-    this.typeChecker = null;
-  }
+  warnings: string[];
   
   /**
-   * Initialize the TypeScript compiler for type checking
+   * Path of the written file, when an output path was given
    */
-  private initTypeScriptCompiler(): void {
-    const compilerOptions: ts.CompilerOptions = {
-      target: ts.ScriptTarget.ES2020,
-      module: ts.ModuleKind.CommonJS,
-      moduleResolution: ts.ModuleResolutionKind.NodeJs,
-      esModuleInterop: true,
-      allowSyntheticDefaultImports: true,
-      strictNullChecks: true,
-      strictFunctionTypes: true,
-      strictBindCallApply: true,
-      strictPropertyInitialization: true,
-      noImplicitThis: true,
-      noImplicitAny: true,
-      alwaysStrict: true,
-      lib: ['lib.es2020.d.ts'],
-      types: ['node']
-    };
+  outputPath?: string;
+}
 
-    // Create a host object for compilation
-    const host = ts.createCompilerHost(compilerOptions);
+/**
+ * Options for the JSON Schema export
+ */
+export interface ExportJsonSchemaOptions extends JsonSchemaExportOptions {
+  /**
+   * Directory to write the documents to, one `<contract ID>/<schema>.schema.json` file each;
+   * relative paths are resolved from the working directory
+   */
+  outputDir?: string;
+}
 
-    // Get all TypeScript files in the contracts path
-    let fileNames: string[] = [];
-    try {
-      fileNames = this.findContractFiles();
-    } catch (error) {
-      console.warn(`Failed to find contract files: ${error instanceof Error ? error.message : String(error)}`);
-    }
+/**
+ * Result of a JSON Schema export
+ */
+export interface JsonSchemaExportResult {
+  /**
+   * One document per params, query, body and response schema
+   */
+  schemas: ContractJsonSchema[];
+  
+  /**
+   * Absolute paths of the written files, when an output directory was given
+   */
+  files: string[];
+  
+  /**
+   * Contracts or schemas that could not be exported
+   */
+  warnings: string[];
+}
 
-    if (fileNames.length > 0) {
-      this.program = ts.createProgram(fileNames, compilerOptions, host);
-      this.typeChecker = this.program.getTypeChecker();
-      console.log(`TypeScript compiler initialized with ${fileNames.length} files`);
-    } else {
-      console.warn('No TypeScript files found for compilation');
-    }
-  }
+/**
+ * Options for importing an OpenAPI document
+ */
+export interface ImportOpenAPIOptions extends OpenAPIImportOptions {
+  /**
+   * Directory the contract files are written to
+   * @default the contracts base path
+   */
+  outputDir?: string;
+  
+  /**
+   * Replace files that already exist instead of skipping them
+   * @default false
+   */
+  overwrite?: boolean;
+}
 
+/**
+ * Result of an OpenAPI import
+ */
+export interface OpenAPIImportResult {
   /**
-   * Find all TypeScript files in the contracts path
+   * Absolute paths of the written files, contracts and shared schema modules
    */
-  private findContractFiles(): string[] {
-    // This is a simplified implementation
-    // In a real implementation, this would recursively find all TypeScript files
-    try {
-      const contractsDir = require('fs').readdirSync(this.contractsBasePath);
-      return contractsDir
-        .filter((file: string) => file.endsWith('.ts') || file.endsWith('.js'))
-        .map((file: string) => path.resolve(this.contractsBasePath, file));
-    } catch (error) {
-      console.warn(`Failed to read contracts directory: ${error instanceof Error ? error.message : String(error)}`);
-      return [];
-    }
-  }
+  files: string[];
   
   /**
-   * Get the resolved path to a contract
+   * Absolute paths of files that already existed and were left unchanged
    */
-  private resolveContractPath(contractPath: string): string {
-    if (path.isAbsolute(contractPath)) {
-      return contractPath;
-    }
-    
-    return path.resolve(this.contractsBasePath, contractPath);
-  }
+  skipped: string[];
   
   /**
-   * Read and parse a contract file
+   * The generated contracts with the result of validating them
    */
-  private async readContract(contractPath: string): Promise<{
+  contracts: Array<{
+    /**
+     * The operation the contract was generated from, e.g. `GET /users/{userId}`
+     */
+    operation: string;
     path: string;
-    content: string;
-    contract?: any;
-    exportName?: string;
-    sourceFile?: ts.SourceFile;
-  }> {
-    const resolvedPath = this.resolveContractPath(contractPath);
-    
-    try {
-      const content = await fs.readFile(resolvedPath, 'utf-8');
-      
-      // Initialize TypeScript compiler if not already done
-      if (!this.program) {
-        this.initTypeScriptCompiler();
-      }
-      
-      if (!this.program || !this.typeChecker) {
-        return { path: resolvedPath, content };
-      }
-      
-      // Parse the file with TypeScript
-      const sourceFile = this.program.getSourceFile(resolvedPath);
-      if (!sourceFile) {
-        // If file wasn't in the initial program, create a new source file
-        const tempSourceFile = ts.createSourceFile(
-          resolvedPath,
-          content,
-          ts.ScriptTarget.ES2020,
-          true
-        );
-        
-        return { 
-          path: resolvedPath, 
-          content,
-          sourceFile: tempSourceFile
-        };
-      }
-      
-      // Find the Contract export
-      let contract: any = null;
-      let exportName: string | undefined;
-      
-      // Visit all nodes to find the Contract export
-      ts.forEachChild(sourceFile, (node) => {
-        if (ts.isVariableStatement(node)) {
-          const declaration = node.declarationList.declarations[0];
-          if (declaration && ts.isIdentifier(declaration.name)) {
-            const name = declaration.name.getText();
-            if (name === 'Contract') {
-              exportName = name;
-              
-              // Try to extract contract details from the node
-              if (declaration.initializer && ts.isObjectLiteralExpression(declaration.initializer)) {
-                contract = this.extractContractDetails(declaration.initializer);
-              }
-            }
-          }
-        }
-      });
-      
-      return {
-        path: resolvedPath,
-        content,
-        contract,
-        exportName,
-        sourceFile
-      };
-    } catch (error) {
-      throw new Error(`Failed to read contract file ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
+    validation: ValidationResult;
+  }>;
   
   /**
-   * Extract contract details from an object literal expression
+   * Parts of the document that could not be imported as-is
    */
-  private extractContractDetails(node: ts.ObjectLiteralExpression): any {
-    const contract: any = {};
+  warnings: string[];
+}
+
+/**
+ * Mock response interface
+ */
+export interface MockResponse {
+  /**
+   * The mock data
+   */
+  data: any;
+  
+  /**
+   * Type information about the mock
+   */
+  type: string;
+  
+  /**
+   * Whether the mock was generated successfully
+   */
+  success: boolean;
+  
+  /**
+   * Seed the mock was generated with; pass it as `mock.seed` to reproduce the mock
+   */
+  seed?: number;
+  
+  /**
+   * Status code the mock was generated for
+   */
+  statusCode?: number;
+  
+  /**
+   * Why the mock could not be generated
+   */
+  error?: string;
+  
+  /**
+   * Custom generators whose values were rejected by the schema
+   */
+  warnings?: string[];
+}
+
+/**
+ * Mock request interface
+ */
+export interface MockRequest {
+  /**
+   * HTTP method (lower case)
+   */
+  method: string;
+  
+  /**
+   * Concrete URL built from the contract path, params and query
+   */
+  url: string;
+  
+  /**
+   * Path parameters, encoded as strings the way Express delivers them
+   */
+  params: Record<string, string>;
+  
+  /**
+   * Query parameters, encoded as strings the way Express delivers them
+   */
+  query: Record<string, any>;
+  
+  /**
+   * Request body, if the contract declares one
+   */
+  body?: any;
+  
+  /**
+   * Custom generators whose values were rejected by the schema
+   */
+  warnings?: string[];
+}
+
+/**
+ * Response forced for a route of the mock server
+ *
+ * The request is answered without being validated, so any status can be
+ * simulated (e.g. a 404 for a user that exists).
+ */
+export interface MockRouteOverride {
+  /**
+   * Status to respond with; the body is generated from the contract's schema
+   * for it, unless one is given
+   */
+  status: number;
+  
+  /**
+   * Body to respond with instead of a generated one
+   */
+  body?: any;
+  
+  /**
+   * Additional response headers
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Options for verifying a running API against the contracts
+ */
+export interface VerifyProviderOptions {
+  /**
+   * Contracts to verify, as IDs or paths or as a catalog filter.
+   * Defaults to every discovered contract
+   */
+  contracts?: string[] | ContractFilter;
+  
+  /**
+   * Headers sent with every request
+   */
+  headers?: Record<string, string>;
+  
+  /**
+   * Bearer token sent to contracts requiring authentication, or a hook
+   * returning the token for a contract (e.g. one with the required role)
+   */
+  authToken?: string | ((contract: ContractSummary) => string | undefined | Promise<string | undefined>);
+  
+  /**
+   * Path parameter values by name (e.g. `{ userId: '6f1c...' }`) replacing the generated ones,
+   * or a hook returning them for a contract, so requests address fixtures that exist
+   */
+  params?: Record<string, string> | ((contract: ContractSummary) => Record<string, string> | undefined | Promise<Record<string, string> | undefined>);
+  
+  /**
+   * Called before each request is sent; may change the request
+   */
+  beforeEach?: (request: ProviderRequest, contract: ContractSummary) => void | Promise<void>;
+  
+  /**
+   * Milliseconds to wait for each response
+   * @default 10000
+   */
+  timeout?: number;
+}
+
+/**
+ * A request sent to the API under verification
+ */
+export interface ProviderRequest {
+  /**
+   * HTTP method (upper case)
+   */
+  method: string;
+  
+  /**
+   * Absolute URL
+   */
+  url: string;
+  
+  headers: Record<string, string>;
+  
+  body?: any;
+}
+
+/**
+ * Outcome of verifying one contract against the API
+ */
+export interface ProviderContractResult {
+  contractId: string;
+  method: string;
+  path: string;
+  
+  /**
+   * Whether the API answered with a success status and a response satisfying the contract
+   */
+  passed: boolean;
+  
+  /**
+   * The request sent, once it could be built
+   */
+  request?: ProviderRequest;
+  
+  /**
+   * Status the API answered with
+   */
+  status?: number;
+  
+  durationMs: number;
+  
+  /**
+   * Why the contract failed
+   */
+  errors: string[];
+  
+  /**
+   * Result of validating the response against the contract
+   */
+  validation?: ValidationResult;
+}
+
+/**
+ * Result of verifying a running API against the contracts
+ */
+export interface ProviderVerificationReport {
+  baseUrl: string;
+  
+  /**
+   * Whether every contract passed
+   */
+  passed: boolean;
+  
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+  };
+  
+  /**
+   * One result per contract, in catalog order
+   */
+  results: ProviderContractResult[];
+}
+
+/**
+ * Result of validating a recorded request and response against their contract
+ */
+export interface ExchangeValidation {
+  /**
+   * HTTP method (upper case)
+   */
+  method: string;
+  
+  /**
+   * Path and query string
+   */
+  url: string;
+  
+  status: number;
+  
+  /**
+   * Whether a contract was found for the method and path
+   */
+  matched: boolean;
+  
+  contractId?: string;
+  
+  /**
+   * Whether both the request and the response satisfy the contract
+   */
+  valid: boolean;
+  
+  request?: ValidationResult;
+  response?: ValidationResult;
+  
+  /**
+   * Violations, prefixed with `request:` or `response:`, or why no contract matched
+   */
+  errors: string[];
+}
+
+/**
+ * Result of validating a set of recorded exchanges
+ */
+export interface ExchangeReport {
+  /**
+   * Whether every exchange matched a contract and satisfied it
+   */
+  passed: boolean;
+  
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    unmatched: number;
+  };
+  
+  /**
+   * One result per exchange, in recording order
+   */
+  results: ExchangeValidation[];
+  
+  /**
+   * Errors of the proxy itself, e.g. a backend that could not be reached;
+   * the report does not pass when there are any
+   */
+  errors?: string[];
+}
+
+/**
+ * Options for the contract enforcement middleware
+ */
+export interface ContractMiddlewareOptions {
+  /**
+   * What happens on a violation; results are collected in every mode
+   * - `fail-fast`: invalid requests and responses are passed to `next` as an error
+   *   (a 500 in Express); an invalid response body is not sent
+   * - `log`: violations are logged and the exchange continues
+   * - `collect`: violations are only collected
+   * @default 'collect'
+   */
+  mode?: 'fail-fast' | 'log' | 'collect';
+}
+
+/**
+ * The parts of an Express/Connect request the middleware reads
+ */
+export interface MiddlewareRequest {
+  method?: string;
+  url?: string;
+  originalUrl?: string;
+  params?: Record<string, string>;
+  query?: any;
+  body?: any;
+}
+
+/**
+ * The parts of an Express/Connect response the middleware uses
+ *
+ * Responses are validated when they are sent with `res.json` (or `res.send`
+ * with an object, which Express sends with `res.json`).
+ */
+export interface MiddlewareResponse {
+  statusCode: number;
+  json?: (body: any) => any;
+  
+  /**
+   * Headers set so far, validated with the body when available
+   */
+  getHeaders?: () => Record<string, number | string | string[] | undefined>;
+}
+
+/**
+ * A validation done by the middleware
+ */
+export interface ContractMiddlewareResult {
+  contractId: string;
+  
+  /**
+   * HTTP method (upper case)
+   */
+  method: string;
+  
+  url: string;
+  
+  /**
+   * Whether the incoming request or the outgoing response was validated
+   */
+  phase: 'request' | 'response';
+  
+  /**
+   * Status of the response, for responses
+   */
+  status?: number;
+  
+  validation: ValidationResult;
+}
+
+/**
+ * Express/Connect middleware validating requests and responses against the contracts
+ */
+export interface ContractMiddleware {
+  (req: MiddlewareRequest, res: MiddlewareResponse, next: (error?: any) => void): void;
+  
+  /**
+   * Every validation done so far, in order
+   */
+  readonly results: ContractMiddlewareResult[];
+  
+  /**
+   * The validations that failed
+   */
+  violations(): ContractMiddlewareResult[];
+  
+  /**
+   * Forget the collected results, e.g. between tests
+   */
+  reset(): void;
+}
+
+/**
+ * Types of a contract call, e.g. from the module written by `generateTypes`:
+ * `{ params: Params; query: QueryInput; body: Body; response: Response }`
+ */
+export interface ContractCallTypes {
+  params?: any;
+  query?: any;
+  body?: any;
+  
+  /**
+   * Responses discriminated by `status`
+   */
+  response?: { status: number; body: any };
+}
+
+/**
+ * Options for the contract client
+ */
+export interface ContractClientOptions {
+  /**
+   * Throw on violations: requests violating the contract are not sent, and
+   * responses violating it reject the call
+   * @default false
+   */
+  strict?: boolean;
+  
+  /**
+   * Headers sent with every request, e.g. `Authorization`
+   */
+  headers?: Record<string, string>;
+  
+  /**
+   * Milliseconds to wait for each response
+   * @default 10000
+   */
+  timeout?: number;
+}
+
+/**
+ * A call of a contract
+ */
+export interface ContractCallRequest<T extends ContractCallTypes = ContractCallTypes> {
+  /**
+   * Path parameters filled into the contract path
+   */
+  params?: T['params'];
+  
+  /**
+   * Query parameters, serialized into the query string
+   */
+  query?: T['query'];
+  
+  /**
+   * Body, sent as JSON
+   */
+  body?: T['body'];
+  
+  headers?: Record<string, string>;
+}
+
+/**
+ * Result of a contract call: the response, narrowed by `status` when typed,
+ * with the validation of the request and the response
+ */
+export type ContractCallResult<T extends ContractCallTypes = ContractCallTypes> = (
+  T extends { response: { status: number; body: any } } ? T['response'] : { status: number; body: any }
+) & {
+  /**
+   * Response headers, with lower-case names
+   */
+  headers: Record<string, string | string[] | undefined>;
+  
+  /**
+   * The URL the request was sent to
+   */
+  url: string;
+  
+  /**
+   * Whether both the request and the response satisfy the contract
+   */
+  valid: boolean;
+  
+  /**
+   * Violations, prefixed with `request:` or `response:`
+   */
+  errors: string[];
+  
+  validation: {
+    request: ValidationResult;
+    response: ValidationResult;
+  };
+};
+
+/**
+ * A client with one call per contract, keyed by contract ID (e.g. `users/get`)
+ * and by method and path template (e.g. `GET /users/:userId`)
+ */
+export type ContractClient<T extends Record<string, ContractCallTypes> = Record<string, ContractCallTypes>> = {
+  [K in keyof T]: (request?: ContractCallRequest<T[K]>) => Promise<ContractCallResult<T[K]>>;
+};
+
+/**
+ * Options for validating a HAR file
+ */
+export interface ValidateHarOptions {
+  /**
+   * Base URL of the API, e.g. `https://app.example.com/api`; only entries under it are
+   * validated, with the base path removed. Without it, entries whose `_resourceType`
+   * is neither `xhr` nor `fetch` (documents, scripts, images) are skipped
+   */
+  baseUrl?: string;
+}
+
+/**
+ * Result of validating one HAR entry
+ */
+export interface HarEntryResult extends ExchangeValidation {
+  /**
+   * Index of the entry in `log.entries`
+   */
+  index: number;
+  
+  startedDateTime?: string;
+  
+  /**
+   * Whether no contract matches the method and path
+   */
+  undocumented: boolean;
+}
+
+/**
+ * Result of validating a HAR file against the contracts
+ */
+export interface HarValidationReport {
+  file: string;
+  
+  /**
+   * Whether every validated entry matched a contract and satisfied it
+   */
+  passed: boolean;
+  
+  summary: {
+    /**
+     * Entries in the file
+     */
+    total: number;
+    valid: number;
+    invalid: number;
+    undocumented: number;
+    
+    /**
+     * Entries left out: outside the base URL, not API calls or without a response
+     */
+    skipped: number;
+  };
+  
+  /**
+   * One result per validated entry, in file order
+   */
+  entries: HarEntryResult[];
+  
+  /**
+   * Distinct undocumented endpoints, e.g. `GET /users/42/avatar`
+   */
+  undocumented: string[];
+}
+
+/**
+ * Catalog entry describing a discovered contract
+ */
+export interface ContractSummary {
+  /**
+   * Stable contract ID derived from the relative path
+   */
+  id: string;
+  
+  /**
+   * Absolute path to the contract file
+   */
+  file: string;
+  
+  /**
+   * HTTP method (lower case)
+   */
+  method: string;
+  
+  /**
+   * API path, e.g. `/users/:userId`
+   */
+  path: string;
+  
+  /**
+   * Contract tags
+   */
+  tags: string[];
+  
+  /**
+   * Contract summary
+   */
+  summary?: string;
+  
+  /**
+   * Contract description
+   */
+  description?: string;
+  
+  /**
+   * Authentication and authorization requirements
+   */
+  auth: {
+    requiresAuthentication: boolean;
+    roles: string[];
+    scopes: string[];
+  };
+  
+  /**
+   * Declared response status codes
+   */
+  statusCodes: number[];
+  
+  /**
+   * Whether the contract declares params, query and body schemas
+   */
+  hasParams: boolean;
+  hasQuery: boolean;
+  hasBody: boolean;
+}
+
+/**
+ * Result of resolving a method + concrete URL to a contract
+ */
+export interface ContractRouteMatch {
+  /**
+   * Whether exactly one contract matches
+   */
+  matched: boolean;
+  
+  /**
+   * The matching contract
+   */
+  contract?: ContractSummary;
+  
+  /**
+   * Path params and query extracted from the URL, in the shape
+   * `validateRequestAgainstContract` expects
+   */
+  request?: {
+    params: Record<string, string>;
+    query: Record<string, string | string[]>;
+  };
+  
+  /**
+   * Equally specific contracts when the match is ambiguous
+   */
+  ambiguous?: ContractSummary[];
+  
+  /**
+   * Methods declared for the path when no contract matches the method
+   */
+  allowedMethods?: string[];
+  
+  /**
+   * Explanation when no unique contract matches
+   */
+  message?: string;
+}
+
+/**
+ * Filter for querying the contract catalog
+ *
+ * All given criteria must match; list values match if any entry matches.
+ */
+export interface ContractFilter {
+  /**
+   * Contracts having this tag (or any of these tags)
+   */
+  tag?: string | string[];
+  
+  /**
+   * Contracts using this HTTP method (or any of these methods), case-insensitive
+   */
+  method?: string | string[];
+  
+  /**
+   * Contracts authorizing this role (or any of these roles)
+   */
+  role?: string | string[];
+  
+  /**
+   * Contracts whose path starts with this prefix, matched on whole segments
+   */
+  pathPrefix?: string;
+}
+
+/**
+ * One side of a contract comparison: a contract file or a directory of contracts,
+ * read from the working tree or from a git revision
+ */
+export type ContractTreeSource = string | {
+  /**
+   * Contract ID, file or directory, resolved like other contract paths
+   */
+  path: string;
+  
+  /**
+   * Git revision to read the file or directory at, e.g. `main` or `HEAD~1`
+   */
+  revision?: string;
+};
+
+/**
+ * TypedAPI adapter for Craft-a-Tester
+ */
+export class TypedAPIAdapter extends BaseAdapter {
+  private contractsBasePath: string;
+  private include: string[];
+  private exclude: string[];
+  private validation: Required<NonNullable<TypedAPIAdapterConfig['validation']>>;
+  private mock: Required<NonNullable<TypedAPIAdapterConfig['mock']>>;
+  private mockServerConfig: Required<NonNullable<TypedAPIAdapterConfig['mockServer']>>;
+  private proxyConfig: NonNullable<TypedAPIAdapterConfig['proxy']>;
+  
+  /**
+   * TypeScript program for type checking
+   */
+  private program: ts.Program | null = null;
+  
+  /**
+   * Type checker for TypeScript analysis
+   */
+  private typeChecker: ts.TypeChecker | null = null;
+  
+  /**
+   * Discovered contracts keyed by contract ID
+   */
+  private contracts: Map<string, DiscoveredContract> = new Map();
+  
+  /**
+   * Route matcher over the discovered contracts, built on first use
+   */
+  private routeMatcher: RouteMatcher<ContractSummary> | null = null;
+  
+  /**
+   * Running mock server, if started
+   */
+  private mockServer: MockServer | null = null;
+  
+  /**
+   * Running proxy, if started
+   */
+  private proxy: ContractProxy | null = null;
+  
+  /**
+   * Validation results of the exchanges forwarded by the proxy since it was started
+   */
+  private proxyResults: ExchangeValidation[] = [];
+  
+  /**
+   * Errors of the proxy since it was started, e.g. a backend that could not be reached
+   */
+  private proxyErrors: string[] = [];
+  
+  constructor(config: TypedAPIAdapterConfig = {}) {
+    super(config);
+    
+    this.contractsBasePath = config.contractsBasePath || './contracts';
+    this.include = config.include ?? DEFAULT_CONTRACT_INCLUDE;
+    this.exclude = config.exclude ?? DEFAULT_CONTRACT_EXCLUDE;
+    
+    this.validation = {
+      strictMode: config.validation?.strictMode ?? true,
+      allowExtraProperties: config.validation?.allowExtraProperties ?? false,
+      validateTypes: config.validation?.validateTypes ?? true,
+      validatePaths: config.validation?.validatePaths ?? true,
+      responseHints: config.validation?.responseHints ?? false,
+      ...config.validation
+    };
+    
+    this.mock = {
+      generateRealisticData: config.mock?.generateRealisticData ?? true,
+      locale: config.mock?.locale ?? 'en-US',
+      seed: config.mock?.seed ?? Math.floor(Math.random() * 10000),
+      clock: config.mock?.clock ?? (() => new Date(DEFAULT_MOCK_TIME)),
+      customGenerators: config.mock?.customGenerators ?? {},
+      ...config.mock
+    };
+    
+    this.mockServerConfig = {
+      enabled: config.mockServer?.enabled ?? false,
+      port: config.mockServer?.port ?? 0,
+      host: config.mockServer?.host ?? '127.0.0.1',
+      overrides: { ...config.mockServer?.overrides }
+    };
+    
+    this.proxyConfig = { ...config.proxy };
+  }
+  
+  /**
+   * Initialize the adapter
+   */
+  async initialize(): Promise<void> {
+    console.log('Initializing TypedAPI adapter');
+    
+    // Check if contracts path exists
+    try {
+      await fs.access(this.contractsBasePath);
+    } catch (error) {
+      console.warn(`Contracts path ${this.contractsBasePath} does not exist or is not accessible`);
+    }
+    
+    // Initialize TypeScript compiler
+    this.initTypeScriptCompiler();
+    
+    console.log(`TypedAPI adapter initialized with contracts base path: ${this.contractsBasePath}`);
+    console.log(`Discovered ${this.contracts.size} contracts (include: ${this.include.join(', ')})`);
+    console.log(`Validation config: ${JSON.stringify(this.validation)}`);
+    console.log(`Mock config: ${JSON.stringify(this.mock)}`);
+    
+    if (this.mockServerConfig.enabled) {
+      await this.startMockServer();
+    }
+    if (this.proxyConfig.enabled) {
+      await this.startProxy();
+    }
+  }
+  
+  /**
+   * Clean up the adapter
+   */
+  async cleanup(): Promise<void> {
+    console.log('Cleaning up TypedAPI adapter');
+    await this.stopMockServer();
+    await this.stopProxy();
+    this.program = null;
+    this.typeChecker = null;
+    this.contracts.clear();
+    this.routeMatcher = null;
+  }
+  
+  /**
+   * Initialize the TypeScript compiler for type checking
+   */
+  private initTypeScriptCompiler(): void {
+    const compilerOptions = this.getCompilerOptions();
+
+    // Create a host object for compilation
+    const host = ts.createCompilerHost(compilerOptions);
+
+    // Get all TypeScript files in the contracts path
+    let fileNames: string[] = [];
+    try {
+      fileNames = this.findContractFiles();
+    } catch (error) {
+      console.warn(`Failed to find contract files: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (fileNames.length > 0) {
+      this.program = ts.createProgram(fileNames, compilerOptions, host);
+      this.typeChecker = this.program.getTypeChecker();
+      console.log(`TypeScript compiler initialized with ${fileNames.length} files`);
+    } else {
+      console.warn('No TypeScript files found for compilation');
+    }
+  }
+  
+  /**
+   * Compiler options used to type check contracts
+   */
+  private getCompilerOptions(): ts.CompilerOptions {
+    return {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.NodeJs,
+      esModuleInterop: true,
+      allowSyntheticDefaultImports: true,
+      strictNullChecks: true,
+      strictFunctionTypes: true,
+      strictBindCallApply: true,
+      strictPropertyInitialization: true,
+      noImplicitThis: true,
+      noImplicitAny: true,
+      alwaysStrict: true,
+      lib: ['lib.es2020.d.ts'],
+      types: ['node']
+    };
+  }
+  
+  /**
+   * Get a type inspector for a contract file, using the shared program when it contains
+   * the file and a program for the file alone otherwise
+   */
+  private async getTypeInspector(contractPath: string): Promise<TypeInspector> {
+    const resolvedPath = this.resolveContractPath(contractPath);
+    await fs.access(resolvedPath);
+    
+    if (!this.program) {
+      this.initTypeScriptCompiler();
+    }
+    
+    let sourceFile = this.program?.getSourceFile(resolvedPath);
+    let checker = this.typeChecker;
+    
+    if (!sourceFile || !checker) {
+      const program = ts.createProgram([resolvedPath], this.getCompilerOptions());
+      sourceFile = program.getSourceFile(resolvedPath);
+      checker = program.getTypeChecker();
+    }
+    
+    if (!sourceFile) {
+      throw new Error(`Could not load ${resolvedPath} for type checking`);
+    }
+    
+    return new TypeInspector(checker, sourceFile);
+  }
+
+  /**
+   * Find all contract files in the contracts path matching the include/exclude patterns
+   */
+  private findContractFiles(): string[] {
+    return this.discoverContracts().map(contract => contract.absolutePath);
+  }
+  
+  /**
+   * Recursively discover contract files and index them by their stable ID
+   */
+  discoverContracts(): DiscoveredContract[] {
+    this.contracts.clear();
+    this.routeMatcher = null;
+    
+    try {
+      const discovery = new ContractDiscovery(this.contractsBasePath, {
+        include: this.include,
+        exclude: this.exclude
+      });
+      
+      for (const contract of discovery.discover()) {
+        this.contracts.set(contract.id, contract);
+      }
+    } catch (error) {
+      console.warn(`Failed to read contracts directory: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    return Array.from(this.contracts.values());
+  }
+  
+  /**
+   * Get the resolved path to a contract
+   *
+   * Accepts a discovered contract ID (e.g. `admin/api-key/get`), a path relative
+   * to the contracts base path, or an absolute path.
+   */
+  private resolveContractPath(contractPath: string): string {
+    const discovered = this.contracts.get(contractPath);
+    if (discovered) {
+      return discovered.absolutePath;
+    }
+    
+    if (path.isAbsolute(contractPath)) {
+      return contractPath;
+    }
+    
+    return path.resolve(this.contractsBasePath, contractPath);
+  }
+  
+  /**
+   * Get the stable ID of a contract from its ID, relative or absolute path
+   */
+  private getContractId(contractPath: string): string {
+    const resolvedPath = this.resolveContractPath(contractPath);
+    
+    for (const contract of this.contracts.values()) {
+      if (contract.absolutePath === resolvedPath) {
+        return contract.id;
+      }
+    }
+    
+    return createContractId(path.relative(path.resolve(this.contractsBasePath), resolvedPath));
+  }
+  
+  /**
+   * Read and parse a contract file
+   */
+  private async readContract(contractPath: string): Promise<{
+    path: string;
+    content: string;
+    contract?: any;
+    contractNode?: ts.ObjectLiteralExpression;
+    exportName?: string;
+    sourceFile?: ts.SourceFile;
+  }> {
+    const resolvedPath = this.resolveContractPath(contractPath);
+    
+    try {
+      const content = await fs.readFile(resolvedPath, 'utf-8');
+      
+      // Initialize TypeScript compiler if not already done
+      if (!this.program) {
+        this.initTypeScriptCompiler();
+      }
+      
+      // Parse the file with TypeScript. Files that aren't part of the program are
+      // parsed on their own, since the contract is read statically either way
+      const sourceFile = this.program?.getSourceFile(resolvedPath) || ts.createSourceFile(
+        resolvedPath,
+        content,
+        ts.ScriptTarget.ES2020,
+        true
+      );
+      const { contract, contractNode, exportName } = this.parseContract(sourceFile, fileName => this.loadSourceFile(fileName));
+      
+      return {
+        path: resolvedPath,
+        content,
+        contract,
+        contractNode,
+        exportName,
+        sourceFile
+      };
+    } catch (error) {
+      throw new Error(`Failed to read contract file ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Find the `Contract` export of a parsed contract file and read its details
+   * @param loadModule Loads the modules the contract imports schemas from
+   */
+  private parseContract(sourceFile: ts.SourceFile, loadModule: (fileName: string) => ts.SourceFile | undefined): {
+    contract: any;
+    contractNode?: ts.ObjectLiteralExpression;
+    exportName?: string;
+  } {
+    const interpreter = new SchemaInterpreter(sourceFile, { loadModule });
+    
+    // Find the Contract export
+    let contract: any = null;
+    let contractNode: ts.ObjectLiteralExpression | undefined;
+    let exportName: string | undefined;
+    
+    // Visit all nodes to find the Contract export
+    ts.forEachChild(sourceFile, (node) => {
+      if (ts.isVariableStatement(node)) {
+        const declaration = node.declarationList.declarations[0];
+        if (declaration && ts.isIdentifier(declaration.name)) {
+          const name = declaration.name.text;
+          if (name === 'Contract') {
+            exportName = name;
+            
+            // Try to extract contract details from the node
+            const initializer = declaration.initializer && unwrapExpression(declaration.initializer);
+            if (initializer && ts.isObjectLiteralExpression(initializer)) {
+              contractNode = initializer;
+              contract = this.extractContractDetails(initializer, interpreter);
+            }
+          }
+        }
+      }
+    });
+    
+    return { contract, contractNode, exportName };
+  }
+  
+  /**
+   * Load a module imported by a contract, e.g. shared schemas, from the program or from disk
+   */
+  private loadSourceFile(fileName: string): ts.SourceFile | undefined {
+    const sourceFile = this.program?.getSourceFile(fileName);
+    if (sourceFile) {
+      return sourceFile;
+    }
+    
+    const content = ts.sys.fileExists(fileName) ? ts.sys.readFile(fileName) : undefined;
+    return content === undefined ? undefined : ts.createSourceFile(fileName, content, ts.ScriptTarget.ES2020, true);
+  }
+  
+  /**
+   * Extract contract details from an object literal expression
+   */
+  private extractContractDetails(node: ts.ObjectLiteralExpression, interpreter: SchemaInterpreter): any {
+    const contract: any = {};
+    
+    // Extract properties from the object literal
+    node.properties.forEach(property => {
+      if (ts.isPropertyAssignment(property)) {
+        contract[getPropertyName(property.name)] = this.extractValue(property.initializer, interpreter);
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        contract[property.name.text] = this.extractValue(property.name, interpreter);
+      }
+    });
+    
+    return contract;
+  }
+  
+  /**
+   * Extract array details from an array literal expression
+   */
+  private extractArrayDetails(node: ts.ArrayLiteralExpression, interpreter: SchemaInterpreter): any[] {
+    return node.elements.map(element => this.extractValue(element, interpreter));
+  }
+  
+  /**
+   * Extract a single contract value. Zod expressions become schema nodes, identifiers
+   * are resolved within the file, and literals, objects and arrays are read as values
+   */
+  private extractValue(expression: ts.Expression, interpreter: SchemaInterpreter): any {
+    if (interpreter.isSchemaExpression(expression)) {
+      return interpreter.interpret(expression);
+    }
+    
+    const node = interpreter.resolveValue(expression);
+    
+    if (ts.isObjectLiteralExpression(node)) {
+      // Handle nested objects recursively
+      return this.extractContractDetails(node, interpreter);
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+      return this.extractArrayDetails(node, interpreter);
+    }
+    
+    const value = evaluateLiteral(node);
+    if (value !== NOT_STATIC) {
+      return value;
+    }
+    
+    // For other expressions, just store the text
+    return node.getText(node.getSourceFile());
+  }
+  
+  /**
+   * Get the schema found at a property path of the extracted contract
+   * (e.g. `['params']` or `['response', '200', 'schema']`)
+   */
+  private getContractSchema(contract: any, propertyPath: string[]): SchemaNode | undefined {
+    let current = contract;
+    for (const propertyName of propertyPath) {
+      if (!current || typeof current !== 'object') {
+        return undefined;
+      }
+      current = current[propertyName];
+    }
+    
+    return isSchemaNode(current) ? current : undefined;
+  }
+  
+  /**
+   * Declared responses of a contract, sorted by status code
+   */
+  private getContractResponses(contract: any): Array<{ status: number; description?: string; schema?: SchemaNode }> {
+    return Object.keys(contract.response || {})
+      .map(status => parseInt(status, 10))
+      .filter(status => !isNaN(status))
+      .sort((a, b) => a - b)
+      .map(status => ({
+        status,
+        description: typeof contract.response[status]?.description === 'string' ? contract.response[status].description : undefined,
+        schema: this.getContractSchema(contract, ['response', status.toString(), 'schema'])
+      }));
+  }
+  
+  /**
+   * Schema for the path parameters of a path template without a params schema,
+   * where every parameter arrives as a string
+   */
+  private getPathParamsSchema(apiPath: string): SchemaNode | undefined {
+    const shape: Record<string, SchemaNode> = {};
+    for (const [, name, optional] of apiPath.matchAll(/\:([a-zA-Z0-9_]+)(\?)?/g)) {
+      const value: SchemaNode = { kind: 'string', checks: [] };
+      shape[name] = optional ? { kind: 'optional', inner: value } : value;
+    }
+    
+    return Object.keys(shape).length > 0 ? { kind: 'object', shape, unknownKeys: 'strip' } : undefined;
+  }
+  
+  /**
+   * Encode request values the way Express hands them to the route handler:
+   * numbers and booleans arrive as strings
+   */
+  private encodeRequestValues(values: any): any {
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return values;
+    }
+    
+    const encoded: Record<string, any> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        encoded[key] = String(value);
+      } else if (Array.isArray(value)) {
+        encoded[key] = value.map(item => typeof item === 'number' || typeof item === 'boolean' ? String(item) : item);
+      } else {
+        encoded[key] = value;
+      }
+    }
+    return encoded;
+  }
+  
+  /**
+   * Get the source location of a contract property (e.g. `['response', '200']`),
+   * falling back to the Contract declaration itself
+   */
+  private getContractLocation(
+    contractInfo: { path: string; sourceFile?: ts.SourceFile; contractNode?: ts.ObjectLiteralExpression },
+    propertyPath: string[] = []
+  ): SourceLocation | undefined {
+    const { sourceFile, contractNode } = contractInfo;
+    if (!sourceFile || !contractNode) {
+      return undefined;
+    }
+    
+    let node: ts.Node = contractNode;
+    for (const propertyName of propertyPath) {
+      if (!ts.isObjectLiteralExpression(node)) {
+        break;
+      }
+      const property: ts.ObjectLiteralElementLike | undefined = node.properties.find(property =>
+        ts.isPropertyAssignment(property) && getPropertyName(property.name) === propertyName
+      );
+      if (!property || !ts.isPropertyAssignment(property)) {
+        break;
+      }
+      node = property.initializer;
+    }
+    
+    return this.toSourceLocation(contractInfo.path, sourceFile, node);
+  }
+  
+  /**
+   * Convert a node position to a 1-based source location
+   */
+  private toSourceLocation(file: string, sourceFile: ts.SourceFile, node: ts.Node): SourceLocation {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return { file, line: line + 1, column: character + 1 };
+  }
+  
+  /**
+   * Convert a schema finding to a validation issue
+   */
+  private toValidationIssue(
+    prefix: string,
+    issue: SchemaIssue,
+    severity: ValidationSeverity,
+    file: string
+  ): ValidationIssue {
+    return createIssue(`${prefix}.${issue.code}`, severity, issue.message, {
+      dataPath: issue.pointer,
+      location: issue.location ? { file, ...issue.location } : undefined,
+      expected: issue.expected,
+      received: issue.received
+    });
+  }
+  
+  /**
+   * Build a validation result from its issues
+   */
+  private createValidationResult(issues: ValidationIssue[], details?: ValidationResult['details']): ValidationResult {
+    return {
+      success: !issues.some(issue => issue.severity === 'error'),
+      ...summarizeIssues(issues),
+      issues,
+      details
+    };
+  }
+  
+  /**
+   * List the discovered contracts, optionally filtered
+   */
+  async listContracts(filter: ContractFilter = {}): Promise<ContractSummary[]> {
+    if (this.contracts.size === 0) {
+      this.discoverContracts();
+    }
+    
+    // Reading a contract may rediscover the contracts, so iterate over a copy
+    const summaries: ContractSummary[] = [];
+    for (const discovered of Array.from(this.contracts.values())) {
+      try {
+        const summary = await this.describeContract(discovered.id);
+        if (summary && this.matchesContractFilter(summary, filter)) {
+          summaries.push(summary);
+        }
+      } catch (error) {
+        console.warn(`Failed to read contract ${discovered.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    
+    return summaries;
+  }
+  
+  /**
+   * Look up a single contract by ID or path
+   *
+   * Returns undefined if the file has no readable contract export.
+   */
+  async describeContract(contractPath: string): Promise<ContractSummary | undefined> {
+    const contractInfo = await this.readContract(contractPath);
+    const { contract } = contractInfo;
+    
+    if (!contract) {
+      return undefined;
+    }
+    
+    const authorization = contract.auth?.authorization || {};
+    
+    return {
+      id: this.getContractId(contractPath),
+      file: contractInfo.path,
+      method: typeof contract.method === 'string' ? contract.method.toLowerCase() : '',
+      path: typeof contract.path === 'string' ? contract.path : '',
+      tags: toStringList(contract.tags),
+      summary: typeof contract.summary === 'string' ? contract.summary : undefined,
+      description: typeof contract.description === 'string' ? contract.description : undefined,
+      auth: {
+        requiresAuthentication: contract.auth?.requiresAuthentication === true,
+        roles: toStringList(authorization.roles),
+        scopes: toStringList(authorization.scopes)
+      },
+      statusCodes: Object.keys(contract.response || {})
+        .map(status => parseInt(status, 10))
+        .filter(status => !isNaN(status))
+        .sort((a, b) => a - b),
+      hasParams: !!contract.params,
+      hasQuery: !!contract.query,
+      hasBody: !!contract.body
+    };
+  }
+  
+  /**
+   * Resolve a method and concrete URL (e.g. `GET /users/6f1c...?page=2`) to its contract
+   *
+   * Static path segments take precedence over parameters; equally specific
+   * contracts are reported as ambiguous.
+   */
+  async matchRoute(method: string, url: string): Promise<ContractRouteMatch> {
+    const matcher = await this.getRouteMatcher();
+    const result = matcher.match(method, url);
+    const requestLine = `${method.toUpperCase()} ${url}`;
+    
+    if (result.match) {
+      return {
+        matched: true,
+        contract: result.match.route.data,
+        request: {
+          params: result.match.params,
+          query: result.match.query
+        }
+      };
+    }
+    
+    if (result.ambiguous.length > 0) {
+      const ambiguous = result.ambiguous.map(match => match.route.data);
+      return {
+        matched: false,
+        ambiguous,
+        message: `Ambiguous route ${requestLine}: matches ${ambiguous.map(contract => `${contract.id} (${contract.path})`).join(', ')}`
+      };
+    }
+    
+    if (result.allowedMethods.length > 0) {
+      return {
+        matched: false,
+        allowedMethods: result.allowedMethods,
+        message: `No contract for ${requestLine}; the path is declared for ${result.allowedMethods.map(allowed => allowed.toUpperCase()).join(', ')}`
+      };
+    }
+    
+    return {
+      matched: false,
+      message: `No contract matches ${requestLine}`
+    };
+  }
+  
+  /**
+   * Get the route matcher over all discovered contracts
+   */
+  private async getRouteMatcher(): Promise<RouteMatcher<ContractSummary>> {
+    if (!this.routeMatcher) {
+      const matcher = new RouteMatcher<ContractSummary>();
+      for (const contract of await this.listContracts()) {
+        if (contract.method && contract.path) {
+          matcher.add({ method: contract.method, path: contract.path, data: contract });
+        }
+      }
+      this.routeMatcher = matcher;
+    }
+    
+    return this.routeMatcher;
+  }
+  
+  /**
+   * Check a catalog entry against a filter
+   */
+  private matchesContractFilter(summary: ContractSummary, filter: ContractFilter): boolean {
+    const toList = (value?: string | string[]) => value === undefined ? undefined : Array.isArray(value) ? value : [value];
+    
+    const tags = toList(filter.tag);
+    if (tags && !tags.some(tag => summary.tags.includes(tag))) {
+      return false;
+    }
+    
+    const methods = toList(filter.method);
+    if (methods && !methods.some(method => method.toLowerCase() === summary.method)) {
+      return false;
+    }
+    
+    const roles = toList(filter.role);
+    if (roles && !roles.some(role => summary.auth.roles.includes(role))) {
+      return false;
+    }
+    
+    if (filter.pathPrefix !== undefined) {
+      const prefix = filter.pathPrefix.replace(/\/+$/, '');
+      if (prefix && summary.path !== prefix && !summary.path.startsWith(`${prefix}/`)) {
+        return false;
+      }
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Validate a contract against its schema
+   */
+  async validateContract(contractPath: string): Promise<ValidationResult> {
+    console.log(`Validating contract: ${contractPath}`);
+    
+    try {
+      const contractInfo = await this.readContract(contractPath);
+      const { contract } = contractInfo;
+      
+      if (!contract) {
+        return this.createValidationResult(
+          [createIssue('contract.export-missing', 'error', 'Contract export not found in the file', {
+            location: { file: contractInfo.path, line: 1, column: 1 }
+          })],
+          {
+            contractName: path.basename(contractPath, path.extname(contractPath)),
+            contractId: this.getContractId(contractPath),
+            path: contractInfo.path
+          }
+        );
+      }
+      
+      // Required fields for all contracts
+      const issues: ValidationIssue[] = [];
+      const at = (...propertyPath: string[]) => this.getContractLocation(contractInfo, propertyPath);
+      
+      // Check required fields
+      const requiredFields = ['path', 'method', 'response'];
+      for (const field of requiredFields) {
+        if (!contract[field]) {
+          issues.push(createIssue('contract.field-missing', 'error', `Missing required field: ${field}`, {
+            dataPath: toJsonPointer([field]),
+            location: at()
+          }));
+        }
+      }
+      
+      // Validate method
+      if (contract.method && !['get', 'post', 'put', 'delete', 'patch'].includes(contract.method)) {
+        issues.push(createIssue('contract.method-invalid', 'error', `Invalid method: ${contract.method}. Must be one of: get, post, put, delete, patch`, {
+          dataPath: '/method',
+          location: at('method')
+        }));
+      }
+      
+      // Validate path
+      if (contract.path && !contract.path.startsWith('/')) {
+        issues.push(createIssue('contract.path-invalid', 'error', `Invalid path: ${contract.path}. Must start with /`, {
+          dataPath: '/path',
+          location: at('path')
+        }));
+      }
+      
+      // Validate response structure
+      if (contract.response && typeof contract.response === 'object') {
+        const responseKeys = Object.keys(contract.response);
+        if (responseKeys.length === 0) {
+          issues.push(createIssue('contract.response-empty', 'error', 'Response object must have at least one status code', {
+            dataPath: '/response',
+            location: at('response')
+          }));
+        } else {
+          // Check that all keys are valid HTTP status codes
+          for (const key of responseKeys) {
+            const statusCode = parseInt(key, 10);
+            if (isNaN(statusCode) || statusCode < 100 || statusCode > 599) {
+              issues.push(createIssue('contract.status-invalid', 'error', `Invalid status code in response: ${key}. Must be a valid HTTP status code (100-599)`, {
+                dataPath: toJsonPointer(['response', key]),
+                location: at('response', key)
+              }));
+            }
+          }
+        }
+      }
+      
+      // Validate auth if present
+      if (contract.auth) {
+        if (contract.auth.authorization) {
+          // Validate roles if present
+          if (contract.auth.authorization.roles) {
+            if (!Array.isArray(contract.auth.authorization.roles) && typeof contract.auth.authorization.roles !== 'string') {
+              issues.push(createIssue('contract.auth-roles-invalid', 'error', 'Authorization roles must be a string or array of strings', {
+                dataPath: '/auth/authorization/roles',
+                location: at('auth', 'authorization', 'roles')
+              }));
+            }
+          }
+          
+          // Validate scopes if present
+          if (contract.auth.authorization.scopes) {
+            if (!Array.isArray(contract.auth.authorization.scopes) && typeof contract.auth.authorization.scopes !== 'string') {
+              issues.push(createIssue('contract.auth-scopes-invalid', 'error', 'Authorization scopes must be a string or array of strings', {
+                dataPath: '/auth/authorization/scopes',
+                location: at('auth', 'authorization', 'scopes')
+              }));
+            }
+          }
+          
+          // Validate claims if present
+          if (contract.auth.authorization.claims) {
+            if (!Array.isArray(contract.auth.authorization.claims)) {
+              issues.push(createIssue('contract.auth-claims-invalid', 'error', 'Authorization claims must be an array', {
+                dataPath: '/auth/authorization/claims',
+                location: at('auth', 'authorization', 'claims')
+              }));
+            } else {
+              // Check each claim
+              contract.auth.authorization.claims.forEach((claim: any, index: number) => {
+                for (const field of ['userClaimPath', 'routeParamName']) {
+                  if (!claim[field]) {
+                    issues.push(createIssue('contract.auth-claim-incomplete', 'error', `Claim at index ${index} is missing required field ${field}`, {
+                      dataPath: `/auth/authorization/claims/${index}/${field}`,
+                      location: at('auth', 'authorization', 'claims')
+                    }));
+                  }
+                }
+              });
+            }
+          }
+        }
+      }
+      
+      // Check for path parameters in the path
+      if (contract.path) {
+        const pathParams = (contract.path.match(/\:[a-zA-Z0-9_]+/g) || [])
+          .map((param: string) => param.substring(1));
+        
+        // If there are path parameters, there should be a params schema
+        if (pathParams.length > 0 && !contract.params) {
+          issues.push(createIssue('contract.params-schema-missing', 'warning', `Path contains parameters (${pathParams.join(', ')}) but no params schema is defined`, {
+            dataPath: '/params',
+            location: at('path')
+          }));
+        }
+      }
+      
+      // Check that the declared schemas could be read statically
+      const schemaPaths: string[][] = [
+        ['params'],
+        ['query'],
+        ['body'],
+        ...Object.keys(contract.response || {}).map(status => ['response', status, 'schema'])
+      ];
+      for (const schemaPath of schemaPaths) {
+        const declared = schemaPath.reduce((current: any, key) => current?.[key], contract);
+        if (declared === undefined) {
+          continue;
+        }
+        
+        const schema = this.getContractSchema(contract, schemaPath);
+        if (!schema || schema.kind === 'unresolved') {
+          const reason = schema?.kind === 'unresolved' ? ` (${schema.reason})` : '';
+          issues.push(createIssue('contract.schema-unresolved', 'warning', `Schema at ${schemaPath.join('.')} could not be read statically${reason}`, {
+            dataPath: toJsonPointer(schemaPath),
+            location: at(...schemaPath)
+          }));
+        }
+      }
+      
+      // Additional validations could be added here
+      
+      // Get tags and summary
+      const tags = contract.tags ? Array.isArray(contract.tags) ? contract.tags : [contract.tags] : [];
+      const summary = contract.summary || 'No summary provided';
+      
+      return this.createValidationResult(issues, {
+        contractName: path.basename(contractPath, path.extname(contractPath)),
+        contractId: this.getContractId(contractPath),
+        path: contractInfo.path,
+        method: contract.method,
+        apiPath: contract.path,
+        tags,
+        summary,
+        hasParams: !!contract.params,
+        hasQuery: !!contract.query,
+        hasBody: !!contract.body,
+        responseStatuses: contract.response ? Object.keys(contract.response) : [],
+        requiresAuth: contract.auth?.requiresAuthentication === true
+      });
+    } catch (error) {
+      return this.createValidationResult([
+        createIssue('internal.exception', 'error', `Failed to validate contract: ${error instanceof Error ? error.message : String(error)}`)
+      ]);
+    }
+  }
+  
+  /**
+   * Validate a request type against a contract
+   */
+  async validateRequestType(contractPath: string): Promise<ValidationResult> {
+    console.log(`Validating request type for contract: ${contractPath}`);
+    
+    try {
+      const contractInfo = await this.readContract(contractPath);
+      const { contract, sourceFile } = contractInfo;
+      
+      if (!contract || !sourceFile) {
+        return this.createValidationResult(
+          [createIssue('contract.export-missing', 'error', 'Contract export not found in the file or could not parse source file', {
+            location: { file: contractInfo.path, line: 1, column: 1 }
+          })],
+          {
+            contractName: path.basename(contractPath, path.extname(contractPath)),
+            contractId: this.getContractId(contractPath),
+            path: contractInfo.path
+          }
+        );
+      }
+      
+      const issues: ValidationIssue[] = [];
+      const details: Record<string, any> = {
+        contractName: path.basename(contractPath, path.extname(contractPath)),
+        contractId: this.getContractId(contractPath),
+        path: contractInfo.path,
+        method: contract.method,
+        apiPath: contract.path
+      };
+      
+      // Extract path parameters from the path
+      const pathParams = (contract.path.match(/\:[a-zA-Z0-9_]+/g) || [])
+        .map((param: string) => param.substring(1));
+      
+      if (pathParams.length > 0) {
+        details.pathParams = pathParams;
+        
+        // Check if all path parameters are defined in the params schema
+        if (!contract.params) {
+          issues.push(createIssue('request-type.params-schema-missing', 'error', `Path contains parameters (${pathParams.join(', ')}) but no params schema is defined`, {
+            dataPath: '/params',
+            location: this.getContractLocation(contractInfo, ['path'])
+          }));
+        } else {
+          // In a more advanced implementation, we would check if the params schema
+          // contains all the required path parameters
+          details.hasParamsSchema = true;
+        }
+      }
+      
+      // Check query parameters if it's a GET request
+      if (contract.method === 'get' && contract.query) {
+        details.hasQuerySchema = true;
+        
+        // Find the QuerySchema export
+        let querySchemaFound = false;
+        ts.forEachChild(sourceFile, (node) => {
+          if (ts.isVariableStatement(node)) {
+            const declaration = node.declarationList.declarations[0];
+            if (declaration && ts.isIdentifier(declaration.name)) {
+              const name = declaration.name.getText();
+              if (name === 'QuerySchema') {
+                querySchemaFound = true;
+              }
+            }
+          }
+        });
+        
+        if (!querySchemaFound) {
+          issues.push(createIssue('request-type.query-schema-not-exported', 'warning', 'Contract has a query parameter but QuerySchema is not exported', {
+            dataPath: '/query',
+            location: this.getContractLocation(contractInfo, ['query'])
+          }));
+        }
+      }
+      
+      // Check body schema for non-GET requests
+      if (['post', 'put', 'patch'].includes(contract.method)) {
+        if (!contract.body) {
+          issues.push(createIssue('request-type.body-schema-missing', 'warning', `${contract.method.toUpperCase()} request typically requires a body schema`, {
+            dataPath: '/body',
+            location: this.getContractLocation(contractInfo)
+          }));
+        } else {
+          details.hasBodySchema = true;
+        }
+      }
+      
+      // Return validation results
+      return this.createValidationResult(issues, details);
+    } catch (error) {
+      return this.createValidationResult([
+        createIssue('internal.exception', 'error', `Failed to validate request type: ${error instanceof Error ? error.message : String(error)}`)
+      ]);
+    }
+  }
+  
+  /**
+   * Validate a response type against a contract
+   */
+  async validateResponseType(contractPath: string): Promise<ValidationResult> {
+    console.log(`Validating response type for contract: ${contractPath}`);
     
-    // Extract properties from the object literal
-    node.properties.forEach(property => {
-      if (ts.isPropertyAssignment(property)) {
-        const name = property.name.getText();
+    try {
+      const contractInfo = await this.readContract(contractPath);
+      const { contract, sourceFile } = contractInfo;
+      
+      if (!contract || !sourceFile) {
+        return this.createValidationResult(
+          [createIssue('contract.export-missing', 'error', 'Contract export not found in the file or could not parse source file', {
+            location: { file: contractInfo.path, line: 1, column: 1 }
+          })],
+          {
+            contractName: path.basename(contractPath, path.extname(contractPath)),
+            contractId: this.getContractId(contractPath),
+            path: contractInfo.path
+          }
+        );
+      }
+      
+      const issues: ValidationIssue[] = [];
+      const responseLocation = this.getContractLocation(contractInfo, ['response']);
+      const details: Record<string, any> = {
+        contractName: path.basename(contractPath, path.extname(contractPath)),
+        contractId: this.getContractId(contractPath),
+        path: contractInfo.path,
+        method: contract.method
+      };
+      
+      // Check response schema
+      if (!contract.response || typeof contract.response !== 'object') {
+        issues.push(createIssue('response-type.response-missing', 'error', 'Response schema is required and must be an object', {
+          dataPath: '/response',
+          location: responseLocation
+        }));
+      } else {
+        const responseStatusCodes = Object.keys(contract.response);
+        details.responseStatusCodes = responseStatusCodes;
+        
+        if (responseStatusCodes.length === 0) {
+          issues.push(createIssue('response-type.response-empty', 'error', 'Response object must define at least one status code', {
+            dataPath: '/response',
+            location: responseLocation
+          }));
+        }
+        
+        // Check if response schema is exported
+        let responseSchemaFound = false;
+        ts.forEachChild(sourceFile, (node) => {
+          if (ts.isVariableStatement(node)) {
+            const declaration = node.declarationList.declarations[0];
+            if (declaration && ts.isIdentifier(declaration.name)) {
+              const name = declaration.name.getText();
+              if (name === 'ResponseSchema') {
+                responseSchemaFound = true;
+              }
+            }
+          }
+        });
+        
+        if (!responseSchemaFound) {
+          issues.push(createIssue('response-type.schema-not-exported', 'warning', 'ResponseSchema is not exported, which may make it difficult to reuse', {
+            dataPath: '/response',
+            location: responseLocation
+          }));
+        }
+        
+        // Check for common status codes based on method
+        const expectedStatus = (message: string) => {
+          issues.push(createIssue('response-type.status-unconventional', 'warning', message, {
+            dataPath: '/response',
+            location: responseLocation
+          }));
+        };
+        
+        switch (contract.method) {
+          case 'get':
+            if (!responseStatusCodes.includes('200')) {
+              expectedStatus('GET requests typically include a 200 response status');
+            }
+            break;
+          case 'post':
+            if (!responseStatusCodes.includes('201') && !responseStatusCodes.includes('200')) {
+              expectedStatus('POST requests typically include a 201 or 200 response status');
+            }
+            break;
+          case 'put':
+          case 'patch':
+            if (!responseStatusCodes.includes('200')) {
+              expectedStatus(`${contract.method.toUpperCase()} requests typically include a 200 response status`);
+            }
+            break;
+          case 'delete':
+            if (!responseStatusCodes.includes('204') && !responseStatusCodes.includes('200')) {
+              expectedStatus('DELETE requests typically include a 204 or 200 response status');
+            }
+            break;
+        }
+        
+        // Check for error responses
+        if (!responseStatusCodes.some(code => parseInt(code) >= 400)) {
+          issues.push(createIssue('response-type.error-status-missing', 'warning', 'No error response status codes defined (4xx, 5xx)', {
+            dataPath: '/response',
+            location: responseLocation
+          }));
+        }
+      }
+      
+      // Check Response type export
+      let responseTypeFound = false;
+      ts.forEachChild(sourceFile, (node) => {
+        if (ts.isTypeAliasDeclaration(node) && node.name.getText() === 'Response') {
+          responseTypeFound = true;
+        }
+      });
+      
+      if (!responseTypeFound) {
+        issues.push(createIssue('response-type.type-not-exported', 'warning', 'Response type is not exported', {
+          location: { file: contractInfo.path, line: 1, column: 1 }
+        }));
+      }
+      
+      // Return validation results
+      return this.createValidationResult(issues, details);
+    } catch (error) {
+      return this.createValidationResult([
+        createIssue('internal.exception', 'error', `Failed to validate response type: ${error instanceof Error ? error.message : String(error)}`)
+      ]);
+    }
+  }
+  
+  /**
+   * Create a mock request based on a contract
+   */
+  async createMockRequest(contractPath: string): Promise<MockRequest> {
+    console.log(`Creating mock request for contract: ${contractPath}`);
+    
+    try {
+      const { contract } = await this.readContract(contractPath);
+      
+      if (!contract) {
+        throw new Error('Contract export not found in the file');
+      }
+      
+      const generator = this.createMockGenerator(this.getContractId(contractPath), 'request');
+      const generate = (part: 'params' | 'query' | 'body') => {
+        const schema = contract[part] ? this.getContractSchema(contract, [part]) : undefined;
+        return schema ? generator.generate(schema, part) : undefined;
+      };
+      
+      // Path parameters without a schema still need a value to build the URL
+      const apiPath: string = contract.path || '/';
+      const params: Record<string, string> = this.encodeRequestValues(generate('params') || {});
+      for (const match of apiPath.match(/\:[a-zA-Z0-9_]+/g) || []) {
+        const name = match.substring(1);
+        if (params[name] === undefined) {
+          params[name] = generator.word(8);
+        }
+      }
+      
+      const query = this.encodeRequestValues(generate('query') || {});
+      const body = generate('body');
+      
+      const request: MockRequest = {
+        method: contract.method,
+        url: this.buildRequestUrl(apiPath, params, query),
+        params,
+        query,
+        ...(body !== undefined ? { body } : {}),
+        ...(generator.warnings.length > 0 ? { warnings: generator.warnings } : {})
+      };
+      
+      // Generated requests must be accepted by the contract they were generated from
+      const validation = await this.validateRequestAgainstContract(contractPath, request);
+      if (!validation.success) {
+        throw new Error(`Generated request does not satisfy the contract: ${(validation.errors || []).join('; ')}`);
+      }
+      
+      return request;
+    } catch (error) {
+      throw new Error(`Failed to create mock request: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Create a mock data generator for a contract and a named stream (e.g. a status code),
+   * seeded from the configured seed and using the configured clock
+   */
+  private createMockGenerator(contractId: string, stream: string): MockDataGenerator {
+    const random = new SeededRandom(SeededRandom.derive(this.mock.seed, `${contractId} ${stream}`));
+    
+    return new MockDataGenerator({
+      random: () => random.next(),
+      now: this.mock.clock,
+      realistic: this.mock.generateRealisticData,
+      locale: this.mock.locale,
+      customGenerators: this.mock.customGenerators,
+      contractId
+    });
+  }
+  
+  /**
+   * Build a concrete URL from a path template, params and query
+   */
+  private buildRequestUrl(apiPath: string, params: Record<string, string>, query: Record<string, any>): string {
+    const pathname = apiPath.replace(/\:([a-zA-Z0-9_]+)\??/g, (_, name: string) =>
+      params[name] !== undefined ? encodeURIComponent(params[name]) : ''
+    ).replace(/\/+$/, '') || '/';
+    
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined && item !== null) {
+          search.append(key, typeof item === 'object' ? JSON.stringify(item) : String(item));
+        }
+      }
+    }
+    
+    const queryString = search.toString();
+    return queryString ? `${pathname}?${queryString}` : pathname;
+  }
+  
+  /**
+   * Validate a request against a contract
+   */
+  async validateRequestAgainstContract(contractPath: string, request: any): Promise<ValidationResult> {
+    console.log(`Validating request against contract: ${contractPath}`);
+    
+    try {
+      const contractInfo = await this.readContract(contractPath);
+      const { contract } = contractInfo;
+      
+      if (!contract) {
+        return this.createValidationResult(
+          [createIssue('contract.export-missing', 'error', 'Contract export not found in the file', {
+            location: { file: contractInfo.path, line: 1, column: 1 }
+          })],
+          {
+            contractName: path.basename(contractPath, path.extname(contractPath)),
+            contractId: this.getContractId(contractPath),
+            path: contractInfo.path
+          }
+        );
+      }
+      
+      const issues: ValidationIssue[] = [];
+      const details: Record<string, any> = {
+        contractName: path.basename(contractPath, path.extname(contractPath)),
+        contractId: this.getContractId(contractPath),
+        path: contractInfo.path,
+        method: contract.method,
+        apiPath: contract.path
+      };
+      
+      // Extract request components
+      const { params, query, body } = request || {};
+      const validator = new SchemaValidator({
+        allowExtraProperties: this.validation.allowExtraProperties,
+        strict: this.validation.strictMode
+      });
+      
+      // Check path parameters in URL
+      const missingPathParams: string[] = [];
+      if (contract.path) {
+        const pathParams = (contract.path.match(/\:[a-zA-Z0-9_]+/g) || [])
+          .map((param: string) => param.substring(1));
+        
+        if (pathParams.length > 0) {
+          if (!params) {
+            issues.push(createIssue('request.params-missing', 'error', `Path contains parameters (${pathParams.join(', ')}) but no params object was provided`, {
+              dataPath: '/params',
+              location: this.getContractLocation(contractInfo, ['path'])
+            }));
+          } else {
+            // Check that all path parameters are provided
+            for (const param of pathParams) {
+              if (params[param] === undefined) {
+                issues.push(createIssue('request.path-param-missing', 'error', `Missing required path parameter: ${param}`, {
+                  dataPath: toJsonPointer(['params', param]),
+                  location: this.getContractLocation(contractInfo, ['path'])
+                }));
+                missingPathParams.push(`params.${param}`);
+              }
+            }
+          }
+        }
+      }
+      
+      // Validate params, query and body against the schemas declared on the contract
+      const parts: Array<{ name: 'params' | 'query' | 'body'; value: any }> = [
+        { name: 'params', value: this.encodeRequestValues(params) },
+        { name: 'query', value: this.encodeRequestValues(query) },
+        { name: 'body', value: body }
+      ];
+      
+      for (const part of parts) {
+        if (!contract[part.name]) {
+          continue;
+        }
+        
+        const schema = this.getContractSchema(contract, [part.name]);
+        
+        if (!schema) {
+          issues.push(createIssue('request.schema-unreadable', 'warning', `Could not read the ${part.name} schema, ${part.name} were not validated`, {
+            dataPath: toJsonPointer([part.name]),
+            location: this.getContractLocation(contractInfo, [part.name])
+          }));
+          continue;
+        }
+        
+        // Express always provides params and query objects, even when empty
+        const value = part.name === 'body' ? part.value : (part.value ?? {});
+        if (part.name === 'params' && !params) {
+          continue;
+        }
+        if (part.name === 'body' && value === undefined && ['get', 'delete'].includes(contract.method)) {
+          continue;
+        }
+        
+        const outcome = validator.validate(schema, value, part.name);
+        const schemaIssues = outcome.issues.filter(issue => !missingPathParams.includes(issue.path));
+        
+        issues.push(...schemaIssues.map(issue => this.toValidationIssue('request', issue, 'error', contractInfo.path)));
+        issues.push(...outcome.warnings.map(issue => this.toValidationIssue('request', issue, 'warning', contractInfo.path)));
+        
+        details[`${part.name}Valid`] = schemaIssues.length === 0;
+        details[`${part.name}Parsed`] = outcome.value;
+        if (value && typeof value === 'object') {
+          details[`${part.name}Provided`] = Object.keys(value);
+        }
+      }
+      
+      // Check for common mistakes
+      if (contract.method === 'get' && body) {
+        issues.push(createIssue('request.body-not-allowed', 'warning', 'GET requests should not have a body', {
+          dataPath: '/body'
+        }));
+      } else if (['post', 'put', 'patch'].includes(contract.method) && !body) {
+        issues.push(createIssue('request.body-missing', 'warning', `${contract.method.toUpperCase()} request is missing a body`, {
+          dataPath: '/body',
+          location: this.getContractLocation(contractInfo, ['body'])
+        }));
+      }
+      
+      // Return validation results
+      return this.createValidationResult(issues, details);
+    } catch (error) {
+      return this.createValidationResult([
+        createIssue('internal.exception', 'error', `Failed to validate request: ${error instanceof Error ? error.message : String(error)}`)
+      ]);
+    }
+  }
+  
+  /**
+   * Validate a response against a contract
+   *
+   * When the response headers are given, a response with a body schema must be sent
+   * as JSON, and the headers are validated against the `headers` schema declared for
+   * the status, if any (header names are matched case-insensitively).
+   */
+  async validateResponseAgainstContract(
+    contractPath: string,
+    response: any,
+    statusCode: number = 200,
+    headers?: Record<string, string | string[] | undefined>
+  ): Promise<ValidationResult> {
+    console.log(`Validating response against contract: ${contractPath} with status code ${statusCode}`);
+    
+    let contractInfo: Awaited<ReturnType<TypedAPIAdapter['readContract']>>;
+    try {
+      contractInfo = await this.readContract(contractPath);
+    } catch (error) {
+      return this.createValidationResult([
+        createIssue('internal.exception', 'error', `Failed to validate response: ${error instanceof Error ? error.message : String(error)}`)
+      ]);
+    }
+    
+    return this.checkResponse(contractPath, contractInfo, response, statusCode, headers);
+  }
+  
+  /**
+   * Validate a response against a contract that has already been read
+   *
+   * Synchronous, so the middleware can check a body before it is sent.
+   */
+  private checkResponse(
+    contractPath: string,
+    contractInfo: {
+      path: string;
+      contract?: any;
+      sourceFile?: ts.SourceFile;
+      contractNode?: ts.ObjectLiteralExpression;
+    },
+    response: any,
+    statusCode: number,
+    headers?: Record<string, number | string | string[] | undefined>
+  ): ValidationResult {
+    try {
+      const { contract } = contractInfo;
+      
+      if (!contract) {
+        return this.createValidationResult(
+          [createIssue('contract.export-missing', 'error', 'Contract export not found in the file', {
+            location: { file: contractInfo.path, line: 1, column: 1 }
+          })],
+          {
+            contractName: path.basename(contractPath, path.extname(contractPath)),
+            contractId: this.getContractId(contractPath),
+            path: contractInfo.path
+          }
+        );
+      }
+      
+      const issues: ValidationIssue[] = [];
+      const details: Record<string, any> = {
+        contractName: path.basename(contractPath, path.extname(contractPath)),
+        contractId: this.getContractId(contractPath),
+        path: contractInfo.path,
+        method: contract.method,
+        statusCode
+      };
+      
+      // Check if the response has a schema for the given status code
+      if (!contract.response || !contract.response[statusCode.toString()]) {
+        issues.push(createIssue('response.status-undeclared', 'error', `Contract does not define a response for status code ${statusCode}`, {
+          location: this.getContractLocation(contractInfo, ['response'])
+        }));
+        
+        // Check if there are any defined response status codes
+        const definedStatusCodes = contract.response ? Object.keys(contract.response) : [];
+        if (definedStatusCodes.length > 0) {
+          details.definedStatusCodes = definedStatusCodes;
+          details.suggestions = `Contract defines responses for status codes: ${definedStatusCodes.join(', ')}`;
+        }
+      } else {
+        details.responseSchemaExists = true;
+        
+        const schema = this.getContractSchema(contract, ['response', statusCode.toString(), 'schema']);
+        
+        if (!schema) {
+          // Responses such as 204 may intentionally declare no body
+          if (response !== undefined && response !== null && response !== '') {
+            issues.push(createIssue('response.schema-missing', 'warning', `Contract declares no schema for status code ${statusCode}, response body was not validated`, {
+              location: this.getContractLocation(contractInfo, ['response', statusCode.toString()])
+            }));
+          }
+        } else {
+          const validator = new SchemaValidator({
+            allowExtraProperties: this.validation.allowExtraProperties,
+            strict: this.validation.strictMode
+          });
+          const outcome = validator.validate(schema, response);
+          
+          issues.push(...outcome.issues.map(issue => this.toValidationIssue('response', issue, 'error', contractInfo.path)));
+          issues.push(...outcome.warnings.map(issue => this.toValidationIssue('response', issue, 'warning', contractInfo.path)));
+          
+          details.responseProvided = response !== undefined;
+          details.responseValid = outcome.issues.length === 0;
+        }
+        
+        if (headers) {
+          const status = statusCode.toString();
+          const received = toHeaderValues(headers);
+          const contentType = received['content-type'];
+          const hasBody = response !== undefined && response !== null && response !== '';
+          
+          if (schema && hasBody && !/[\/+]json\b/i.test(contentType || '')) {
+            issues.push(createIssue('response.content-type', 'error', `Expected a JSON response for status ${statusCode}, got ${contentType ? `Content-Type "${contentType}"` : 'no Content-Type'}`, {
+              dataPath: '/headers/content-type'
+            }));
+          }
+          
+          if (contract.response[status].headers) {
+            const headersSchema = this.getContractSchema(contract, ['response', status, 'headers']);
+            
+            if (!headersSchema) {
+              issues.push(createIssue('response.headers-schema-unreadable', 'warning', `Could not read the headers schema for status ${statusCode}, headers were not validated`, {
+                location: this.getContractLocation(contractInfo, ['response', status, 'headers'])
+              }));
+            } else {
+              // Headers arrive with lower-case names, the schema may declare them in any case
+              const value = headersSchema.kind === 'object'
+                ? Object.fromEntries(Object.keys(headersSchema.shape).map(name => [name, received[name.toLowerCase()]]))
+                : received;
+              const outcome = new SchemaValidator({ allowExtraProperties: true }).validate(headersSchema, value, 'headers');
+              
+              issues.push(...outcome.issues.map(issue => this.toValidationIssue('response', issue, 'error', contractInfo.path)));
+              details.headersValid = outcome.issues.length === 0;
+            }
+          }
+        }
         
-        // Extract simple values
-        if (ts.isStringLiteral(property.initializer)) {
-          contract[name] = property.initializer.text;
-        } else if (ts.isNumericLiteral(property.initializer)) {
-          contract[name] = parseFloat(property.initializer.text);
-        } else if (property.initializer.kind === ts.SyntaxKind.TrueKeyword) {
-          contract[name] = true;
-        } else if (property.initializer.kind === ts.SyntaxKind.FalseKeyword) {
-          contract[name] = false;
-        } else if (property.initializer.kind === ts.SyntaxKind.NullKeyword) {
-          contract[name] = null;
-        } else if (ts.isObjectLiteralExpression(property.initializer)) {
-          // Handle nested objects recursively
-          contract[name] = this.extractContractDetails(property.initializer);
-        } else if (ts.isArrayLiteralExpression(property.initializer)) {
-          // Handle arrays
-          contract[name] = this.extractArrayDetails(property.initializer);
-        } else {
-          // For complex expressions, just store the text
-          contract[name] = property.initializer.getText();
+        if (this.validation.responseHints && response && typeof response === 'object') {
+          // For GET requests, we often expect a data property or an array
+          if (statusCode === 200 && contract.method === 'get') {
+            if (!Array.isArray(response) && (!response.data && !response.items && !response.results)) {
+              issues.push(createIssue('response.hint.collection-wrapper', 'info', 'GET 200 responses typically include data in a "data", "items", or "results" property or as an array'));
+            }
+          }
+          
+          // If it's a created response, often we want an ID
+          if (statusCode === 201 && contract.method === 'post') {
+            if (!response.id && !response._id) {
+              issues.push(createIssue('response.hint.created-id', 'info', 'Created resources typically include an "id" or "_id" property'));
+            }
+          }
         }
       }
-    });
-    
-    return contract;
+      
+      const hints = issues.filter(issue => issue.severity === 'info').map(issue => issue.message);
+      if (hints.length > 0) {
+        details.hints = hints;
+      }
+      
+      // Return validation results
+      return this.createValidationResult(issues, details);
+    } catch (error) {
+      return this.createValidationResult([
+        createIssue('internal.exception', 'error', `Failed to validate response: ${error instanceof Error ? error.message : String(error)}`)
+      ]);
+    }
   }
   
   /**
-   * Extract array details from an array literal expression
+   * Generate TypeScript types for a contract: `Params`, `QueryInput`/`Query`, `Body`,
+   * `Response<status>` and a `Response` union discriminated by `status`
    */
-  private extractArrayDetails(node: ts.ArrayLiteralExpression): any[] {
-    const array: any[] = [];
-    
-    node.elements.forEach(element => {
-      if (ts.isStringLiteral(element)) {
-        array.push(element.text);
-      } else if (ts.isNumericLiteral(element)) {
-        array.push(parseFloat(element.text));
-      } else if (element.kind === ts.SyntaxKind.TrueKeyword) {
-        array.push(true);
-      } else if (element.kind === ts.SyntaxKind.FalseKeyword) {
-        array.push(false);
-      } else if (element.kind === ts.SyntaxKind.NullKeyword) {
-        array.push(null);
-      } else if (ts.isObjectLiteralExpression(element)) {
-        array.push(this.extractContractDetails(element));
-      } else if (ts.isArrayLiteralExpression(element)) {
-        array.push(this.extractArrayDetails(element));
-      } else {
-        array.push(element.getText());
-      }
-    });
+  async generateTypes(contractPath: string, options: GenerateTypesOptions = {}): Promise<GeneratedTypes> {
+    console.log(`Generating types for contract: ${contractPath}`);
     
-    return array;
+    try {
+      const contractInfo = await this.readContract(contractPath);
+      const { contract } = contractInfo;
+      
+      if (!contract) {
+        throw new Error('Contract export not found in the file');
+      }
+      
+      const id = this.getContractId(contractPath);
+      const text = (value: any): string | undefined => typeof value === 'string' ? value : undefined;
+      const responses = this.getContractResponses(contract);
+      
+      const { code, typeNames } = new TypeGenerator().generate({
+        id,
+        method: text(contract.method),
+        path: text(contract.path),
+        summary: text(contract.summary),
+        description: text(contract.description),
+        params: this.getContractSchema(contract, ['params']) || this.getPathParamsSchema(text(contract.path) || ''),
+        query: this.getContractSchema(contract, ['query']),
+        body: this.getContractSchema(contract, ['body']),
+        responses
+      });
+      
+      let outputPath: string | undefined;
+      if (options.outputDir) {
+        outputPath = path.resolve(options.outputDir, `${id}.d.ts`);
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, code, 'utf-8');
+        console.log(`Wrote types to ${outputPath}`);
+      }
+      
+      return {
+        code,
+        typeNames,
+        sourcePath: contractInfo.path,
+        ...(outputPath ? { outputPath } : {})
+      };
+    } catch (error) {
+      throw new Error(`Failed to generate types: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
   
   /**
-   * Validate a contract against its schema
+   * Export the discovered contracts as a single OpenAPI 3.1 document in JSON or YAML
    */
-  async validateContract(contractPath: string): Promise<ValidationResult> {
-    console.log(`Validating contract: ${contractPath}`);
+  async exportOpenAPI(options: ExportOpenAPIOptions = {}): Promise<OpenAPIExportResult> {
+    console.log('Exporting contracts to OpenAPI');
     
     try {
-      const contractInfo = await this.readContract(contractPath);
-      const { contract } = contractInfo;
+      const { outputPath, filter, ...exportOptions } = options;
+      const format = exportOptions.format || 'json';
+      const exporter = new OpenAPIExporter({ ...exportOptions, format });
+      const warnings: string[] = [];
+      const sources: OpenAPIContractSource[] = [];
       
-      if (!contract) {
-        return {
-          success: false,
-          errors: ['Contract export not found in the file'],
-          details: {
-            contractName: path.basename(contractPath, path.extname(contractPath)),
-            path: contractInfo.path
-          }
-        };
+      for (const summary of await this.listContracts(filter)) {
+        const { contract } = await this.readContract(summary.id);
+        if (!summary.method || !summary.path) {
+          warnings.push(`${summary.id}: contract has no method or path and was not exported`);
+          continue;
+        }
+        
+        sources.push({
+          id: summary.id,
+          method: summary.method,
+          path: summary.path,
+          summary: summary.summary,
+          description: summary.description,
+          tags: summary.tags,
+          params: this.getContractSchema(contract, ['params']) || this.getPathParamsSchema(summary.path),
+          query: this.getContractSchema(contract, ['query']),
+          body: this.getContractSchema(contract, ['body']),
+          responses: this.getContractResponses(contract),
+          ...(contract.auth ? { auth: summary.auth } : {})
+        });
       }
       
-      // Required fields for all contracts
-      const errors: string[] = [];
+      const document = exporter.export(sources);
+      const content = exporter.serialize(document);
+      warnings.push(...exporter.warnings);
+      
+      let writtenPath: string | undefined;
+      if (outputPath) {
+        writtenPath = path.resolve(outputPath);
+        await fs.mkdir(path.dirname(writtenPath), { recursive: true });
+        await fs.writeFile(writtenPath, content, 'utf-8');
+        console.log(`Wrote OpenAPI document to ${writtenPath}`);
+      }
+      
+      warnings.forEach(warning => console.warn(warning));
+      
+      return {
+        document,
+        content,
+        format,
+        contractIds: sources.map(source => source.id),
+        warnings,
+        ...(writtenPath ? { outputPath: writtenPath } : {})
+      };
+    } catch (error) {
+      throw new Error(`Failed to export OpenAPI document: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Export the schemas of a contract, or of every contract in a directory (all contracts
+   * by default), as JSON Schema (draft 2020-12) documents
+   * @param target Contract ID or path, or a directory relative to the contracts base path
+   */
+  async exportJsonSchemas(target?: string, options: ExportJsonSchemaOptions = {}): Promise<JsonSchemaExportResult> {
+    console.log(`Exporting JSON Schemas for ${target || 'all contracts'}`);
+    
+    try {
+      const { outputDir, ...exportOptions } = options;
+      const exporter = new JsonSchemaExporter(exportOptions);
       const warnings: string[] = [];
+      const schemas: ContractJsonSchema[] = [];
       
-      // Check required fields
-      const requiredFields = ['path', 'method', 'response'];
-      for (const field of requiredFields) {
-        if (!contract[field]) {
-          errors.push(`Missing required field: ${field}`);
+      for (const contractPath of await this.resolveContractTargets(target)) {
+        const { contract } = await this.readContract(contractPath);
+        if (!contract) {
+          warnings.push(`${this.getContractId(contractPath)}: no Contract export found`);
+          continue;
         }
+        
+        const apiPath = typeof contract.path === 'string' ? contract.path : undefined;
+        schemas.push(...exporter.export({
+          id: this.getContractId(contractPath),
+          method: typeof contract.method === 'string' ? contract.method : undefined,
+          path: apiPath,
+          params: this.getContractSchema(contract, ['params']) || (apiPath ? this.getPathParamsSchema(apiPath) : undefined),
+          query: this.getContractSchema(contract, ['query']),
+          body: this.getContractSchema(contract, ['body']),
+          responses: this.getContractResponses(contract)
+        }));
       }
+      warnings.push(...exporter.warnings);
       
-      // Validate method
-      if (contract.method && !['get', 'post', 'put', 'delete', 'patch'].includes(contract.method)) {
-        errors.push(`Invalid method: ${contract.method}. Must be one of: get, post, put, delete, patch`);
+      const files: string[] = [];
+      if (outputDir) {
+        for (const document of schemas) {
+          const filePath = path.resolve(outputDir, document.file);
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, `${JSON.stringify(document.schema, null, 2)}\n`, 'utf-8');
+          files.push(filePath);
+        }
+        console.log(`Wrote ${files.length} JSON Schema documents to ${path.resolve(outputDir)}`);
       }
       
-      // Validate path
-      if (contract.path && !contract.path.startsWith('/')) {
-        errors.push(`Invalid path: ${contract.path}. Must start with /`);
+      warnings.forEach(warning => console.warn(warning));
+      
+      return { schemas, files, warnings };
+    } catch (error) {
+      throw new Error(`Failed to export JSON Schemas: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Resolve a contract ID or path, or a directory, to the contract paths it stands for
+   */
+  private async resolveContractTargets(target?: string): Promise<string[]> {
+    if (this.contracts.size === 0) {
+      this.discoverContracts();
+    }
+    
+    if (!target) {
+      return Array.from(this.contracts.keys());
+    }
+    if (this.contracts.has(target)) {
+      return [target];
+    }
+    
+    const resolvedPath = this.resolveContractPath(target);
+    const stats = await fs.stat(resolvedPath);
+    if (!stats.isDirectory()) {
+      return [resolvedPath];
+    }
+    
+    return Array.from(this.contracts.values())
+      .filter(contract => contract.absolutePath.startsWith(`${resolvedPath}${path.sep}`))
+      .map(contract => contract.id);
+  }
+  
+  /**
+   * Compare two versions of a contract or a directory of contracts and classify every
+   * change as breaking, potentially breaking or non-breaking
+   *
+   * Either side can be read from a git revision, e.g. to compare a contract with its
+   * last committed version: `diffContracts({ path: 'users/get', revision: 'HEAD' }, 'users/get')`.
+   * Contracts in directories are matched by contract ID.
+   */
+  async diffContracts(before: ContractTreeSource, after: ContractTreeSource): Promise<ContractDiffReport> {
+    const describe = (source: ContractTreeSource) => typeof source === 'string'
+      ? source
+      : `${source.path}${source.revision ? ` at ${source.revision}` : ''}`;
+    console.log(`Comparing contracts: ${describe(before)} -> ${describe(after)}`);
+    
+    try {
+      const beforeTree = await this.readContractTree(before);
+      const afterTree = await this.readContractTree(after);
+      
+      // Two single files are compared with each other whatever their IDs
+      if (beforeTree.file && afterTree.file && beforeTree.snapshots.length === 1 && afterTree.snapshots.length === 1) {
+        beforeTree.snapshots[0].id = afterTree.snapshots[0].id;
       }
       
-      // Validate response structure
-      if (contract.response && typeof contract.response === 'object') {
-        const responseKeys = Object.keys(contract.response);
-        if (responseKeys.length === 0) {
-          errors.push('Response object must have at least one status code');
-        } else {
-          // Check that all keys are valid HTTP status codes
-          for (const key of responseKeys) {
-            const statusCode = parseInt(key, 10);
-            if (isNaN(statusCode) || statusCode < 100 || statusCode > 599) {
-              errors.push(`Invalid status code in response: ${key}. Must be a valid HTTP status code (100-599)`);
-            }
-          }
+      const report = new ContractDiffer().diff(beforeTree.snapshots, afterTree.snapshots);
+      console.log(`Found ${report.summary.breaking} breaking, ${report.summary.potentiallyBreaking} potentially breaking and ${report.summary.nonBreaking} non-breaking changes`);
+      
+      return report;
+    } catch (error) {
+      throw new Error(`Failed to compare contracts: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Read every contract of one side of a comparison
+   */
+  private async readContractTree(source: ContractTreeSource): Promise<{ snapshots: ContractSnapshot[]; file: boolean }> {
+    const { path: sourcePath, revision } = typeof source === 'string' ? { path: source, revision: undefined } : source;
+    const resolvedPath = this.resolveContractPath(sourcePath);
+    const discovery = new ContractDiscovery(resolvedPath, { include: this.include, exclude: this.exclude });
+    const files: Array<{ id: string; fileName: string; content: string }> = [];
+    let loadModule: (fileName: string) => ts.SourceFile | undefined = fileName => this.loadSourceFile(fileName);
+    let file: boolean;
+    
+    if (revision) {
+      const existing = await this.findExistingDirectory(resolvedPath);
+      const root = this.runGit(['rev-parse', '--show-toplevel'], existing).trim();
+      const toObject = (fileName: string) => `${revision}:${toPosixPath(path.relative(root, fileName))}`;
+      
+      file = this.runGit(['cat-file', '-t', toObject(resolvedPath)], root).trim() === 'blob';
+      if (file) {
+        files.push({ id: this.getContractId(resolvedPath), fileName: resolvedPath, content: this.runGit(['show', toObject(resolvedPath)], root) });
+      } else {
+        const names = this.runGit(['ls-tree', '-r', '--name-only', toObject(resolvedPath)], root).split('\n').filter(Boolean);
+        for (const name of names.filter(entry => discovery.matches(entry))) {
+          const fileName = path.join(resolvedPath, name);
+          files.push({ id: createContractId(name), fileName, content: this.runGit(['show', toObject(fileName)], root) });
         }
       }
       
-      // Validate auth if present
-      if (contract.auth) {
-        if (contract.auth.authorization) {
-          // Validate roles if present
-          if (contract.auth.authorization.roles) {
-            if (!Array.isArray(contract.auth.authorization.roles) && typeof contract.auth.authorization.roles !== 'string') {
-              errors.push('Authorization roles must be a string or array of strings');
-            }
-          }
-          
-          // Validate scopes if present
-          if (contract.auth.authorization.scopes) {
-            if (!Array.isArray(contract.auth.authorization.scopes) && typeof contract.auth.authorization.scopes !== 'string') {
-              errors.push('Authorization scopes must be a string or array of strings');
-            }
-          }
-          
-          // Validate claims if present
-          if (contract.auth.authorization.claims) {
-            if (!Array.isArray(contract.auth.authorization.claims)) {
-              errors.push('Authorization claims must be an array');
-            } else {
-              // Check each claim
-              contract.auth.authorization.claims.forEach((claim: any, index: number) => {
-                if (!claim.userClaimPath) {
-                  errors.push(`Claim at index ${index} is missing required field userClaimPath`);
-                }
-                if (!claim.routeParamName) {
-                  errors.push(`Claim at index ${index} is missing required field routeParamName`);
-                }
-              });
-            }
-          }
+      // Shared schema modules are read at the same revision
+      loadModule = fileName => {
+        try {
+          return ts.createSourceFile(fileName, this.runGit(['show', toObject(fileName)], root), ts.ScriptTarget.ES2020, true);
+        } catch {
+          return undefined;
         }
+      };
+    } else {
+      file = !(await fs.stat(resolvedPath)).isDirectory();
+      const contracts = file
+        ? [{ id: this.getContractId(resolvedPath), absolutePath: resolvedPath }]
+        : discovery.discover();
+      for (const contract of contracts) {
+        files.push({ id: contract.id, fileName: contract.absolutePath, content: await fs.readFile(contract.absolutePath, 'utf-8') });
+      }
+    }
+    
+    const snapshots: ContractSnapshot[] = [];
+    for (const { id, fileName, content } of files) {
+      const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.ES2020, true);
+      const { contract } = this.parseContract(sourceFile, loadModule);
+      if (!contract) {
+        console.warn(`${id}: no Contract export found, skipping`);
+        continue;
       }
       
-      // Check for path parameters in the path
-      if (contract.path) {
-        const pathParams = (contract.path.match(/\:[a-zA-Z0-9_]+/g) || [])
-          .map((param: string) => param.substring(1));
+      const authorization = contract.auth?.authorization || {};
+      snapshots.push({
+        id,
+        method: typeof contract.method === 'string' ? contract.method.toLowerCase() : '',
+        path: typeof contract.path === 'string' ? contract.path : '',
+        summary: typeof contract.summary === 'string' ? contract.summary : undefined,
+        description: typeof contract.description === 'string' ? contract.description : undefined,
+        tags: toStringList(contract.tags),
+        auth: {
+          requiresAuthentication: contract.auth?.requiresAuthentication === true,
+          roles: toStringList(authorization.roles),
+          scopes: toStringList(authorization.scopes)
+        },
+        params: this.getContractSchema(contract, ['params']),
+        query: this.getContractSchema(contract, ['query']),
+        body: this.getContractSchema(contract, ['body']),
+        responses: this.getContractResponses(contract)
+      });
+    }
+    
+    return { snapshots, file };
+  }
+  
+  /**
+   * The closest existing directory containing a path, to run git from
+   */
+  private async findExistingDirectory(target: string): Promise<string> {
+    let current = target;
+    for (;;) {
+      const stats = await fs.stat(current).catch(() => undefined);
+      if (stats) {
+        return stats.isDirectory() ? current : path.dirname(current);
+      }
+      if (path.dirname(current) === current) {
+        return current;
+      }
+      current = path.dirname(current);
+    }
+  }
+  
+  /**
+   * Run a git command and return its output
+   */
+  private runGit(args: string[], cwd: string): string {
+    try {
+      return execFileSync('git', args, {
+        cwd,
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        maxBuffer: 64 * 1024 * 1024
+      });
+    } catch (error: any) {
+      const stderr = typeof error?.stderr === 'string' ? error.stderr.trim() : '';
+      throw new Error(`git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`);
+    }
+  }
+  
+  /**
+   * Import an OpenAPI 3.0 or 3.1 document (JSON or YAML) as contract files, one per
+   * operation, with `components.schemas` as shared schema modules. Each generated
+   * contract is validated with validateContract
+   */
+  async importOpenAPI(sourcePath: string, options: ImportOpenAPIOptions = {}): Promise<OpenAPIImportResult> {
+    console.log(`Importing OpenAPI document: ${sourcePath}`);
+    
+    try {
+      const { outputDir, overwrite = false, ...importOptions } = options;
+      const document = parseOpenAPIDocument(await fs.readFile(path.resolve(sourcePath), 'utf-8'));
+      const importer = new OpenAPIImporter(importOptions);
+      const imported = importer.import(document);
+      const baseDir = path.resolve(outputDir || this.contractsBasePath);
+      
+      const files: string[] = [];
+      const skipped: string[] = [];
+      for (const file of imported) {
+        const filePath = path.join(baseDir, file.path);
+        const exists = await fs.access(filePath).then(() => true, () => false);
+        if (exists && !overwrite) {
+          skipped.push(filePath);
+          continue;
+        }
         
-        // If there are path parameters, there should be a params schema
-        if (pathParams.length > 0 && !contract.params) {
-          warnings.push(`Path contains parameters (${pathParams.join(', ')}) but no params schema is defined`);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, file.content, 'utf-8');
+        files.push(filePath);
+      }
+      console.log(`Wrote ${files.length} files to ${baseDir}${skipped.length > 0 ? `, skipped ${skipped.length} existing files` : ''}`);
+      
+      // Pick up the new contracts before validating them
+      this.initTypeScriptCompiler();
+      
+      // Contracts written outside the contracts base path are identified relative to the output directory
+      const relativeToBase = path.relative(path.resolve(this.contractsBasePath), baseDir);
+      const outsideBase = relativeToBase.startsWith('..') || path.isAbsolute(relativeToBase);
+      
+      const contracts: OpenAPIImportResult['contracts'] = [];
+      for (const file of imported) {
+        if (file.kind === 'contract') {
+          const filePath = path.join(baseDir, file.path);
+          const validation = await this.validateContract(filePath);
+          if (outsideBase && validation.details) {
+            const contractId = createContractId(file.path);
+            validation.details = { ...validation.details, contractId, contractName: path.posix.basename(contractId) };
+          }
+          contracts.push({
+            operation: file.operation!,
+            path: filePath,
+            validation
+          });
         }
       }
       
-      // Additional validations could be added here
+      importer.warnings.forEach(warning => console.warn(warning));
       
-      // Get tags and summary
-      const tags = contract.tags ? Array.isArray(contract.tags) ? contract.tags : [contract.tags] : [];
-      const summary = contract.summary || 'No summary provided';
+      return { files, skipped, contracts, warnings: [...importer.warnings] };
+    } catch (error) {
+      throw new Error(`Failed to import OpenAPI document: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Check if a type exists in a contract, see {@link inspectTypeExistence} for the details
+   */
+  async checkTypeExistence(contractPath: string, typeName: string): Promise<boolean> {
+    return (await this.inspectTypeExistence(contractPath, typeName)).exists;
+  }
+  
+  /**
+   * Check if a property exists on a type, and has the expected type when one is given,
+   * see {@link inspectTypeProperty} for the details
+   */
+  async checkTypeProperty(contractPath: string, typeName: string, propertyPath: string, expectedType?: string): Promise<boolean> {
+    const result = await this.inspectTypeProperty(contractPath, typeName, propertyPath, expectedType);
+    return result.exists && result.matchesExpected !== false;
+  }
+  
+  /**
+   * Look up a type in a contract: type aliases, interfaces, classes, enums,
+   * Zod schemas and `z.infer` types, declared in the contract or re-exported by it
+   */
+  async inspectTypeExistence(contractPath: string, typeName: string): Promise<TypeExistenceResult> {
+    console.log(`Checking if type ${typeName} exists in contract: ${contractPath}`);
+    
+    try {
+      const result = (await this.getTypeInspector(contractPath)).findType(typeName);
+      console.log(result.message);
+      
+      return result;
+    } catch (error) {
+      throw new Error(`Failed to check type existence: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Resolve a property of a type or Zod schema, following nested paths like
+   * `user.email` or `body[].permissions`, and optionally assert its type
+   */
+  async inspectTypeProperty(
+    contractPath: string,
+    typeName: string,
+    propertyPath: string,
+    expectedType?: string
+  ): Promise<TypePropertyResult> {
+    console.log(`Checking if property ${propertyPath} exists on type ${typeName} in contract: ${contractPath}`);
+    
+    try {
+      const result = (await this.getTypeInspector(contractPath)).getProperty(typeName, propertyPath, expectedType);
+      console.log(result.message);
+      
+      return result;
+    } catch (error) {
+      throw new Error(`Failed to check type property: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Generate a mock response based on a contract
+   */
+  async generateMockResponse(contractPath: string, statusCode: number = 200): Promise<MockResponse> {
+    console.log(`Generating mock response for contract: ${contractPath}`);
+    
+    const failure = (error: string): MockResponse => {
+      console.error(`Failed to generate mock response: ${error}`);
+      return {
+        data: null,
+        type: 'error',
+        success: false,
+        seed: this.mock.seed,
+        statusCode,
+        error
+      };
+    };
+    
+    try {
+      const { contract } = await this.readContract(contractPath);
+      
+      if (!contract) {
+        return failure('Contract export not found in the file');
+      }
+      
+      // Only generate responses the contract actually declares
+      const status = statusCode.toString();
+      const declaredStatuses = contract.response ? Object.keys(contract.response) : [];
+      if (!declaredStatuses.includes(status)) {
+        return failure(`Status ${statusCode} is not declared in the contract (declared: ${declaredStatuses.join(', ') || 'none'})`);
+      }
+      
+      // Responses without a schema (e.g. 204 No Content) have no body
+      if (contract.response[status]?.schema === undefined) {
+        return {
+          data: undefined,
+          type: 'void',
+          success: true,
+          seed: this.mock.seed,
+          statusCode
+        };
+      }
+      
+      const schema = this.getContractSchema(contract, ['response', status, 'schema']);
+      if (!schema || schema.kind === 'unresolved') {
+        const reason = schema?.kind === 'unresolved' ? ` (${schema.reason})` : '';
+        return failure(`Schema for status ${statusCode} could not be read statically${reason}`);
+      }
+      
+      const generator = this.createMockGenerator(this.getContractId(contractPath), status);
+      const data = generator.generate(schema);
+      
+      // Generated responses must be accepted by the schema they were generated from
+      const outcome = new SchemaValidator({ allowExtraProperties: true }).validate(schema, data);
+      if (outcome.issues.length > 0) {
+        return failure(`Generated response does not satisfy the schema for status ${statusCode}: ${outcome.issues.map(issue => issue.message).join('; ')}`);
+      }
       
       return {
-        success: errors.length === 0,
-        errors: errors.length > 0 ? errors : undefined,
-        warnings: warnings.length > 0 ? warnings : undefined,
-        details: {
-          contractName: path.basename(contractPath, path.extname(contractPath)),
-          path: contractInfo.path,
-          method: contract.method,
-          apiPath: contract.path,
-          tags,
-          summary,
-          hasParams: !!contract.params,
-          hasQuery: !!contract.query,
-          hasBody: !!contract.body,
-          responseStatuses: contract.response ? Object.keys(contract.response) : [],
-          requiresAuth: contract.auth?.requiresAuthentication === true
-        }
+        data,
+        type: describeSchemaType(schema),
+        success: true,
+        seed: this.mock.seed,
+        statusCode,
+        ...(generator.warnings.length > 0 ? { warnings: generator.warnings } : {})
       };
     } catch (error) {
-      return {
-        success: false,
-        errors: [`Failed to validate contract: ${error instanceof Error ? error.message : String(error)}`]
-      };
+      return failure(error instanceof Error ? error.message : String(error));
     }
   }
   
   /**
-   * Validate a request type against a contract
+   * Verify a running API (e.g. `http://localhost:3000`) against the contracts
+   *
+   * For each contract a request is generated like `createMockRequest` does and sent
+   * to the API; the contract passes if the API answers with one of its success statuses
+   * and `validateResponseAgainstContract` accepts the status, headers and body. Listed
+   * contracts that cannot be read are reported as failed, and the others still verified.
    */
-  async validateRequestType(contractPath: string): Promise<ValidationResult> {
-    console.log(`Validating request type for contract: ${contractPath}`);
+  async verifyProvider(baseUrl: string, options: VerifyProviderOptions = {}): Promise<ProviderVerificationReport> {
+    console.log(`Verifying provider at ${baseUrl} against the contracts`);
     
+    let contracts: Array<string | ContractSummary>;
     try {
-      const contractInfo = await this.readContract(contractPath);
-      const { contract, sourceFile } = contractInfo;
-      
-      if (!contract || !sourceFile) {
-        return {
-          success: false,
-          errors: ['Contract export not found in the file or could not parse source file'],
-          details: {
-            contractName: path.basename(contractPath, path.extname(contractPath)),
-            path: contractInfo.path
-          }
-        };
+      contracts = Array.isArray(options.contracts) ? options.contracts : await this.listContracts(options.contracts);
+    } catch (error) {
+      throw new Error(`Failed to verify provider: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    // Contracts are verified one after the other, so hooks can rely on the order
+    const results: ProviderContractResult[] = [];
+    for (const target of contracts) {
+      let contract: ContractSummary | undefined;
+      try {
+        contract = typeof target === 'string' ? await this.describeContract(target) : target;
+        if (!contract) {
+          throw new Error(`Contract export not found in ${target}`);
+        }
+      } catch (error) {
+        const contractId = typeof target === 'string' ? target : target.id;
+        const message = error instanceof Error ? error.message : String(error);
+        console.log(`FAIL ${contractId}: ${message}`);
+        results.push({ contractId, method: '', path: '', passed: false, durationMs: 0, errors: [message] });
+        continue;
       }
       
-      const errors: string[] = [];
-      const warnings: string[] = [];
-      const details: Record<string, any> = {
-        contractName: path.basename(contractPath, path.extname(contractPath)),
-        path: contractInfo.path,
-        method: contract.method,
-        apiPath: contract.path
-      };
-      
-      // Extract path parameters from the path
-      const pathParams = (contract.path.match(/\:[a-zA-Z0-9_]+/g) || [])
-        .map((param: string) => param.substring(1));
-      
-      if (pathParams.length > 0) {
-        details.pathParams = pathParams;
-        
-        // Check if all path parameters are defined in the params schema
-        if (!contract.params) {
-          errors.push(`Path contains parameters (${pathParams.join(', ')}) but no params schema is defined`);
-        } else {
-          // In a more advanced implementation, we would check if the params schema
-          // contains all the required path parameters
-          details.hasParamsSchema = true;
-        }
+      results.push(await this.verifyProviderContract(baseUrl, contract, options));
+    }
+    
+    const passed = results.filter(result => result.passed).length;
+    console.log(`Provider verification: ${passed} of ${results.length} contracts passed`);
+    
+    return {
+      baseUrl,
+      passed: passed === results.length,
+      summary: {
+        total: results.length,
+        passed,
+        failed: results.length - passed
+      },
+      results
+    };
+  }
+  
+  /**
+   * Send the request generated for a contract to the API and check the response
+   */
+  private async verifyProviderContract(baseUrl: string, contract: ContractSummary, options: VerifyProviderOptions): Promise<ProviderContractResult> {
+    const started = Date.now();
+    const result: ProviderContractResult = {
+      contractId: contract.id,
+      method: contract.method,
+      path: contract.path,
+      passed: false,
+      durationMs: 0,
+      errors: []
+    };
+    
+    try {
+      if (!contract.method || !contract.path) {
+        throw new Error('Contract declares no method or path');
       }
       
-      // Check query parameters if it's a GET request
-      if (contract.method === 'get' && contract.query) {
-        details.hasQuerySchema = true;
-        
-        // Find the QuerySchema export
-        let querySchemaFound = false;
-        ts.forEachChild(sourceFile, (node) => {
-          if (ts.isVariableStatement(node)) {
-            const declaration = node.declarationList.declarations[0];
-            if (declaration && ts.isIdentifier(declaration.name)) {
-              const name = declaration.name.getText();
-              if (name === 'QuerySchema') {
-                querySchemaFound = true;
-              }
-            }
-          }
-        });
-        
-        if (!querySchemaFound) {
-          warnings.push('Contract has a query parameter but QuerySchema is not exported');
+      const mock = await this.createMockRequest(contract.id);
+      const params = { ...mock.params };
+      const fixtures = typeof options.params === 'function' ? await options.params(contract) : options.params;
+      for (const [name, value] of Object.entries(fixtures || {})) {
+        if (name in params) {
+          params[name] = String(value);
         }
       }
       
-      // Check body schema for non-GET requests
-      if (['post', 'put', 'patch'].includes(contract.method)) {
-        if (!contract.body) {
-          warnings.push(`${contract.method.toUpperCase()} request typically requires a body schema`);
-        } else {
-          details.hasBodySchema = true;
-        }
+      const headers = { ...options.headers };
+      const token = contract.auth.requiresAuthentication
+        ? typeof options.authToken === 'function' ? await options.authToken(contract) : options.authToken
+        : undefined;
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
       }
       
-      // Return validation results
-      return {
-        success: errors.length === 0,
-        errors: errors.length > 0 ? errors : undefined,
-        warnings: warnings.length > 0 ? warnings : undefined,
-        details
+      const request: ProviderRequest = {
+        method: contract.method.toUpperCase(),
+        url: `${baseUrl.replace(/\/+$/, '')}${this.buildRequestUrl(contract.path, params, mock.query)}`,
+        headers,
+        ...(mock.body !== undefined ? { body: mock.body } : {})
       };
+      await options.beforeEach?.(request, contract);
+      result.request = request;
+      
+      const response = await sendHttpRequest({ ...request, timeout: options.timeout });
+      result.status = response.status;
+      
+      const successStatuses = contract.statusCodes.filter(code => code >= 200 && code < 300);
+      if (successStatuses.length > 0 && !successStatuses.includes(response.status)) {
+        result.errors.push(`Expected status ${successStatuses.join(' or ')}, got ${response.status}`);
+      }
+      
+      result.validation = await this.validateResponseAgainstContract(contract.id, response.body, response.status, response.headers);
+      result.errors.push(...(result.validation.errors || []));
     } catch (error) {
-      return {
-        success: false,
-        errors: [`Failed to validate request type: ${error instanceof Error ? error.message : String(error)}`]
-      };
+      result.errors.push(error instanceof Error ? error.message : String(error));
     }
+    
+    result.passed = result.errors.length === 0;
+    result.durationMs = Date.now() - started;
+    console.log(`${result.passed ? 'PASS' : 'FAIL'} ${contract.id}${result.status ? ` (${result.status})` : ''}`);
+    
+    return result;
   }
   
   /**
-   * Validate a response type against a contract
+   * Create a client calling an API (e.g. `http://localhost:3000`) through the contracts
+   *
+   * Each call fills the contract path from `params`, serializes `query` and `body`,
+   * validates the request before sending it and the response once received. Pass the
+   * generated contract types to type the calls:
+   * `createClient<{ 'users/get': { params: Params; response: Response } }>(baseUrl)`.
    */
-  async validateResponseType(contractPath: string): Promise<ValidationResult> {
-    console.log(`Validating response type for contract: ${contractPath}`);
+  async createClient<T extends Record<string, ContractCallTypes> = Record<string, ContractCallTypes>>(
+    baseUrl: string,
+    options: ContractClientOptions = {}
+  ): Promise<ContractClient<T>> {
+    const client: Record<string, (request?: ContractCallRequest) => Promise<ContractCallResult>> = {};
+    let registered = 0;
     
-    try {
-      const contractInfo = await this.readContract(contractPath);
-      const { contract, sourceFile } = contractInfo;
-      
-      if (!contract || !sourceFile) {
-        return {
-          success: false,
-          errors: ['Contract export not found in the file or could not parse source file'],
-          details: {
-            contractName: path.basename(contractPath, path.extname(contractPath)),
-            path: contractInfo.path
-          }
-        };
+    for (const contract of await this.listContracts()) {
+      if (!contract.method || !contract.path) {
+        continue;
       }
       
-      const errors: string[] = [];
-      const warnings: string[] = [];
-      const details: Record<string, any> = {
-        contractName: path.basename(contractPath, path.extname(contractPath)),
-        path: contractInfo.path,
-        method: contract.method
-      };
+      const call = (request: ContractCallRequest = {}) => this.callContract(baseUrl, contract, request, options);
+      client[contract.id] = call;
+      client[`${contract.method.toUpperCase()} ${contract.path}`] = call;
+      registered++;
+    }
+    
+    console.log(`Created contract client for ${baseUrl} with ${registered} contracts`);
+    return client as ContractClient<T>;
+  }
+  
+  /**
+   * Send a contract call and validate the request and the response
+   */
+  private async callContract(
+    baseUrl: string,
+    contract: ContractSummary,
+    request: ContractCallRequest,
+    options: ContractClientOptions
+  ): Promise<ContractCallResult> {
+    const endpoint = `${contract.method.toUpperCase()} ${contract.path}`;
+    const params = this.encodeRequestValues(request.params || {});
+    const query = this.encodeRequestValues(request.query || {});
+    
+    const requestValidation = await this.validateRequestAgainstContract(contract.id, { params, query, body: request.body });
+    if (options.strict && !requestValidation.success) {
+      throw Object.assign(new Error(`Request to ${endpoint} violates contract ${contract.id}: ${(requestValidation.errors || []).join('; ')}`), {
+        validation: requestValidation
+      });
+    }
+    
+    const url = `${baseUrl.replace(/\/+$/, '')}${this.buildRequestUrl(contract.path, params, query)}`;
+    let response;
+    try {
+      response = await sendHttpRequest({
+        method: contract.method,
+        url,
+        headers: { ...options.headers, ...request.headers },
+        body: request.body,
+        timeout: options.timeout
+      });
+    } catch (error) {
+      throw new Error(`Failed to call ${endpoint}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    const responseValidation = await this.validateResponseAgainstContract(contract.id, response.body, response.status, response.headers);
+    const errors = [
+      ...(requestValidation.errors || []).map(error => `request: ${error}`),
+      ...(responseValidation.errors || []).map(error => `response: ${error}`)
+    ];
+    const result: ContractCallResult = {
+      status: response.status,
+      body: response.body,
+      headers: response.headers,
+      url,
+      valid: errors.length === 0,
+      errors,
+      validation: {
+        request: requestValidation,
+        response: responseValidation
+      }
+    };
+    
+    if (options.strict && !responseValidation.success) {
+      throw Object.assign(new Error(`Response ${response.status} from ${endpoint} violates contract ${contract.id}: ${(responseValidation.errors || []).join('; ')}`), {
+        result
+      });
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Create an Express/Connect middleware enforcing the contracts
+   *
+   * Each request is matched to a contract by method and path; its params, query and
+   * body are validated, and so is the body sent with `res.json` for the response status.
+   * Requests without a contract are passed on untouched. Parse the body before the
+   * middleware (e.g. with `express.json()`) so it can be validated.
+   */
+  createMiddleware(options: ContractMiddlewareOptions = {}): ContractMiddleware {
+    const mode = options.mode ?? 'collect';
+    const results: ContractMiddlewareResult[] = [];
+    
+    const record = (result: ContractMiddlewareResult) => {
+      results.push(result);
+      if (mode === 'log' && !result.validation.success) {
+        console.warn(`Contract violation in ${result.phase} ${result.method} ${result.url} (${result.contractId}): ${(result.validation.errors || []).join('; ')}`);
+      }
+    };
+    
+    const middleware = ((req: MiddlewareRequest, res: MiddlewareResponse, next: (error?: any) => void) => {
+      const method = (req.method || 'GET').toUpperCase();
+      const url = req.originalUrl || req.url || '/';
       
-      // Check response schema
-      if (!contract.response || typeof contract.response !== 'object') {
-        errors.push('Response schema is required and must be an object');
-      } else {
-        const responseStatusCodes = Object.keys(contract.response);
-        details.responseStatusCodes = responseStatusCodes;
+      this.matchRoute(method, url).then(async route => {
+        if (!route.matched || !route.contract || !route.request) {
+          next();
+          return;
+        }
         
-        if (responseStatusCodes.length === 0) {
-          errors.push('Response object must define at least one status code');
+        const contractId = route.contract.id;
+        if (typeof res.json === 'function') {
+          // Read the contract up front, so bodies can be checked before they are sent
+          const contractInfo = await this.readContract(contractId);
+          this.wrapResponseJson(res, body => {
+            const status = res.statusCode || 200;
+            const sent = res.getHeaders?.();
+            // res.json sets a JSON Content-Type unless one is set already
+            const headers = sent && { 'content-type': 'application/json', ...sent };
+            const validation = this.checkResponse(contractId, contractInfo, body, status, headers);
+            record({ contractId, method, url, phase: 'response', status, validation });
+            return validation;
+          }, mode === 'fail-fast' ? next : undefined);
         }
         
-        // Check if response schema is exported
-        let responseSchemaFound = false;
-        ts.forEachChild(sourceFile, (node) => {
-          if (ts.isVariableStatement(node)) {
-            const declaration = node.declarationList.declarations[0];
-            if (declaration && ts.isIdentifier(declaration.name)) {
-              const name = declaration.name.getText();
-              if (name === 'ResponseSchema') {
-                responseSchemaFound = true;
-              }
-            }
-          }
+        // Express only fills req.params for route-level middleware
+        const validation = await this.validateRequestAgainstContract(contractId, {
+          params: req.params && Object.keys(req.params).length > 0 ? req.params : route.request.params,
+          query: req.query ?? route.request.query,
+          body: req.body
         });
+        record({ contractId, method, url, phase: 'request', validation });
         
-        if (!responseSchemaFound) {
-          warnings.push('ResponseSchema is not exported, which may make it difficult to reuse');
-        }
-        
-        // Check for common status codes based on method
-        switch (contract.method) {
-          case 'get':
-            if (!responseStatusCodes.includes('200')) {
-              warnings.push('GET requests typically include a 200 response status');
-            }
-            break;
-          case 'post':
-            if (!responseStatusCodes.includes('201') && !responseStatusCodes.includes('200')) {
-              warnings.push('POST requests typically include a 201 or 200 response status');
-            }
-            break;
-          case 'put':
-          case 'patch':
-            if (!responseStatusCodes.includes('200')) {
-              warnings.push(`${contract.method.toUpperCase()} requests typically include a 200 response status`);
-            }
-            break;
-          case 'delete':
-            if (!responseStatusCodes.includes('204') && !responseStatusCodes.includes('200')) {
-              warnings.push('DELETE requests typically include a 204 or 200 response status');
-            }
-            break;
+        if (mode === 'fail-fast' && !validation.success) {
+          next(Object.assign(new Error(`Request violates contract ${contractId}: ${(validation.errors || []).join('; ')}`), {
+            status: 500,
+            validation
+          }));
+          return;
         }
         
-        // Check for error responses
-        if (!responseStatusCodes.some(code => parseInt(code) >= 400)) {
-          warnings.push('No error response status codes defined (4xx, 5xx)');
-        }
+        next();
+      }).catch(next);
+    }) as ContractMiddleware;
+    
+    Object.defineProperty(middleware, 'results', { value: results });
+    middleware.violations = () => results.filter(result => !result.validation.success);
+    middleware.reset = () => {
+      results.length = 0;
+    };
+    
+    return middleware;
+  }
+  
+  /**
+   * Replace `res.json` so bodies are validated before they are sent
+   *
+   * The original `res.json` is called right after the validation; when `reject` is
+   * given, an invalid body is passed to it as an error instead of being sent.
+   */
+  private wrapResponseJson(
+    res: MiddlewareResponse,
+    validate: (body: any) => ValidationResult,
+    reject?: (error: Error) => void
+  ): void {
+    const json = res.json!.bind(res);
+    
+    res.json = (body: any) => {
+      const status = res.statusCode || 200;
+      const validation = validate(body);
+      
+      if (reject && !validation.success) {
+        reject(Object.assign(new Error(`Response ${status} violates contract ${validation.details?.contractId}: ${(validation.errors || []).join('; ')}`), {
+          status: 500,
+          validation
+        }));
+        return res;
       }
       
-      // Check Response type export
-      let responseTypeFound = false;
-      ts.forEachChild(sourceFile, (node) => {
-        if (ts.isTypeAliasDeclaration(node) && node.name.getText() === 'Response') {
-          responseTypeFound = true;
-        }
+      return json(body);
+    };
+  }
+  
+  /**
+   * Start the mock server, resolving with its base URL
+   *
+   * Requests are routed to contracts by method and path. Requests the contract
+   * rejects are answered with a 400 in the shape of the contract's 400 response,
+   * others with a mock of the success status, unless the route is overridden.
+   */
+  async startMockServer(): Promise<string> {
+    if (this.mockServer?.listening) {
+      return this.mockServer.url!;
+    }
+    
+    try {
+      const routes = (await this.getRouteMatcher()).size;
+      const server = new MockServer(request => this.handleMockRequest(request), {
+        port: this.mockServerConfig.port,
+        host: this.mockServerConfig.host,
+        onError: error => console.error(error.message)
       });
       
-      if (!responseTypeFound) {
-        warnings.push('Response type is not exported');
-      }
-      
-      // Return validation results
-      return {
-        success: errors.length === 0,
-        errors: errors.length > 0 ? errors : undefined,
-        warnings: warnings.length > 0 ? warnings : undefined,
-        details
-      };
+      const url = await server.start();
+      this.mockServer = server;
+      console.log(`Mock server listening on ${url} with ${routes} routes`);
+      return url;
     } catch (error) {
+      throw new Error(`Failed to start mock server: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Stop the mock server, if it is running
+   */
+  async stopMockServer(): Promise<void> {
+    const server = this.mockServer;
+    if (!server) {
+      return;
+    }
+    
+    this.mockServer = null;
+    await server.stop();
+    console.log('Mock server stopped');
+  }
+  
+  /**
+   * Base URL of the running mock server
+   */
+  getMockServerUrl(): string | undefined {
+    return this.mockServer?.url;
+  }
+  
+  /**
+   * Force the response of a mock server route, or remove the override when none is given
+   *
+   * Routes are given by contract ID (e.g. `users/get`) or method and path template
+   * (e.g. `GET /users/:userId`).
+   */
+  setMockOverride(route: string, override?: MockRouteOverride): void {
+    if (override) {
+      this.mockServerConfig.overrides[route] = override;
+    } else {
+      delete this.mockServerConfig.overrides[route];
+    }
+  }
+  
+  /**
+   * Answer a request received by the mock server
+   */
+  private async handleMockRequest(request: MockServerRequest): Promise<MockServerResponse> {
+    const route = await this.matchRoute(request.method, request.url);
+    
+    if (!route.matched || !route.contract || !route.request) {
+      const status = route.allowedMethods ? 405 : route.ambiguous ? 500 : 404;
+      console.log(`Mock server: ${request.method} ${request.url} -> ${status}`);
       return {
-        success: false,
-        errors: [`Failed to validate response type: ${error instanceof Error ? error.message : String(error)}`]
+        status,
+        body: { error: http.STATUS_CODES[status], message: route.message },
+        ...(route.allowedMethods ? { headers: { Allow: route.allowedMethods.map(method => method.toUpperCase()).join(', ') } } : {})
+      };
+    }
+    
+    const contract = route.contract;
+    const override = this.findMockOverride(contract);
+    let response: MockServerResponse;
+    
+    if (override) {
+      const headers = { ...await this.createMockHeaders(contract, override.status), ...override.headers };
+      response = {
+        status: override.status,
+        body: override.body !== undefined ? override.body : await this.createMockBody(contract, override.status),
+        ...(Object.keys(headers).length > 0 ? { headers } : {})
       };
+    } else {
+      const validation = await this.validateRequestAgainstContract(contract.id, {
+        ...route.request,
+        body: request.body
+      });
+      
+      if (!validation.success) {
+        response = { status: 400, body: await this.createRequestErrorBody(contract, validation.errors || []) };
+      } else {
+        const status = contract.statusCodes.filter(code => code >= 200 && code < 300).sort((a, b) => a - b)[0] ?? 200;
+        const headers = await this.createMockHeaders(contract, status);
+        response = { status, body: await this.createMockBody(contract, status), ...(headers ? { headers } : {}) };
+      }
+    }
+    
+    console.log(`Mock server: ${request.method} ${request.url} -> ${response.status} (${contract.id})`);
+    return response;
+  }
+  
+  /**
+   * Find the override for a contract, by ID or by method and path template
+   */
+  private findMockOverride(contract: ContractSummary): MockRouteOverride | undefined {
+    const overrides = this.mockServerConfig.overrides;
+    if (overrides[contract.id]) {
+      return overrides[contract.id];
+    }
+    
+    const route = `${contract.method} ${contract.path}`.toLowerCase();
+    const key = Object.keys(overrides).find(candidate => candidate.replace(/\s+/g, ' ').trim().toLowerCase() === route);
+    return key ? overrides[key] : undefined;
+  }
+  
+  /**
+   * Generate the body the mock server responds with for a status
+   *
+   * Statuses the contract does not declare get a generic error body.
+   */
+  private async createMockBody(contract: ContractSummary, status: number): Promise<any> {
+    if (!contract.statusCodes.includes(status)) {
+      return { error: http.STATUS_CODES[status] || `Status ${status}` };
+    }
+    
+    const mock = await this.generateMockResponse(contract.id, status);
+    if (!mock.success) {
+      throw new Error(mock.error);
     }
+    
+    return mock.data;
   }
   
   /**
-   * Create a mock request based on a contract
+   * Generate the headers the contract declares for a status, if any
    */
-  async createMockRequest(contractPath: string): Promise<any> {
-    console.log(`Creating mock request for contract: ${contractPath}`);
+  private async createMockHeaders(contract: ContractSummary, status: number): Promise<Record<string, string> | undefined> {
+    const { contract: definition } = await this.readContract(contract.id);
+    if (!definition?.response?.[status]?.headers) {
+      return undefined;
+    }
     
-    try {
-      const contract = await this.readContract(contractPath);
-      
-      // TODO: Implement mock request creation
-      // This will generate a valid request object based on the contract
-      
-      return {
-        // Mock request data will go here
-      };
-    } catch (error) {
-      throw new Error(`Failed to create mock request: ${error instanceof Error ? error.message : String(error)}`);
+    const schema = this.getContractSchema(definition, ['response', status.toString(), 'headers']);
+    if (!schema || schema.kind === 'unresolved') {
+      return undefined;
     }
+    
+    const values = this.createMockGenerator(contract.id, `${status} headers`).generate(schema, 'headers');
+    return Object.fromEntries(Object.entries(values || {})
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]) => [name, String(value)]));
   }
   
   /**
-   * Validate a request against a contract
+   * Build the body of a 400 response for a request the contract rejects
+   *
+   * A mock of the contract's 400 schema is generated and its conventional fields
+   * (`error`, `message`, `code`, `errors`, `issues`, `details`, also nested under
+   * an `error` object) are filled with the validation errors where the schema allows it.
    */
-  async validateRequestAgainstContract(contractPath: string, request: any): Promise<ValidationResult> {
-    console.log(`Validating request against contract: ${contractPath}`);
+  private async createRequestErrorBody(contract: ContractSummary, errors: string[]): Promise<any> {
+    const message = errors.join('; ') || 'Invalid request';
+    if (!contract.statusCodes.includes(400)) {
+      return { error: http.STATUS_CODES[400], message, issues: errors };
+    }
     
-    try {
-      const contractInfo = await this.readContract(contractPath);
-      const { contract } = contractInfo;
-      
-      if (!contract) {
-        return {
-          success: false,
-          errors: ['Contract export not found in the file'],
-          details: {
-            contractName: path.basename(contractPath, path.extname(contractPath)),
-            path: contractInfo.path
-          }
-        };
-      }
-      
-      const errors: string[] = [];
-      const warnings: string[] = [];
-      const details: Record<string, any> = {
-        contractName: path.basename(contractPath, path.extname(contractPath)),
-        path: contractInfo.path,
-        method: contract.method,
-        apiPath: contract.path
-      };
-      
-      // Extract request components
-      const { params, query, body } = request;
-      
-      // Validate path parameters if they exist
-      if (contract.params && params) {
-        // In a real implementation, we would use Zod to validate params
-        // For now, we'll just do a basic check
-        if (typeof params !== 'object') {
-          errors.push('Path parameters must be an object');
-        } else {
-          details.paramsValid = true;
-          details.paramsProvided = Object.keys(params);
-        }
-      }
-      
-      // Validate query parameters if they exist
-      if (contract.query && query) {
-        // In a real implementation, we would use Zod to validate query
-        if (typeof query !== 'object') {
-          errors.push('Query parameters must be an object');
-        } else {
-          details.queryValid = true;
-          details.queryProvided = Object.keys(query);
-        }
-      }
-      
-      // Validate body if it exists
-      if (contract.body && body) {
-        // In a real implementation, we would use Zod to validate body
-        details.bodyProvided = true;
-        
-        // Check for common mistakes
-        if (contract.method === 'get' && body) {
-          warnings.push('GET requests should not have a body');
+    const body = await this.createMockBody(contract, 400);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return body;
+    }
+    
+    const { contract: definition } = await this.readContract(contract.id);
+    const schema = this.getContractSchema(definition, ['response', '400', 'schema']);
+    if (!schema) {
+      return body;
+    }
+    
+    const fields: Record<string, any> = {
+      error: http.STATUS_CODES[400],
+      message,
+      code: 400,
+      errors,
+      issues: errors,
+      details: errors
+    };
+    const validator = new SchemaValidator({ allowExtraProperties: true });
+    const containers = [body, body.error].filter(container => container && typeof container === 'object' && !Array.isArray(container));
+    
+    // Each field is only kept if the body still satisfies the schema
+    for (const container of containers) {
+      for (const [key, value] of Object.entries(fields)) {
+        // A nested error object is filled in rather than replaced
+        if (!(key in container) || (container === body && key === 'error' && containers.length > 1)) {
+          continue;
         }
-      } else if (['post', 'put', 'patch'].includes(contract.method) && !body) {
-        warnings.push(`${contract.method.toUpperCase()} request is missing a body`);
-      }
-      
-      // Check path parameters in URL
-      if (contract.path) {
-        const pathParams = (contract.path.match(/\:[a-zA-Z0-9_]+/g) || [])
-          .map((param: string) => param.substring(1));
         
-        if (pathParams.length > 0) {
-          if (!params) {
-            errors.push(`Path contains parameters (${pathParams.join(', ')}) but no params object was provided`);
-          } else {
-            // Check that all path parameters are provided
-            for (const param of pathParams) {
-              if (params[param] === undefined) {
-                errors.push(`Missing required path parameter: ${param}`);
-              }
-            }
-          }
+        const previous = container[key];
+        container[key] = value;
+        if (validator.validate(schema, body).issues.length > 0) {
+          container[key] = previous;
         }
       }
-      
-      // Return validation results
-      return {
-        success: errors.length === 0,
-        errors: errors.length > 0 ? errors : undefined,
-        warnings: warnings.length > 0 ? warnings : undefined,
-        details
-      };
-    } catch (error) {
-      return {
-        success: false,
-        errors: [`Failed to validate request: ${error instanceof Error ? error.message : String(error)}`]
-      };
     }
+    
+    return body;
   }
   
   /**
-   * Validate a response against a contract
+   * Start the proxy, resolving with its base URL
+   *
+   * Every request is forwarded to the target; once answered, the request and response
+   * are matched to a contract by method and path and validated. Violations are logged
+   * and appended to `violationLog`, and exchanges are recorded to `recordPath` with
+   * their credential headers redacted.
    */
-  async validateResponseAgainstContract(contractPath: string, response: any, statusCode: number = 200): Promise<ValidationResult> {
-    console.log(`Validating response against contract: ${contractPath} with status code ${statusCode}`);
+  async startProxy(options: StartProxyOptions = {}): Promise<string> {
+    if (this.proxy?.listening) {
+      return this.proxy.url!;
+    }
+    
+    const settings = { ...this.proxyConfig, ...options };
     
     try {
-      const contractInfo = await this.readContract(contractPath);
-      const { contract } = contractInfo;
-      
-      if (!contract) {
-        return {
-          success: false,
-          errors: ['Contract export not found in the file'],
-          details: {
-            contractName: path.basename(contractPath, path.extname(contractPath)),
-            path: contractInfo.path
-          }
-        };
+      if (!settings.target) {
+        throw new Error('No target to forward requests to');
       }
       
-      const errors: string[] = [];
-      const warnings: string[] = [];
-      const details: Record<string, any> = {
-        contractName: path.basename(contractPath, path.extname(contractPath)),
-        path: contractInfo.path,
-        method: contract.method,
-        statusCode
-      };
-      
-      // Check if the response has a schema for the given status code
-      if (!contract.response || !contract.response[statusCode.toString()]) {
-        errors.push(`Contract does not define a response for status code ${statusCode}`);
-        
-        // Check if there are any defined response status codes
-        const definedStatusCodes = contract.response ? Object.keys(contract.response) : [];
-        if (definedStatusCodes.length > 0) {
-          details.definedStatusCodes = definedStatusCodes;
-          details.suggestions = `Contract defines responses for status codes: ${definedStatusCodes.join(', ')}`;
-        }
-      } else {
-        details.responseSchemaExists = true;
-        
-        // In a real implementation, we would use Zod to validate the response
-        if (!response) {
-          errors.push(`Response body is required for status code ${statusCode}`);
-        } else {
-          // Check if response is an object
-          if (typeof response !== 'object') {
-            errors.push('Response must be an object or array');
-          } else {
-            details.responseProvided = true;
-            
-            // Check for common response properties based on method
-            if (statusCode === 200 && contract.method === 'get') {
-              // For GET requests, we often expect a data property or an array
-              if (!Array.isArray(response) && (!response.data && !response.items && !response.results)) {
-                warnings.push('GET 200 responses typically include data in a "data", "items", or "results" property or as an array');
-              }
-            }
-            
-            // If it's a created response, often we want an ID
-            if (statusCode === 201 && contract.method === 'post') {
-              if (typeof response === 'object' && !response.id && !response._id) {
-                warnings.push('Created resources typically include an "id" or "_id" property');
-              }
-            }
-          }
+      // Exchanges are handled one at a time, so results and files keep the order of the responses
+      let queue = Promise.resolve();
+      const proxy = new ContractProxy(exchange => {
+        queue = queue.catch(() => undefined).then(() => this.handleProxyExchange(exchange, settings));
+        return queue;
+      }, {
+        target: settings.target,
+        port: settings.port,
+        host: settings.host,
+        onError: (error, request) => {
+          queue = queue.catch(() => undefined).then(() => this.handleProxyError(error, request, settings));
+          return queue;
         }
-      }
+      });
       
-      // Return validation results
-      return {
-        success: errors.length === 0,
-        errors: errors.length > 0 ? errors : undefined,
-        warnings: warnings.length > 0 ? warnings : undefined,
-        details
-      };
+      const url = await proxy.start();
+      this.proxy = proxy;
+      this.proxyResults = [];
+      this.proxyErrors = [];
+      console.log(`Proxy listening on ${url}, forwarding to ${settings.target}`);
+      return url;
     } catch (error) {
-      return {
-        success: false,
-        errors: [`Failed to validate response: ${error instanceof Error ? error.message : String(error)}`]
-      };
+      throw new Error(`Failed to start proxy: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
   
   /**
-   * Generate TypeScript types for a contract
+   * Stop the proxy, if it is running, once the pending exchanges are validated
    */
-  async generateTypes(contractPath: string): Promise<GeneratedTypes> {
-    console.log(`Generating types for contract: ${contractPath}`);
+  async stopProxy(): Promise<void> {
+    const proxy = this.proxy;
+    if (!proxy) {
+      return;
+    }
     
-    try {
-      const contract = await this.readContract(contractPath);
-      
-      // TODO: Implement type generation
-      // This will generate TypeScript types from the contract
-      
-      return {
-        code: "// Generated types will go here",
-        typeNames: [],
-        sourcePath: contract.path
-      };
-    } catch (error) {
-      throw new Error(`Failed to generate types: ${error instanceof Error ? error.message : String(error)}`);
+    this.proxy = null;
+    await proxy.stop();
+    
+    const report = this.getProxyReport();
+    console.log(`Proxy stopped: ${report.summary.valid} of ${report.summary.total} exchanges satisfied their contracts`);
+  }
+  
+  /**
+   * Base URL of the running proxy
+   */
+  getProxyUrl(): string | undefined {
+    return this.proxy?.url;
+  }
+  
+  /**
+   * Report on the exchanges forwarded by the proxy since it was last started
+   */
+  getProxyReport(): ExchangeReport {
+    const report = this.createExchangeReport(this.proxyResults);
+    
+    return {
+      ...report,
+      passed: report.passed && this.proxyErrors.length === 0,
+      errors: [...this.proxyErrors]
+    };
+  }
+  
+  /**
+   * Log and record an error of the proxy, e.g. a backend that could not be reached
+   */
+  private async handleProxyError(error: Error, request: { method: string; url: string }, settings: StartProxyOptions): Promise<void> {
+    this.proxyErrors.push(error.message);
+    console.error(error.message);
+    
+    if (settings.violationLog) {
+      await fs.appendFile(settings.violationLog, `${JSON.stringify({
+        time: new Date().toISOString(),
+        method: request.method,
+        url: request.url,
+        error: error.message
+      })}\n`);
     }
   }
   
   /**
-   * Check if a type exists in a contract
+   * Validate, log and record an exchange forwarded by the proxy
    */
-  async checkTypeExistence(contractPath: string, typeName: string): Promise<boolean> {
-    console.log(`Checking if type ${typeName} exists in contract: ${contractPath}`);
+  private async handleProxyExchange(exchange: RecordedExchange, settings: StartProxyOptions): Promise<void> {
+    const validation = await this.validateExchange(exchange);
+    this.proxyResults.push(validation);
     
-    try {
-      const contract = await this.readContract(contractPath);
-      
-      // TODO: Implement type existence check
-      // This will check if a specific type exists in the contract
+    if (settings.recordPath) {
+      const recorded = settings.redactHeaders === false ? exchange : redactExchange(exchange, settings.redactHeaders);
+      await fs.appendFile(settings.recordPath, `${JSON.stringify(recorded)}\n`);
+    }
+    
+    if (!validation.valid) {
+      console.warn(`Contract violation: ${exchange.method} ${exchange.url} -> ${exchange.response.status}${validation.contractId ? ` (${validation.contractId})` : ''}: ${validation.errors.join('; ')}`);
       
-      return true;
-    } catch (error) {
-      throw new Error(`Failed to check type existence: ${error instanceof Error ? error.message : String(error)}`);
+      if (settings.violationLog) {
+        await fs.appendFile(settings.violationLog, `${JSON.stringify({
+          time: exchange.startedAt,
+          method: exchange.method,
+          url: exchange.url,
+          status: exchange.response.status,
+          contractId: validation.contractId,
+          errors: validation.errors
+        })}\n`);
+      }
     }
   }
   
   /**
-   * Check if a property exists on a type
+   * Validate a recorded request and response against the contract matching
+   * their method and path
    */
-  async checkTypeProperty(contractPath: string, typeName: string, propertyName: string): Promise<boolean> {
-    console.log(`Checking if property ${propertyName} exists on type ${typeName} in contract: ${contractPath}`);
+  async validateExchange(exchange: RecordedExchange): Promise<ExchangeValidation> {
+    const result: ExchangeValidation = {
+      method: exchange.method.toUpperCase(),
+      url: exchange.url,
+      status: exchange.response.status,
+      matched: false,
+      valid: false,
+      errors: []
+    };
     
-    try {
-      const contract = await this.readContract(contractPath);
-      
-      // TODO: Implement property existence check
-      // This will check if a specific property exists on a type
-      
-      return true;
-    } catch (error) {
-      throw new Error(`Failed to check type property: ${error instanceof Error ? error.message : String(error)}`);
+    const route = await this.matchRoute(exchange.method, exchange.url);
+    if (!route.matched || !route.contract || !route.request) {
+      result.errors.push(route.message || `No contract matches ${result.method} ${exchange.url}`);
+      return result;
     }
+    
+    result.matched = true;
+    result.contractId = route.contract.id;
+    result.request = await this.validateRequestAgainstContract(route.contract.id, {
+      ...route.request,
+      body: exchange.request.body
+    });
+    if (exchange.request.bodyOmitted) {
+      const issues = (result.request.issues || []).filter(issue => issue.dataPath !== '/body' && !issue.dataPath.startsWith('/body/'));
+      issues.push(createIssue('request.body-not-captured', 'warning', 'The request body was not captured as JSON or text and was not validated', {
+        dataPath: '/body'
+      }));
+      result.request = this.createValidationResult(issues, result.request.details);
+    }
+    result.response = exchange.response.bodyOmitted && route.contract.statusCodes.includes(exchange.response.status)
+      ? this.createValidationResult([
+        createIssue('response.body-not-captured', 'warning', 'The response body was not captured and was not validated')
+      ])
+      : await this.validateResponseAgainstContract(
+        route.contract.id,
+        exchange.response.body,
+        exchange.response.status,
+        exchange.response.headers
+      );
+    
+    result.errors = [
+      ...(result.request.errors || []).map(error => `request: ${error}`),
+      ...(result.response.errors || []).map(error => `response: ${error}`)
+    ];
+    result.valid = result.errors.length === 0;
+    
+    return result;
   }
   
   /**
-   * Generate a mock response based on a contract
+   * Validate the exchanges of a recording made by the proxy against the current contracts
    */
-  async generateMockResponse(contractPath: string, statusCode: number = 200): Promise<MockResponse> {
-    console.log(`Generating mock response for contract: ${contractPath}`);
+  async replayExchanges(recordingPath: string): Promise<ExchangeReport> {
+    console.log(`Replaying recorded exchanges from ${recordingPath}`);
     
+    let exchanges: RecordedExchange[];
     try {
-      const contractInfo = await this.readContract(contractPath);
-      const { contract, sourceFile } = contractInfo;
-      
-      if (!contract || !sourceFile) {
-        return {
-          data: null,
-          type: "error",
-          success: false
-        };
-      }
-      
-      // Check if we have a response schema for the given status code
-      if (!contract.response || !contract.response[statusCode.toString()]) {
-        console.warn(`No response schema found for status code ${statusCode}`);
-        
-        // Try to find another status code
-        const availableStatusCodes = contract.response ? Object.keys(contract.response) : [];
-        if (availableStatusCodes.length > 0) {
-          const alternativeStatusCode = availableStatusCodes[0];
-          console.log(`Using alternative status code: ${alternativeStatusCode}`);
-          statusCode = parseInt(alternativeStatusCode, 10);
-        } else {
-          return {
-            data: null,
-            type: "error",
-            success: false
-          };
+      const content = await fs.readFile(recordingPath, 'utf-8');
+      exchanges = content.split('\n').flatMap((line, index) => {
+        if (!line.trim()) {
+          return [];
         }
-      }
-      
-      // Extract the contract name
-      const contractName = path.basename(contractPath, path.extname(contractPath));
-      
-      // Based on the contract analyzed, generate an appropriate mock response
-      // This is a simplified implementation that creates sensible defaults based on the contract name
-      
-      if (contractName.includes('api-key')) {
-        // This is likely an API key related endpoint
-        if (contractName.includes('get')) {
-          // Generate a list of API keys
-          if (statusCode === 200) {
-            return {
-              data: [
-                {
-                  id: 'apikey_' + this.generateRandomId(),
-                  name: 'Test API Key 1',
-                  description: 'Generated test API key',
-                  uniqueIdentifier: this.generateRandomId(),
-                  company: 'company_' + this.generateRandomId(),
-                  user: 'user_' + this.generateRandomId(),
-                  keyHash: this.generateRandomHash(),
-                  truncatedKey: this.generateTruncatedKey(),
-                  status: 'active',
-                  permissions: ['read', 'write'],
-                  usageCount: Math.floor(Math.random() * 1000),
-                  createdAt: new Date().toISOString()
-                },
-                {
-                  id: 'apikey_' + this.generateRandomId(),
-                  name: 'Test API Key 2',
-                  uniqueIdentifier: this.generateRandomId(),
-                  company: 'company_' + this.generateRandomId(),
-                  user: 'user_' + this.generateRandomId(),
-                  keyHash: this.generateRandomHash(),
-                  truncatedKey: this.generateTruncatedKey(),
-                  status: 'active',
-                  permissions: ['read'],
-                  usageCount: Math.floor(Math.random() * 100),
-                  createdAt: new Date(Date.now() - 86400000).toISOString()
-                }
-              ],
-              type: "Array<APIAuthKey>",
-              success: true
-            };
-          }
-        } else if (contractName.includes('post')) {
-          // Create API key response
-          if (statusCode === 201 || statusCode === 200) {
-            return {
-              data: {
-                id: 'apikey_' + this.generateRandomId(),
-                name: 'New API Key',
-                uniqueIdentifier: this.generateRandomId(),
-                company: 'company_' + this.generateRandomId(),
-                user: 'user_' + this.generateRandomId(),
-                keyHash: this.generateRandomHash(),
-                truncatedKey: this.generateTruncatedKey(),
-                status: 'active',
-                permissions: ['read', 'write'],
-                usageCount: 0,
-                createdAt: new Date().toISOString()
-              },
-              type: "APIAuthKey",
-              success: true
-            };
-          }
+        try {
+          return [JSON.parse(line)];
+        } catch (error) {
+          throw new Error(`Line ${index + 1} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
         }
-      }
-      
-      // Generic fallback response
-      return {
-        data: {
-          id: this.generateRandomId(),
-          timestamp: new Date().toISOString(),
-          success: true,
-          message: `Mock response for ${contractName} with status ${statusCode}`
-        },
-        type: "generic",
-        success: true
-      };
+      });
     } catch (error) {
-      console.error('Error generating mock response:', error);
-      return {
-        data: null,
-        type: "error",
-        success: false
-      };
+      throw new Error(`Failed to replay exchanges: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    const results: ExchangeValidation[] = [];
+    for (const exchange of exchanges) {
+      results.push(await this.validateExchange(exchange));
     }
+    
+    const report = this.createExchangeReport(results);
+    console.log(`Replayed ${report.summary.total} exchanges: ${report.summary.valid} valid, ${report.summary.invalid} invalid, ${report.summary.unmatched} unmatched`);
+    return report;
   }
   
   /**
-   * Generate a random ID for mock data
+   * Validate the API calls captured in a HAR file (e.g. exported from a browser
+   * or Playwright) against the contracts
+   *
+   * Each entry is matched to a contract by method and path template; query params,
+   * request bodies, status codes and response bodies are validated. Entries without
+   * a contract are reported as undocumented API usage.
    */
-  private generateRandomId(): string {
-    return Math.random().toString(36).substring(2, 15);
+  async validateHar(harPath: string, options: ValidateHarOptions = {}): Promise<HarValidationReport> {
+    console.log(`Validating HAR file ${harPath} against the contracts`);
+    
+    let harEntries: any[];
+    try {
+      const har = JSON.parse(await fs.readFile(harPath, 'utf-8'));
+      harEntries = har?.log?.entries;
+      if (!Array.isArray(harEntries)) {
+        throw new Error('The file has no log.entries');
+      }
+    } catch (error) {
+      throw new Error(`Failed to validate HAR file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    const entries: HarEntryResult[] = [];
+    for (const [index, entry] of harEntries.entries()) {
+      const exchange = this.toHarExchange(entry, options.baseUrl);
+      if (!exchange) {
+        continue;
+      }
+      
+      const validation = await this.validateExchange(exchange);
+      entries.push({
+        index,
+        ...(entry.startedDateTime ? { startedDateTime: entry.startedDateTime } : {}),
+        ...validation,
+        undocumented: !validation.matched,
+        errors: validation.matched ? validation.errors : validation.errors.map(error => `Undocumented API usage: ${error}`)
+      });
+    }
+    
+    const valid = entries.filter(entry => entry.valid).length;
+    const undocumentedEntries = entries.filter(entry => entry.undocumented);
+    const report: HarValidationReport = {
+      file: harPath,
+      passed: valid === entries.length,
+      summary: {
+        total: harEntries.length,
+        valid,
+        invalid: entries.length - valid - undocumentedEntries.length,
+        undocumented: undocumentedEntries.length,
+        skipped: harEntries.length - entries.length
+      },
+      entries,
+      undocumented: Array.from(new Set(undocumentedEntries.map(entry => `${entry.method} ${entry.url.split('?')[0]}`))).sort()
+    };
+    
+    console.log(`Validated ${entries.length} HAR entries: ${report.summary.valid} valid, ${report.summary.invalid} invalid, ${report.summary.undocumented} undocumented, ${report.summary.skipped} skipped`);
+    return report;
   }
   
   /**
-   * Generate a random hash for mock data
+   * Read a HAR entry as an exchange, or undefined if it is not an API call to validate
    */
-  private generateRandomHash(): string {
-    return Array.from({ length: 40 }, () => 
-      Math.floor(Math.random() * 16).toString(16)
-    ).join('');
+  private toHarExchange(entry: any, baseUrl?: string): RecordedExchange | undefined {
+    const request = entry?.request;
+    const response = entry?.response;
+    
+    // Status 0 marks requests that got no response (blocked, aborted)
+    if (!request?.url || !request.method || !response?.status) {
+      return undefined;
+    }
+    
+    let url: string;
+    if (baseUrl) {
+      const base = baseUrl.replace(/\/+$/, '');
+      const rest = request.url.startsWith(base) ? request.url.slice(base.length) : undefined;
+      if (rest === undefined || (rest !== '' && !/^[/?]/.test(rest))) {
+        return undefined;
+      }
+      url = rest.startsWith('/') ? rest : `/${rest}`;
+    } else {
+      if (entry._resourceType && !['xhr', 'fetch'].includes(entry._resourceType)) {
+        return undefined;
+      }
+      try {
+        const parsed = new URL(request.url);
+        url = `${parsed.pathname}${parsed.search}`;
+      } catch {
+        url = request.url;
+      }
+    }
+    
+    const content = response.content || {};
+    const text = typeof content.text === 'string'
+      ? content.encoding === 'base64' ? Buffer.from(content.text, 'base64').toString('utf8') : content.text
+      : undefined;
+    
+    // Only JSON request bodies are validated; form and multipart bodies are skipped
+    const requestHeaders = toHarHeaderValues(request.headers);
+    const requestText = request.postData?.text;
+    const requestType = request.postData?.mimeType || requestHeaders['content-type'] || '';
+    let requestBody: { body?: any; bodyOmitted?: boolean } = {};
+    if (requestText) {
+      requestBody = !requestType || /json/i.test(requestType) ? { body: parseBody(requestText) } : { bodyOmitted: true };
+    }
+    
+    // The response content type is also recorded with the content, which is used when the header is missing
+    const responseHeaders = toHarHeaderValues(response.headers);
+    if (!responseHeaders['content-type'] && typeof content.mimeType === 'string' && content.mimeType) {
+      responseHeaders['content-type'] = content.mimeType;
+    }
+    
+    return {
+      method: String(request.method).toUpperCase(),
+      url,
+      request: {
+        headers: requestHeaders,
+        ...requestBody
+      },
+      response: {
+        status: response.status,
+        headers: responseHeaders,
+        ...(text !== undefined ? { body: parseBody(text) } : content.size !== 0 ? { bodyOmitted: true } : {})
+      },
+      ...(entry.startedDateTime ? { startedAt: entry.startedDateTime } : {}),
+      ...(typeof entry.time === 'number' ? { durationMs: entry.time } : {})
+    };
   }
   
   /**
-   * Generate a truncated key (like "abc...xyz") for mock data
+   * Summarize exchange validation results
    */
-  private generateTruncatedKey(): string {
-    const prefix = Math.random().toString(36).substring(2, 5);
-    const suffix = Math.random().toString(36).substring(2, 5);
-    return `${prefix}...${suffix}`;
+  private createExchangeReport(results: ExchangeValidation[]): ExchangeReport {
+    const valid = results.filter(result => result.valid).length;
+    const unmatched = results.filter(result => !result.matched).length;
+    
+    return {
+      passed: valid === results.length,
+      summary: {
+        total: results.length,
+        valid,
+        invalid: results.length - valid - unmatched,
+        unmatched
+      },
+      results: [...results]
+    };
+  }
+}
+
+/**
+ * Read a contract value that may be a single string or a list of strings
+ */
+function toStringList(value: any): string[] {
+  return (Array.isArray(value) ? value : value ? [value] : [])
+    .filter((entry: any) => typeof entry === 'string');
+}
+
+/**
+ * Read headers into lower-case names and single values, joining repeated headers
+ */
+function toHeaderValues(headers: Record<string, number | string | string[] | undefined>): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      values[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Read HAR headers (`[{ name, value }]`) into lower-case names, joining repeated headers
+ */
+function toHarHeaderValues(headers: any): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const header of Array.isArray(headers) ? headers : []) {
+    if (header && typeof header.name === 'string') {
+      const name = header.name.toLowerCase();
+      values[name] = values[name] !== undefined ? `${values[name]}, ${header.value}` : String(header.value);
+    }
   }
-}
\ No newline at end of file
+  return values;
+}
+
+/**
+ * Use `/` as the path separator, as git does
+ */
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -1,4 +1,11 @@
-import { TypedAPIAdapter, TypedAPIAdapterConfig } from './TypedAPIAdapter';
+import {
+  TypedAPIAdapter,
+  TypedAPIAdapterConfig,
+  ContractFilter,
+  ContractTreeSource,
+  ContractCallRequest,
+  ExportOpenAPIOptions
+} from './TypedAPIAdapter';
 import { AddonCapability, Addon, CapabilityRegistry } from '@craftapit/tester';
 
 /**
@@ -57,6 +64,40 @@ export class TypedAPIAddon implements Addon {
       }
     });
     
+    this.capabilities.push({
+      name: 'listContracts',
+      descriptions: [
+        'Lists the TypedAPI contracts known to the adapter',
+        'Finds contracts by tag, method, role or path prefix',
+        'Looks up the method, path, auth and status codes of contracts'
+      ],
+      examples: [
+        'Given all contracts tagged "admin"',
+        'When I list every contract requiring the "admin" role',
+        'When I find all GET contracts under "/admin"'
+      ],
+      handler: async (filter?: ContractFilter) => {
+        return this.adapter.listContracts(filter);
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'matchRoute',
+      descriptions: [
+        'Finds the TypedAPI contract matching a request method and URL',
+        'Resolves a concrete URL to its contract and extracts path params and query',
+        'Reports ambiguous or missing contracts for a request'
+      ],
+      examples: [
+        'When I send GET "/users/6f1c0b8e-1111-4222-8333-444455556666?page=2"',
+        'Then the request should match the "users/get" contract',
+        'When I find the contract for POST "/admin/api-keys"'
+      ],
+      handler: async (method: string, url: string) => {
+        return this.adapter.matchRoute(method, url);
+      }
+    });
+    
     this.capabilities.push({
       name: 'validateRequestType',
       descriptions: [
@@ -143,6 +184,74 @@ export class TypedAPIAddon implements Addon {
       }
     });
     
+    this.capabilities.push({
+      name: 'exportOpenAPI',
+      descriptions: [
+        'Exports TypedAPI contracts as an OpenAPI 3.1 document',
+        'Publishes the contracts as OpenAPI JSON or YAML',
+        'Converts all discovered contracts to a single OpenAPI specification'
+      ],
+      examples: [
+        'When I export the contracts to OpenAPI',
+        'When I export the contracts to OpenAPI as YAML to "openapi.yaml"',
+        'Then the OpenAPI document should describe every contract'
+      ],
+      handler: async (options?: ExportOpenAPIOptions) => {
+        return this.adapter.exportOpenAPI(options);
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'diffContracts',
+      descriptions: [
+        'Compares two versions of TypedAPI contracts for breaking changes',
+        'Checks that contract changes are backward compatible',
+        'Classifies contract changes as breaking, potentially breaking or non-breaking'
+      ],
+      examples: [
+        'When I compare the contracts in "contracts-v1" with "contracts"',
+        'When I compare contract "users/get" with its version at "main"',
+        'Then the contract changes should be backward compatible'
+      ],
+      handler: async (before: ContractTreeSource, after: ContractTreeSource) => {
+        return this.adapter.diffContracts(before, after);
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'exportJsonSchemas',
+      descriptions: [
+        'Exports contract schemas as JSON Schema (draft 2020-12)',
+        'Publishes the params, query, body and response schemas for non-TypeScript consumers',
+        'Converts a contract or a directory of contracts to JSON Schema documents'
+      ],
+      examples: [
+        'When I export the JSON Schemas of contract "users/get"',
+        'When I export the JSON Schemas of the contracts in "admin" to "schemas"',
+        'Then each exported JSON Schema should have a stable $id'
+      ],
+      handler: async (target?: string, outputDir?: string) => {
+        return this.adapter.exportJsonSchemas(target, outputDir ? { outputDir } : {});
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'importOpenAPI',
+      descriptions: [
+        'Imports an OpenAPI 3.0 or 3.1 document as TypedAPI contracts',
+        'Generates contract files from an OpenAPI JSON or YAML specification',
+        'Onboards a third-party API from its OpenAPI document'
+      ],
+      examples: [
+        'Given I import the OpenAPI document "specs/petstore.yaml"',
+        'Given I import the OpenAPI document "specs/billing.json" into "contracts/billing"',
+        'Then the imported contracts should be valid'
+      ],
+      handler: async (sourcePath: string, outputDir?: string) => {
+        return this.adapter.importOpenAPI(sourcePath, outputDir ? { outputDir } : {});
+      }
+    });
+    
     // Type Checking Capabilities
     this.capabilities.push({
       name: 'generateTypes',
@@ -156,8 +265,8 @@ export class TypedAPIAddon implements Addon {
         'Then I should get valid TypeScript types',
         'When I extract type definitions from the contract'
       ],
-      handler: async (contractPath: string) => {
-        return this.adapter.generateTypes(contractPath);
+      handler: async (contractPath: string, outputDir?: string) => {
+        return this.adapter.generateTypes(contractPath, { outputDir });
       }
     });
     
@@ -174,7 +283,7 @@ export class TypedAPIAddon implements Addon {
         'Then the type should be defined in the contract'
       ],
       handler: async (contractPath: string, typeName: string) => {
-        return this.adapter.checkTypeExistence(contractPath, typeName);
+        return this.adapter.inspectTypeExistence(contractPath, typeName);
       }
     });
     
@@ -187,11 +296,13 @@ export class TypedAPIAddon implements Addon {
       ],
       examples: [
         'Then the UserRequest type should have a "username" property',
+        'Then the User type should have a "address.city" property',
+        'Then the "status" property of the User type should be `\'active\' | \'revoked\'`',
         'When I check if the property exists on the type',
         'Then the type should have the required field'
       ],
-      handler: async (contractPath: string, typeName: string, propertyName: string) => {
-        return this.adapter.checkTypeProperty(contractPath, typeName, propertyName);
+      handler: async (contractPath: string, typeName: string, propertyPath: string, expectedType?: string) => {
+        return this.adapter.inspectTypeProperty(contractPath, typeName, propertyPath, expectedType);
       }
     });
     
@@ -204,11 +315,157 @@ export class TypedAPIAddon implements Addon {
       ],
       examples: [
         'When I generate a mock response',
+        'When I generate a mock 404 response',
         'Given I have a sample response',
         'When I create test data for the response'
       ],
-      handler: async (contractPath: string) => {
-        return this.adapter.generateMockResponse(contractPath);
+      handler: async (contractPath: string, statusCode?: number) => {
+        return this.adapter.generateMockResponse(contractPath, statusCode);
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'verifyProvider',
+      descriptions: [
+        'Verifies a running API against the TypedAPI contracts',
+        'Sends a generated request for each contract and validates the response',
+        'Checks that the implementation conforms to the contracts'
+      ],
+      examples: [
+        'When I verify the API at "http://localhost:3000" against the contracts',
+        'When I verify the API at "http://localhost:3000" against the contracts tagged "users"',
+        'Then every contract should pass'
+      ],
+      handler: async (baseUrl: string, contracts?: string[] | ContractFilter, authToken?: string) => {
+        return this.adapter.verifyProvider(baseUrl, { contracts, authToken });
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'callContract',
+      descriptions: [
+        'Calls an API endpoint through its TypedAPI contract',
+        'Sends a request built from the contract and validates the request and the response'
+      ],
+      examples: [
+        'When I call "users/get" on "http://localhost:3000" with params { "userId": "6f1c0b8e-1111-4222-8333-444455556666" }',
+        'When I call "POST /users" on "http://localhost:3000" with body { "name": "Ada" }',
+        'Then the response should satisfy the contract'
+      ],
+      handler: async (contract: string, baseUrl: string, request?: ContractCallRequest, strict?: boolean) => {
+        const client = await this.adapter.createClient(baseUrl, { strict });
+        if (!client[contract]) {
+          throw new Error(`No contract "${contract}" to call`);
+        }
+        return client[contract](request);
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'startProxy',
+      descriptions: [
+        'Starts a local proxy validating live traffic against the TypedAPI contracts',
+        'Forwards requests to a backend and logs contract violations',
+        'Records exchanges with a backend as fixtures'
+      ],
+      examples: [
+        'Given a validating proxy in front of "http://localhost:8080"',
+        'Given a validating proxy in front of "http://localhost:8080" recording to "recordings/session.ndjson"'
+      ],
+      handler: async (target: string, recordPath?: string) => {
+        return { url: await this.adapter.startProxy({ target, ...(recordPath ? { recordPath } : {}) }) };
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'getProxyReport',
+      descriptions: [
+        'Reports the contract violations seen by the proxy',
+        'Checks that the traffic through the proxy satisfied the contracts'
+      ],
+      examples: [
+        'Then the traffic through the proxy should satisfy the contracts'
+      ],
+      handler: async () => {
+        return this.adapter.getProxyReport();
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'replayExchanges',
+      descriptions: [
+        'Replays recorded exchanges against the TypedAPI contracts offline',
+        'Validates a recording of live traffic against the current contracts'
+      ],
+      examples: [
+        'When I replay the exchanges recorded in "recordings/session.ndjson"',
+        'Then every recorded exchange should satisfy its contract'
+      ],
+      handler: async (recordingPath: string) => {
+        return this.adapter.replayExchanges(recordingPath);
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'validateHar',
+      descriptions: [
+        'Validates the API calls in a HAR file against the TypedAPI contracts',
+        'Checks a recorded browser or Playwright session for contract violations',
+        'Finds undocumented API usage in a HAR capture'
+      ],
+      examples: [
+        'When I validate the HAR file "captures/checkout.har"',
+        'When I validate the HAR file "captures/checkout.har" for the API at "https://app.example.com/api"',
+        'Then there should be no undocumented API usage'
+      ],
+      handler: async (harPath: string, baseUrl?: string) => {
+        return this.adapter.validateHar(harPath, baseUrl ? { baseUrl } : {});
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'startMockServer',
+      descriptions: [
+        'Starts a local mock HTTP server answering requests from the TypedAPI contracts',
+        'Provides a fake backend generated from the contracts',
+        'Serves schema-generated mock responses for every contract route'
+      ],
+      examples: [
+        'Given the mock server is running',
+        'Given a fake backend for the contracts'
+      ],
+      handler: async () => {
+        return { url: await this.adapter.startMockServer() };
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'overrideMockRoute',
+      descriptions: [
+        'Forces the status a mock server route responds with',
+        'Simulates error responses from the mock server'
+      ],
+      examples: [
+        'Given the mock server responds to "users/get" with status 404',
+        'Given the mock server responds to "POST /users" with status 503'
+      ],
+      handler: async (route: string, status: number, body?: any) => {
+        this.adapter.setMockOverride(route, { status, ...(body !== undefined ? { body } : {}) });
+        return { route, status };
+      }
+    });
+    
+    this.capabilities.push({
+      name: 'stopMockServer',
+      descriptions: [
+        'Stops the local mock HTTP server'
+      ],
+      examples: [
+        'When I stop the mock server'
+      ],
+      handler: async () => {
+        await this.adapter.stopMockServer();
+        return { stopped: true };
       }
     });
   }
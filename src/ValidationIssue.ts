@@ -0,0 +1,99 @@
+/**
+ * Severity of a validation issue
+ *
+ * - `error` fails the validation
+ * - `warning` is reported but doesn't fail the validation
+ * - `info` is an opt-in hint
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Location of an issue inside a contract file (1-based)
+ */
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * A single structured validation finding
+ */
+export interface ValidationIssue {
+  /**
+   * Stable rule code, e.g. `request.path-param-missing`
+   */
+  code: string;
+  
+  /**
+   * Severity of the issue
+   */
+  severity: ValidationSeverity;
+  
+  /**
+   * JSON pointer to the offending value (e.g. `/params/userId`), empty for the root
+   */
+  dataPath: string;
+  
+  /**
+   * Where the relevant rule or schema is declared in the contract file
+   */
+  location?: SourceLocation;
+  
+  /**
+   * Human readable message
+   */
+  message: string;
+  
+  /**
+   * The expected constraint, for schema issues
+   */
+  expected?: string;
+  
+  /**
+   * The received value, for schema issues
+   */
+  received?: unknown;
+}
+
+/**
+ * Create a validation issue
+ */
+export function createIssue(
+  code: string,
+  severity: ValidationSeverity,
+  message: string,
+  extra: Partial<Omit<ValidationIssue, 'code' | 'severity' | 'message'>> = {}
+): ValidationIssue {
+  return {
+    code,
+    severity,
+    dataPath: extra.dataPath ?? '',
+    message,
+    ...extra
+  };
+}
+
+/**
+ * Build a JSON pointer from the keys leading to a value (`['user', 'roles', 0]` → `/user/roles/0`)
+ *
+ * Keys are escaped, so `['a.b']` becomes `/a.b` and `['a/b']` becomes `/a~1b`.
+ */
+export function toJsonPointer(keys: Array<string | number>): string {
+  return keys
+    .map(key => '/' + String(key).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('');
+}
+
+/**
+ * Derive the legacy string views from a list of issues
+ */
+export function summarizeIssues(issues: ValidationIssue[]): { errors?: string[]; warnings?: string[] } {
+  const errors = issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+  const warnings = issues.filter(issue => issue.severity === 'warning').map(issue => issue.message);
+  
+  return {
+    errors: errors.length > 0 ? errors : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined
+  };
+}
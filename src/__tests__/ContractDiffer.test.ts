@@ -0,0 +1,86 @@
+import { ContractDiffer, ContractSnapshot } from '../ContractDiffer';
+import { schemaOf } from './schemas';
+
+const auth = { requiresAuthentication: false, roles: [], scopes: [] };
+
+const createUser: ContractSnapshot = {
+  id: 'users/create',
+  method: 'post',
+  path: '/users',
+  tags: [],
+  auth,
+  body: schemaOf('z.object({ name: z.string(), nickname: z.string().optional() })'),
+  responses: [
+    { status: 201, schema: schemaOf(`z.object({ id: z.string(), role: z.enum(['user', 'admin']), email: z.string() })`) },
+    { status: 409 }
+  ]
+};
+
+/**
+ * Codes and severities of the changes between two versions of one contract
+ */
+function changesOf(before: ContractSnapshot, after: ContractSnapshot): Array<[string, string, string | undefined]> {
+  return new ContractDiffer().diff([before], [after]).changes.map(change => [change.code, change.severity, change.schemaPath]);
+}
+
+describe('ContractDiffer', () => {
+  it('reports nothing for identical contracts', () => {
+    const report = new ContractDiffer().diff([createUser], [createUser]);
+    
+    expect(report.compatible).toBe(true);
+    expect(report.changes).toEqual([]);
+    expect(report.compared).toEqual(['users/create']);
+  });
+  
+  it('treats tightened requests as breaking and loosened ones as safe', () => {
+    expect(changesOf(createUser, {
+      ...createUser,
+      body: schemaOf('z.object({ name: z.string().min(2), nickname: z.string() })')
+    })).toEqual([
+      ['schema.constraint-tightened', 'breaking', 'body.name'],
+      ['schema.field-required', 'breaking', 'body.nickname']
+    ]);
+    expect(changesOf(createUser, {
+      ...createUser,
+      body: schemaOf('z.object({ name: z.string().optional(), nickname: z.string().optional() })')
+    }).map(([, severity]) => severity)).toEqual(['non-breaking']);
+  });
+  
+  it('judges responses from the point of view of the client', () => {
+    expect(changesOf(createUser, {
+      ...createUser,
+      responses: [
+        { status: 201, schema: schemaOf(`z.object({ id: z.string(), role: z.enum(['user', 'admin', 'owner']), avatar: z.string().optional() })`) }
+      ]
+    })).toEqual([
+      ['schema.enum-values-added', 'potentially-breaking', 'response.201.role'],
+      ['schema.field-removed', 'breaking', 'response.201.email'],
+      ['schema.field-added', 'non-breaking', 'response.201.avatar'],
+      ['response.status-removed', 'breaking', 'response.409']
+    ]);
+  });
+  
+  it('matches moved contracts by method and path', () => {
+    const getUser: ContractSnapshot = { id: 'users/get', method: 'get', path: '/users/:id', tags: [], auth, responses: [{ status: 200 }] };
+    const report = new ContractDiffer().diff([getUser], [{ ...getUser, id: 'users/show', path: '/users/:userId' }]);
+    
+    expect(report.changes.map(change => [change.code, change.severity])).toEqual([
+      ['contract.moved', 'non-breaking'],
+      ['contract.path-param-renamed', 'non-breaking']
+    ]);
+    expect(report.compared).toEqual(['users/show']);
+    expect(report.added).toEqual([]);
+    expect(report.removed).toEqual([]);
+  });
+  
+  it('reports removed and added contracts and summarizes by severity', () => {
+    const deleteUser: ContractSnapshot = { id: 'users/delete', method: 'delete', path: '/users/:id', tags: [], auth, responses: [{ status: 204 }] };
+    const report = new ContractDiffer().diff([createUser, deleteUser], [createUser, { ...deleteUser, id: 'accounts/delete', path: '/accounts/:id' }]);
+    
+    expect(report.compatible).toBe(false);
+    expect(report.removed).toEqual(['users/delete']);
+    expect(report.added).toEqual(['accounts/delete']);
+    expect(report.summary).toEqual({ breaking: 1, potentiallyBreaking: 0, nonBreaking: 1 });
+    expect(report.changes[0].message).toBe('DELETE /users/:id was removed');
+  });
+});
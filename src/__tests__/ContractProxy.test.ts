@@ -0,0 +1,182 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ContractProxy, RecordedExchange, redactExchange } from '../ContractProxy';
+
+/**
+ * Send a request with the request target exactly as given, e.g. `//other.example/users`
+ */
+function rawRequest(
+  baseUrl: string,
+  method: string,
+  target: string,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; text: string }> {
+  const { hostname, port } = new URL(baseUrl);
+  
+  return new Promise((resolve, reject) => {
+    const request = http.request({ hostname, port, method, path: target, headers }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => resolve({
+        status: response.statusCode || 0,
+        headers: response.headers,
+        text: Buffer.concat(chunks).toString('utf8')
+      }));
+    });
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+describe('ContractProxy', () => {
+  const received: Array<{ method?: string; url?: string; host?: string }> = [];
+  let backend: http.Server;
+  let backendUrl: string;
+  let proxy: ContractProxy | undefined;
+  
+  beforeAll(async () => {
+    backend = http.createServer((request, response) => {
+      received.push({ method: request.method, url: request.url, host: request.headers.host });
+      if (request.url?.endsWith('/cached')) {
+        response.writeHead(304, { 'Content-Length': '42', ETag: '"v1"' });
+        response.end();
+      } else if (request.method === 'HEAD') {
+        response.writeHead(200, { 'Content-Type': 'application/json', 'Content-Length': '42' });
+        response.end();
+      } else {
+        response.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': 'session=secret' });
+        response.end(JSON.stringify({ id: 1 }));
+      }
+    });
+    await new Promise<void>(resolve => backend.listen(0, '127.0.0.1', () => resolve()));
+    backendUrl = `http://127.0.0.1:${(backend.address() as AddressInfo).port}`;
+  });
+  
+  afterAll(async () => {
+    await new Promise(resolve => backend.close(resolve));
+  });
+  
+  afterEach(async () => {
+    await proxy?.stop();
+    proxy = undefined;
+    received.length = 0;
+  });
+  
+  it('forwards requests below the target path and reports the exchange', async () => {
+    const exchanges: RecordedExchange[] = [];
+    proxy = new ContractProxy(exchange => {
+      exchanges.push(exchange);
+    }, { target: `${backendUrl}/api/` });
+    const url = await proxy.start();
+    
+    const response = await rawRequest(url, 'GET', '/users?page=2', { Authorization: 'Bearer token' });
+    await proxy.stop();
+    
+    expect(response.status).toBe(200);
+    expect(response.text).toBe('{"id":1}');
+    expect(received).toEqual([{ method: 'GET', url: '/api/users?page=2', host: new URL(backendUrl).host }]);
+    expect(exchanges).toHaveLength(1);
+    expect(exchanges[0]).toMatchObject({
+      method: 'GET',
+      url: '/users?page=2',
+      request: { headers: { authorization: 'Bearer token' } },
+      response: { status: 200, body: { id: 1 } }
+    });
+  });
+  
+  it.each([
+    ['a protocol-relative target', '//evil.example/users'],
+    ['a backslash target', '/\\evil.example/users'],
+    ['an absolute URL', 'http://evil.example/users'],
+    ['an asterisk', '*']
+  ])('refuses to forward %s', async (_, target) => {
+    const onError = jest.fn();
+    const listener = jest.fn();
+    proxy = new ContractProxy(listener, { target: backendUrl, onError });
+    const url = await proxy.start();
+    
+    const response = await rawRequest(url, 'GET', target);
+    await proxy.stop();
+    
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.text)).toEqual({ error: `Proxy only forwards paths, not ${JSON.stringify(target)}` });
+    expect(received).toEqual([]);
+    expect(listener).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), { method: 'GET', url: target });
+  });
+  
+  it('keeps the length of HEAD and 304 responses', async () => {
+    proxy = new ContractProxy(() => undefined, { target: backendUrl });
+    const url = await proxy.start();
+    
+    const head = await rawRequest(url, 'HEAD', '/users');
+    const notModified = await rawRequest(url, 'GET', '/users/cached');
+    const get = await rawRequest(url, 'GET', '/users');
+    
+    expect([head.status, head.headers['content-length'], head.text]).toEqual([200, '42', '']);
+    expect([notModified.status, notModified.headers['content-length'], notModified.text]).toEqual([304, '42', '']);
+    expect(get.headers['content-length']).toBe('8');
+  });
+  
+  it('answers with a 502 and reports the error when the target cannot be reached', async () => {
+    const unreachable = http.createServer();
+    await new Promise<void>(resolve => unreachable.listen(0, '127.0.0.1', () => resolve()));
+    const port = (unreachable.address() as AddressInfo).port;
+    await new Promise(resolve => unreachable.close(resolve));
+    
+    const onError = jest.fn();
+    const listener = jest.fn();
+    proxy = new ContractProxy(listener, { target: `http://127.0.0.1:${port}`, onError });
+    const url = await proxy.start();
+    
+    const response = await rawRequest(url, 'GET', '/users');
+    await proxy.stop();
+    
+    expect(response.status).toBe(502);
+    expect(JSON.parse(response.text).error).toMatch(/^Proxy could not reach http:\/\/127\.0\.0\.1:\d+: /);
+    expect(listener).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toMatch(/ECONNREFUSED/);
+  });
+  
+  it('reports failing exchange listeners without affecting the client', async () => {
+    const onError = jest.fn();
+    proxy = new ContractProxy(async () => {
+      throw new Error('disk full');
+    }, { target: backendUrl, onError });
+    const url = await proxy.start();
+    
+    const response = await rawRequest(url, 'GET', '/users');
+    await proxy.stop();
+    
+    expect(response.status).toBe(200);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toBe('Failed to handle exchange GET /users: disk full');
+  });
+  
+  it('rejects when the port is already in use', async () => {
+    proxy = new ContractProxy(() => undefined, { target: backendUrl });
+    const url = await proxy.start();
+    
+    const second = new ContractProxy(() => undefined, { target: backendUrl, port: Number(new URL(url).port) });
+    await expect(second.start()).rejects.toMatchObject({ code: 'EADDRINUSE' });
+  });
+});
+
+describe('redactExchange', () => {
+  it('redacts credential headers in both directions', () => {
+    const exchange: RecordedExchange = {
+      method: 'GET',
+      url: '/users',
+      request: { headers: { authorization: 'Bearer token', accept: 'application/json' } },
+      response: { status: 200, headers: { 'set-cookie': 'session=secret', 'content-type': 'application/json' } }
+    };
+    
+    expect(redactExchange(exchange)).toEqual({
+      ...exchange,
+      request: { headers: { authorization: '[REDACTED]', accept: 'application/json' } },
+      response: { status: 200, headers: { 'set-cookie': '[REDACTED]', 'content-type': 'application/json' } }
+    });
+    expect(exchange.request.headers.authorization).toBe('Bearer token');
+  });
+});
@@ -0,0 +1,88 @@
+import { MockServer, MockServerRequest } from '../MockServer';
+import { sendHttpRequest } from '../HttpTransport';
+
+describe('MockServer', () => {
+  const servers: MockServer[] = [];
+  
+  /**
+   * Start a server that is stopped after the test
+   */
+  async function start(server: MockServer): Promise<string> {
+    servers.push(server);
+    return server.start();
+  }
+  
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.stop()));
+  });
+  
+  it('passes parsed requests to the handler and sends its response as JSON', async () => {
+    const received: MockServerRequest[] = [];
+    const url = await start(new MockServer(async request => {
+      received.push(request);
+      return { status: 201, body: { id: 1 }, headers: { 'X-Request-Id': 'abc' } };
+    }));
+    
+    const response = await sendHttpRequest({ method: 'POST', url: `${url}/users?page=2`, body: { name: 'Ada' } });
+    
+    expect(received.map(request => [request.method, request.url, request.body])).toEqual([['POST', '/users?page=2', { name: 'Ada' }]]);
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual({ id: 1 });
+    expect(response.headers['content-type']).toBe('application/json; charset=utf-8');
+    expect(response.headers['x-request-id']).toBe('abc');
+  });
+  
+  it('sends no body for HEAD requests', async () => {
+    const url = await start(new MockServer(async () => ({ status: 200, body: { id: 1 } })));
+    
+    const response = await sendHttpRequest({ method: 'HEAD', url: `${url}/users` });
+    
+    expect(response.status).toBe(200);
+    expect(response.text).toBe('');
+  });
+  
+  it('answers errors thrown by the handler with a 500', async () => {
+    const url = await start(new MockServer(async () => {
+      throw new Error('no route');
+    }));
+    
+    const response = await sendHttpRequest({ method: 'GET', url: `${url}/users` });
+    
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({ error: 'Mock server error: no route' });
+  });
+  
+  it('reports responses it cannot send to onError', async () => {
+    const onError = jest.fn();
+    const url = await start(new MockServer(async () => ({ status: 200, headers: { 'X-Bad': 'line\nbreak' } }), { onError }));
+    
+    const response = await sendHttpRequest({ method: 'GET', url: `${url}/users` });
+    
+    expect(response.status).toBe(500);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toMatch(/^Mock server failed to answer GET \/users: /);
+    expect(onError.mock.calls[0][1]).toEqual({ method: 'GET', url: '/users' });
+  });
+  
+  it('rejects when the port is already in use', async () => {
+    const url = await start(new MockServer(async () => ({ status: 204 })));
+    const port = Number(new URL(url).port);
+    const second = new MockServer(async () => ({ status: 204 }), { port });
+    
+    await expect(second.start()).rejects.toMatchObject({ code: 'EADDRINUSE' });
+    expect(second.listening).toBe(false);
+    expect(second.url).toBeUndefined();
+  });
+  
+  it('stops listening and can be stopped twice', async () => {
+    const server = new MockServer(async () => ({ status: 204 }));
+    const url = await start(server);
+    
+    expect(server.listening).toBe(true);
+    await server.stop();
+    await server.stop();
+    
+    expect(server.listening).toBe(false);
+    await expect(sendHttpRequest({ method: 'GET', url })).rejects.toThrow();
+  });
+});
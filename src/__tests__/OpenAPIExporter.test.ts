@@ -0,0 +1,90 @@
+import { OpenAPIExporter, OpenAPIContractSource, toOpenAPIPath } from '../OpenAPIExporter';
+import { schemaOf } from './schemas';
+
+const declarations = `
+const UserSchema = z.object({ id: z.string().uuid(), name: z.string() });
+const BodySchema = z.object({ permissions: z.array(z.string()) });
+const ParamsSchema = z.object({ userId: z.string().uuid() });
+`;
+
+const getUser: OpenAPIContractSource = {
+  id: 'users/get',
+  method: 'GET',
+  path: '/users/:userId',
+  tags: ['users'],
+  params: schemaOf('ParamsSchema', declarations),
+  query: schemaOf('z.object({ expand: z.string().optional() })'),
+  responses: [{ status: 200, schema: schemaOf('UserSchema', declarations) }, { status: 404 }]
+};
+
+const updatePermissions: OpenAPIContractSource = {
+  id: 'users/permissions',
+  method: 'PUT',
+  path: '/users/:userId/permissions',
+  tags: ['users', 'admin'],
+  params: schemaOf('ParamsSchema', declarations),
+  body: schemaOf('BodySchema', declarations),
+  responses: [{ status: 204 }],
+  auth: { requiresAuthentication: true, roles: ['admin'], scopes: ['users:write'] }
+};
+
+describe('OpenAPIExporter', () => {
+  const document = new OpenAPIExporter({ title: 'Users' }).export([getUser, updatePermissions]);
+  
+  it('converts Express path templates', () => {
+    expect(toOpenAPIPath('/users/:userId/posts/:postId?')).toBe('/users/{userId}/posts/{postId}');
+    expect(Object.keys(document.paths)).toEqual(['/users/{userId}', '/users/{userId}/permissions']);
+  });
+  
+  it('builds operations with parameters and responses', () => {
+    const operation = document.paths['/users/{userId}'].get;
+    
+    expect(operation.operationId).toBe('usersGet');
+    expect(operation.parameters.map((parameter: any) => [parameter.name, parameter.in, parameter.required])).toEqual([
+      ['userId', 'path', true],
+      ['expand', 'query', false]
+    ]);
+    expect(operation.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/User' });
+    expect(operation.responses['404']).toEqual({ description: 'Not Found' });
+  });
+  
+  it('shares named schemas as components under their own name', () => {
+    expect(document.components.schemas.User).toMatchObject({
+      type: 'object',
+      properties: { id: { type: 'string', format: 'uuid' }, name: { type: 'string' } }
+    });
+  });
+  
+  it('prefixes generic schema names with the contract', () => {
+    const operation = document.paths['/users/{userId}/permissions'].put;
+    
+    expect(operation.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/UsersPermissionsBody' });
+    expect(document.components.schemas).not.toHaveProperty('Body');
+  });
+  
+  it('lists scopes in the security requirement and roles in x-roles', () => {
+    const operation = document.paths['/users/{userId}/permissions'].put;
+    
+    expect(operation.security).toEqual([{ bearerAuth: ['users:write'] }]);
+    expect(operation['x-roles']).toEqual(['admin']);
+    expect(document.components.securitySchemes).toEqual({ bearerAuth: { type: 'http', scheme: 'bearer' } });
+    expect(document.paths['/users/{userId}'].get).not.toHaveProperty('x-roles');
+  });
+  
+  it('warns about operations it cannot export', () => {
+    const exporter = new OpenAPIExporter();
+    const result = exporter.export([getUser, { ...getUser, id: 'users/get-again' }, { ...getUser, id: 'users/connect', method: 'CONNECT' }]);
+    
+    expect(Object.keys(result.paths['/users/{userId}'])).toEqual(['get']);
+    expect(exporter.warnings).toEqual([
+      'users/get-again: GET /users/{userId} is already exported by usersGet',
+      'users/connect: unsupported HTTP method "CONNECT"'
+    ]);
+  });
+  
+  it('serializes as YAML', () => {
+    const yaml = new OpenAPIExporter({ format: 'yaml' }).serialize(document);
+    
+    expect(yaml.startsWith('openapi: 3.1.0\n')).toBe(true);
+  });
+});
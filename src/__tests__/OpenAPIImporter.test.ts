@@ -0,0 +1,89 @@
+import { OpenAPIImporter, parseOpenAPIDocument } from '../OpenAPIImporter';
+
+const document = {
+  openapi: '3.1.0',
+  info: { title: 'Users', version: '1.0.0' },
+  paths: {
+    '/users/{userId}': {
+      parameters: [{ name: 'userId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+      get: {
+        operationId: 'getUser',
+        responses: {
+          '200': { description: 'The user', content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } }
+        }
+      },
+      put: {
+        operationId: 'updatePermissions',
+        security: [{ bearerAuth: ['users:write'] }],
+        'x-roles': ['admin'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { permissions: { type: 'array', items: { type: 'string' } } }, required: ['permissions'] }
+            }
+          }
+        },
+        responses: { '204': { description: 'Updated' } }
+      },
+      head: { responses: { '200': { description: 'Exists' } } }
+    }
+  },
+  components: {
+    schemas: {
+      User: { type: 'object', properties: { id: { type: 'string', format: 'uuid' }, name: { type: 'string' } }, required: ['id'] }
+    }
+  }
+};
+
+describe('OpenAPIImporter', () => {
+  const importer = new OpenAPIImporter();
+  const files = importer.import(document);
+  const file = (filePath: string) => files.find(candidate => candidate.path === filePath)!;
+  
+  it('generates a schema module per component and a contract per operation', () => {
+    expect(files.map(candidate => [candidate.path, candidate.kind, candidate.operation])).toEqual([
+      ['schemas/User.ts', 'schema', undefined],
+      ['users/get-user.contracts.ts', 'contract', 'GET /users/{userId}'],
+      ['users/update-permissions.contracts.ts', 'contract', 'PUT /users/{userId}']
+    ]);
+    expect(file('schemas/User.ts').content).toContain('export const UserSchema = z.object({\n  id: z.string().uuid(),\n  name: z.string().optional()\n});');
+  });
+  
+  it('imports referenced components and converts path templates', () => {
+    const contract = file('users/get-user.contracts.ts').content;
+    
+    expect(contract).toContain(`import { UserSchema } from '../schemas/User';`);
+    expect(contract).toContain(`path: '/users/:userId'`);
+    expect(contract).toContain('userId: z.string().uuid()');
+    expect(contract).toContain('schema: UserSchema');
+  });
+  
+  it('reads roles from x-roles and scopes from the security requirement', () => {
+    const contract = file('users/update-permissions.contracts.ts').content;
+    
+    expect(contract).toContain("roles: ['admin'],\n      scopes: ['users:write']");
+    expect(contract).toContain('permissions: z.array(z.string())');
+  });
+  
+  it('warns about operations contracts cannot express', () => {
+    expect(importer.warnings).toEqual(['HEAD /users/{userId}: contracts cannot use the HEAD method, the operation was skipped']);
+  });
+  
+  it('rejects documents that are not OpenAPI 3.0 or 3.1', () => {
+    expect(() => new OpenAPIImporter().import({ swagger: '2.0' })).toThrow('Unsupported OpenAPI version: missing');
+    expect(() => new OpenAPIImporter().import({ openapi: '4.0.0' })).toThrow('Unsupported OpenAPI version: 4.0.0');
+  });
+});
+
+describe('parseOpenAPIDocument', () => {
+  it('parses JSON and YAML', () => {
+    expect(parseOpenAPIDocument('{ "openapi": "3.1.0" }')).toEqual({ openapi: '3.1.0' });
+    expect(parseOpenAPIDocument('openapi: 3.0.3\npaths: {}\n')).toEqual({ openapi: '3.0.3', paths: {} });
+  });
+  
+  it('rejects content that is not an object', () => {
+    expect(() => parseOpenAPIDocument('just text')).toThrow('The document is not a JSON or YAML object');
+    expect(() => parseOpenAPIDocument('{ "openapi": ')).toThrow(SyntaxError);
+  });
+});
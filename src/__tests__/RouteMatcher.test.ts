@@ -0,0 +1,72 @@
+import { RouteMatcher } from '../RouteMatcher';
+
+describe('RouteMatcher', () => {
+  const matcher = new RouteMatcher<string>();
+  matcher.add({ method: 'GET', path: '/users/:userId', data: 'get-user' });
+  matcher.add({ method: 'GET', path: '/users/me', data: 'get-me' });
+  matcher.add({ method: 'DELETE', path: '/users/:userId', data: 'delete-user' });
+  matcher.add({ method: 'GET', path: '/users/:userId/posts/:postId?', data: 'get-posts' });
+  matcher.add({ method: 'GET', path: '/orgs/:orgId/members', data: 'org-members' });
+  matcher.add({ method: 'GET', path: '/:orgSlug/members', data: 'slug-members' });
+  matcher.add({ method: 'GET', path: '/teams/:teamId', data: 'team-by-id' });
+  matcher.add({ method: 'GET', path: '/teams/:teamSlug', data: 'team-by-slug' });
+  
+  it('extracts path params and parses the query', () => {
+    const { match } = matcher.match('get', '/users/42?tag=a&tag=b&page=2');
+    
+    expect(match?.route.data).toBe('get-user');
+    expect(match?.params).toEqual({ userId: '42' });
+    expect(match?.query).toEqual({ tag: ['a', 'b'], page: '2' });
+  });
+  
+  it('prefers static segments over params', () => {
+    expect(matcher.match('GET', '/users/me').match?.route.data).toBe('get-me');
+    expect(matcher.match('GET', '/orgs/acme/members').match?.route.data).toBe('org-members');
+  });
+  
+  it('matches optional params whether or not they are given', () => {
+    expect(matcher.match('GET', '/users/42/posts').match?.params).toEqual({ userId: '42' });
+    expect(matcher.match('GET', '/users/42/posts/7').match?.params).toEqual({ userId: '42', postId: '7' });
+  });
+  
+  it('reports the allowed methods when only the path matches', () => {
+    const result = matcher.match('PUT', '/users/42');
+    
+    expect(result.match).toBeUndefined();
+    expect(result.allowedMethods).toEqual(['delete', 'get']);
+  });
+  
+  it('reports equally specific routes as ambiguous', () => {
+    const result = matcher.match('GET', '/teams/red');
+    
+    expect(result.match).toBeUndefined();
+    expect(result.ambiguous.map(match => match.route.data)).toEqual(['team-by-id', 'team-by-slug']);
+  });
+  
+  it('decodes params after splitting the path, so encoded slashes stay inside one param', () => {
+    const { match } = matcher.match('GET', '/users/a%2Fposts%2F1');
+    
+    expect(match?.route.data).toBe('get-user');
+    expect(match?.params).toEqual({ userId: 'a/posts/1' });
+  });
+  
+  it('keeps malformed escapes as they are', () => {
+    expect(matcher.match('GET', '/users/%E0%A4%A').match?.params).toEqual({ userId: '%E0%A4%A' });
+  });
+  
+  it('resolves dot segments, encoded or not, before matching', () => {
+    expect(matcher.match('GET', '/users/42/../me').match?.route.data).toBe('get-me');
+    expect(matcher.match('GET', '/users/%2e%2e/users/me').match?.route.data).toBe('get-me');
+  });
+  
+  it('only matches the path of absolute URLs', () => {
+    const { match } = matcher.match('GET', 'http://other.example/users/42?page=1');
+    
+    expect(match?.route.data).toBe('get-user');
+    expect(match?.query).toEqual({ page: '1' });
+  });
+  
+  it('matches nothing for unknown paths', () => {
+    expect(matcher.match('GET', '/unknown/path/here')).toEqual({ ambiguous: [], allowedMethods: [] });
+  });
+});
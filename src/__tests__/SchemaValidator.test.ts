@@ -0,0 +1,67 @@
+import { SchemaValidator } from '../SchemaValidator';
+import { schemaOf } from './schemas';
+
+describe('SchemaValidator', () => {
+  const user = schemaOf('z.object({ id: z.string().uuid(), age: z.number().int().positive().optional(), tags: z.array(z.string()) })');
+  const valid = { id: '11111111-2222-4333-8444-555555555555', tags: ['a'] };
+  
+  it('accepts values matching the schema', () => {
+    const outcome = new SchemaValidator().validate(user, valid);
+    
+    expect(outcome.issues).toEqual([]);
+    expect(outcome.warnings).toEqual([]);
+    expect(outcome.value).toEqual(valid);
+  });
+  
+  it('reports failing constraints with their path and JSON pointer', () => {
+    const outcome = new SchemaValidator().validate(user, { id: 'not-a-uuid', age: 1.5, tags: ['a', 2] }, 'body');
+    
+    expect(outcome.issues.map(issue => [issue.code, issue.path, issue.pointer, issue.expected])).toEqual([
+      ['constraint', 'body.id', '/body/id', 'uuid'],
+      ['constraint', 'body.age', '/body/age', 'int'],
+      ['invalid-type', 'body.tags[1]', '/body/tags/1', 'string']
+    ]);
+    expect(outcome.issues[0].message).toBe('body.id: expected uuid, received "not-a-uuid"');
+  });
+  
+  it('escapes keys in JSON pointers', () => {
+    const outcome = new SchemaValidator().validate(schemaOf('z.record(z.number())'), { 'a/b~c': 'x' });
+    
+    expect(outcome.issues.map(issue => issue.pointer)).toEqual(['/a~1b~0c']);
+  });
+  
+  it('warns about extra properties by default', () => {
+    const outcome = new SchemaValidator().validate(user, { ...valid, role: 'admin' });
+    
+    expect(outcome.issues).toEqual([]);
+    expect(outcome.warnings.map(warning => [warning.code, warning.path])).toEqual([['extra-property', 'role']]);
+  });
+  
+  it('reports extra properties as issues in strict mode', () => {
+    const outcome = new SchemaValidator({ strict: true }).validate(user, { ...valid, role: 'admin' });
+    
+    expect(outcome.issues.map(issue => [issue.code, issue.path])).toEqual([['unrecognized-key', 'role']]);
+    expect(outcome.warnings).toEqual([]);
+  });
+  
+  it('accepts extra properties silently when they are allowed, even in strict mode', () => {
+    const outcome = new SchemaValidator({ strict: true, allowExtraProperties: true }).validate(user, { ...valid, role: 'admin' });
+    
+    expect(outcome.issues).toEqual([]);
+    expect(outcome.warnings).toEqual([]);
+  });
+  
+  it('applies defaults to the parsed value', () => {
+    const outcome = new SchemaValidator().validate(schemaOf('z.object({ page: z.number().default(1) })'), {});
+    
+    expect(outcome.issues).toEqual([]);
+    expect(outcome.value).toEqual({ page: 1 });
+  });
+  
+  it('warns instead of failing for schemas it cannot interpret', () => {
+    const outcome = new SchemaValidator().validate(schemaOf('z.object({ id: makeSchema() })'), { id: 42 });
+    
+    expect(outcome.issues).toEqual([]);
+    expect(outcome.warnings.map(warning => [warning.code, warning.path])).toEqual([['unchecked', 'id']]);
+  });
+});
@@ -0,0 +1,187 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { TypedAPIAdapter } from '../TypedAPIAdapter';
+
+const fixtures = path.resolve(__dirname, '../../tests/fixtures');
+
+describe('TypedAPIAdapter.validateHar', () => {
+  let adapter: TypedAPIAdapter;
+  let directory: string;
+  
+  /**
+   * Write a file into the test directory, returning its path
+   */
+  async function writeFile(name: string, content: string): Promise<string> {
+    const filePath = path.join(directory, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  }
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    adapter = new TypedAPIAdapter({ contractsBasePath: path.join(fixtures, 'contracts') });
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'typedapi-har-'));
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+  
+  it('validates the API calls under the base URL', async () => {
+    const report = await adapter.validateHar(path.join(fixtures, 'har/session.har'), { baseUrl: 'https://app.example.com/api' });
+    
+    expect(report.passed).toBe(false);
+    expect(report.summary).toEqual({ total: 11, valid: 5, invalid: 1, undocumented: 2, skipped: 3 });
+    expect(report.undocumented).toEqual(['GET /orders']);
+    expect(report.entries.map(entry => entry.index)).not.toContain(10);
+  });
+  
+  it('rejects files that cannot be read', async () => {
+    await expect(adapter.validateHar(path.join(directory, 'missing.har'))).rejects.toThrow(/^Failed to validate HAR file: .*ENOENT/);
+  });
+  
+  it('rejects files that are not JSON', async () => {
+    const harPath = await writeFile('broken.har', '{ "log": ');
+    
+    await expect(adapter.validateHar(harPath)).rejects.toThrow(/^Failed to validate HAR file: /);
+  });
+  
+  it('rejects JSON files without entries', async () => {
+    const harPath = await writeFile('empty.har', JSON.stringify({ log: { version: '1.2' } }));
+    
+    await expect(adapter.validateHar(harPath)).rejects.toThrow('Failed to validate HAR file: The file has no log.entries');
+  });
+  
+  it('skips malformed entries and reports unknown URLs as undocumented', async () => {
+    const harPath = await writeFile('partial.har', JSON.stringify({
+      log: {
+        entries: [
+          null,
+          { request: { method: 'GET' }, response: { status: 200 } },
+          { request: { method: 'GET', url: 'not a url' }, response: { status: 200 } }
+        ]
+      }
+    }));
+    
+    const report = await adapter.validateHar(harPath);
+    
+    expect(report.summary).toEqual({ total: 3, valid: 0, invalid: 0, undocumented: 1, skipped: 2 });
+    expect(report.entries.map(entry => [entry.index, entry.undocumented])).toEqual([[2, true]]);
+    expect(report.passed).toBe(false);
+  });
+});
+
+describe('TypedAPIAdapter.createMiddleware', () => {
+  const url = '/users/6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b/permissions';
+  const body = [{ resource: 'reports', permissions: ['read'] }];
+  const badRequest = { error: 'invalid', code: 400, message: 'Invalid permissions' };
+  let adapter: TypedAPIAdapter;
+  
+  /**
+   * A response with the parts of an Express response the middleware uses
+   */
+  function createResponse(headers: Record<string, string> = {}) {
+    const res: { statusCode: number; json: jest.Mock; getHeaders: () => Record<string, string> } = {
+      statusCode: 200,
+      json: jest.fn(() => res),
+      getHeaders: () => headers
+    };
+    return res;
+  }
+  
+  /**
+   * Run the middleware until it passes the request on
+   */
+  function run(middleware: ReturnType<TypedAPIAdapter['createMiddleware']>, req: any, res: any, next: jest.Mock): Promise<void> {
+    return new Promise(resolve => middleware(req, res, (error?: any) => {
+      next(error);
+      resolve();
+    }));
+  }
+  
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    adapter = new TypedAPIAdapter({ contractsBasePath: path.join(fixtures, 'contracts') });
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('sends bodies as soon as res.json is called and collects the validations', async () => {
+    const middleware = adapter.createMiddleware();
+    const res = createResponse();
+    const json = res.json;
+    const next = jest.fn();
+    
+    await run(middleware, { method: 'PUT', url, body }, res, next);
+    res.statusCode = 400;
+    const returned = res.json({ error: 'invalid' });
+    
+    expect(next).toHaveBeenCalledWith(undefined);
+    expect(json).toHaveBeenCalledWith({ error: 'invalid' });
+    expect(returned).toBe(res);
+    expect(middleware.results.map(result => [result.phase, result.contractId, result.status, result.validation.success])).toEqual([
+      ['request', 'users/permissions', undefined, true],
+      ['response', 'users/permissions', 400, false]
+    ]);
+  });
+  
+  it('validates the response headers set so far', async () => {
+    const middleware = adapter.createMiddleware();
+    const res = createResponse({ 'content-type': 'text/plain' });
+    
+    await run(middleware, { method: 'PUT', url, body }, res, jest.fn());
+    res.statusCode = 400;
+    res.json(badRequest);
+    
+    expect(middleware.violations().map(result => result.validation.errors)).toEqual([
+      ['Expected a JSON response for status 400, got Content-Type "text/plain"']
+    ]);
+  });
+  
+  it('passes invalid responses to next in fail-fast mode without sending them', async () => {
+    const middleware = adapter.createMiddleware({ mode: 'fail-fast' });
+    const res = createResponse();
+    const json = res.json;
+    const next = jest.fn();
+    
+    await run(middleware, { method: 'PUT', url, body }, res, next);
+    res.statusCode = 400;
+    res.json({ error: 'invalid' });
+    
+    expect(json).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(next.mock.calls[1][0]).toMatchObject({ status: 500, validation: { success: false } });
+    expect(next.mock.calls[1][0].message).toMatch(/^Response 400 violates contract users\/permissions: /);
+    
+    res.json(badRequest);
+    expect(json).toHaveBeenCalledWith(badRequest);
+  });
+  
+  it('passes invalid requests to next in fail-fast mode', async () => {
+    const middleware = adapter.createMiddleware({ mode: 'fail-fast' });
+    const next = jest.fn();
+    
+    await run(middleware, { method: 'PUT', url, body: [{ resource: 'reports', permissions: [] }] }, createResponse(), next);
+    
+    expect(next.mock.calls[0][0]).toMatchObject({ status: 500 });
+    expect(next.mock.calls[0][0].message).toMatch(/^Request violates contract users\/permissions: /);
+  });
+  
+  it('passes requests without a contract through untouched', async () => {
+    const middleware = adapter.createMiddleware({ mode: 'fail-fast' });
+    const res = createResponse();
+    const json = res.json;
+    const next = jest.fn();
+    
+    await run(middleware, { method: 'GET', url: '/orders' }, res, next);
+    
+    expect(next).toHaveBeenCalledWith(undefined);
+    expect(res.json).toBe(json);
+    expect(middleware.results).toEqual([]);
+  });
+});
@@ -0,0 +1,18 @@
+import * as ts from 'typescript';
+import { SchemaInterpreter, SchemaNode } from '../SchemaInterpreter';
+
+/**
+ * Read a Zod schema expression the way contracts are read
+ * @param expression The schema expression, e.g. `z.string().uuid()`
+ * @param declarations Declarations the expression may refer to, e.g. `const UserSchema = z.object({})`
+ */
+export function schemaOf(expression: string, declarations: string = ''): SchemaNode {
+  const sourceFile = ts.createSourceFile(
+    'schema.ts',
+    `import { z } from 'zod';\n${declarations}\nconst schema = ${expression};`,
+    ts.ScriptTarget.ES2020,
+    true
+  );
+  const statement = sourceFile.statements[sourceFile.statements.length - 1] as ts.VariableStatement;
+  return new SchemaInterpreter(sourceFile).interpret(statement.declarationList.declarations[0].initializer!);
+}
@@ -1,10 +1,86 @@
 // Export the TypedAPI adapter
 export { TypedAPIAdapter, TypedAPIAdapterConfig } from './TypedAPIAdapter';
 export { TypedAPIAddon } from './TypedAPIAddon';
+export { SchemaInterpreter, isSchemaNode, describeSchemaType } from './SchemaInterpreter';
+export { ContractDiscovery, createContractId } from './ContractDiscovery';
+export { RouteMatcher } from './RouteMatcher';
+export { MockDataGenerator } from './MockDataGenerator';
+export { SeededRandom } from './SeededRandom';
+export { TypeGenerator } from './TypeGenerator';
+export { JsonSchemaConverter } from './JsonSchemaConverter';
+export { JsonSchemaExporter } from './JsonSchemaExporter';
+export { OpenAPIExporter, toOpenAPIPath } from './OpenAPIExporter';
+export { OpenAPIImporter, parseOpenAPIDocument } from './OpenAPIImporter';
+export { ContractDiffer } from './ContractDiffer';
+export { MockServer } from './MockServer';
+export { sendHttpRequest } from './HttpTransport';
+export { ContractProxy, CREDENTIAL_HEADERS, redactExchange } from './ContractProxy';
 
 // Export types
 export type { 
   ValidationResult, 
   GeneratedTypes, 
-  MockResponse 
-} from './TypedAPIAdapter';
\ No newline at end of file
+  GenerateTypesOptions,
+  ExportOpenAPIOptions,
+  OpenAPIExportResult,
+  ExportJsonSchemaOptions,
+  JsonSchemaExportResult,
+  ImportOpenAPIOptions,
+  OpenAPIImportResult,
+  MockResponse,
+  MockRequest,
+  MockRouteOverride,
+  VerifyProviderOptions,
+  ProviderRequest,
+  ProviderContractResult,
+  ProviderVerificationReport,
+  StartProxyOptions,
+  ExchangeValidation,
+  ExchangeReport,
+  ContractMiddlewareOptions,
+  ContractMiddleware,
+  ContractMiddlewareResult,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  ContractCallTypes,
+  ContractClientOptions,
+  ContractCallRequest,
+  ContractCallResult,
+  ContractClient,
+  ValidateHarOptions,
+  HarEntryResult,
+  HarValidationReport,
+  ContractSummary,
+  ContractFilter,
+  ContractTreeSource,
+  ContractRouteMatch
+} from './TypedAPIAdapter';
+export type { DiscoveredContract } from './ContractDiscovery';
+export type { RouteDefinition, RouteMatch, RouteMatchResult } from './RouteMatcher';
+export type { MockDataGeneratorOptions, MockGeneratorContext, CustomGenerator } from './MockDataGenerator';
+export type { LocaleDictionary } from './LocaleDictionaries';
+export type { ContractTypeSource, GeneratedContractTypes } from './TypeGenerator';
+export type { TypeExistenceResult, TypePropertyResult, TypeDeclarationKind } from './TypeInspector';
+export type { JsonSchema, JsonSchemaConverterOptions } from './JsonSchemaConverter';
+export type { JsonSchemaContractSource, JsonSchemaExportOptions, ContractJsonSchema } from './JsonSchemaExporter';
+export type { OpenAPIDocument, OpenAPIExportOptions, OpenAPIContractSource } from './OpenAPIExporter';
+export type { OpenAPIImportOptions, ImportedFile } from './OpenAPIImporter';
+export type { ContractSnapshot, ContractChange, ContractDiffReport, ChangeSeverity } from './ContractDiffer';
+export type { HttpRequestOptions, HttpResponse } from './HttpTransport';
+export type { ContractProxyOptions, RecordedExchange, ExchangeListener } from './ContractProxy';
+export type { MockServerOptions, MockServerRequest, MockServerResponse, MockServerHandler } from './MockServer';
+export type {
+  ValidationIssue,
+  ValidationSeverity,
+  SourceLocation
+} from './ValidationIssue';
+export type {
+  SchemaNode,
+  SchemaCheck,
+  SchemaLocation,
+  ObjectSchemaNode,
+  ArraySchemaNode,
+  UnionSchemaNode,
+  UnresolvedSchemaNode,
+  SchemaInterpreterOptions
+} from './SchemaInterpreter';
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Schemas shared by the user contracts
+
+export const UserSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  status: z.enum(['active', 'revoked', 'suspended'])
+});
+
+export const ErrorSchema = z.object({
+  error: z.string(),
+  message: z.string()
+});
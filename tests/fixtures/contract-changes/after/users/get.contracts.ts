@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { UserSchema, ErrorSchema } from '../shared/user';
+
+// Define the request schemas
+export const ParamsSchema = z.object({
+  userId: z.string().uuid()
+});
+
+export const QuerySchema = z.object({
+  sort: z.enum(['name', 'created']).optional()
+});
+
+// Define the contract
+export const Contract = {
+  path: '/users/:userId',
+  method: 'get',
+  summary: 'Get user by ID',
+  tags: ['users'],
+  auth: {
+    requiresAuthentication: true,
+    authorization: {
+      roles: ['admin']
+    }
+  },
+  params: ParamsSchema,
+  query: QuerySchema,
+  response: {
+    200: {
+      description: 'User found',
+      schema: z.object({
+        user: UserSchema
+      })
+    },
+    410: {
+      description: 'User deleted',
+      schema: ErrorSchema
+    }
+  }
+};
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// Schemas shared by the user contracts
+
+export const UserSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  nickname: z.string().optional(),
+  status: z.enum(['active', 'revoked'])
+});
+
+export const ErrorSchema = z.object({
+  error: z.string(),
+  message: z.string()
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { UserSchema, ErrorSchema } from '../shared/user';
+
+// Define the request schemas
+export const ParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+export const QuerySchema = z.object({
+  sort: z.enum(['name', 'created', 'email']).optional()
+});
+
+// Define the contract
+export const Contract = {
+  path: '/users/:id',
+  method: 'get',
+  summary: 'Get user by ID',
+  tags: ['users'],
+  auth: {
+    requiresAuthentication: true,
+    authorization: {
+      roles: ['user', 'admin']
+    }
+  },
+  params: ParamsSchema,
+  query: QuerySchema,
+  response: {
+    200: {
+      description: 'User found',
+      schema: z.object({
+        user: UserSchema
+      })
+    },
+    404: {
+      description: 'User not found',
+      schema: ErrorSchema
+    }
+  }
+};
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { UserSchema } from '../shared/user';
+
+// Define the request schemas
+export const ParamsSchema = z.object({
+  userId: z.string().uuid()
+});
+
+export const BodySchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email().optional()
+});
+
+// Define the contract
+export const Contract = {
+  path: '/users/:userId',
+  method: 'put',
+  summary: 'Update a user',
+  tags: ['users'],
+  params: ParamsSchema,
+  body: BodySchema,
+  response: {
+    200: {
+      description: 'User updated',
+      schema: UserSchema
+    }
+  }
+};
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+// Define the request schemas
+export const ParamsSchema = z.object({
+  keyId: z.string().uuid().describe('API key identifier')
+});
+
+// Define the response schemas for different status codes
+const ApiKeySchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  prefix: z.string().length(8),
+  status: z.enum(['active', 'revoked']),
+  createdAt: z.string().datetime()
+});
+
+const ErrorSchema = z.object({
+  error: z.string(),
+  code: z.number().int(),
+  message: z.string()
+});
+
+// Define the response union type
+export type Response =
+  | { status: 200; body: z.infer<typeof ApiKeySchema> }
+  | { status: 404; body: z.infer<typeof ErrorSchema> };
+
+// Define the contract
+export const Contract = {
+  path: '/admin/keys/:keyId',
+  method: 'get',
+  summary: 'Get API key',
+  description: 'Retrieve an API key by its identifier, without the secret',
+  tags: ['admin', 'keys'],
+  auth: {
+    requiresAuthentication: true,
+    authorization: {
+      roles: ['admin'],
+      scopes: ['keys:read']
+    }
+  },
+  params: ParamsSchema,
+  response: {
+    200: {
+      description: 'API key found',
+      schema: ApiKeySchema
+    },
+    404: {
+      description: 'API key not found',
+      schema: ErrorSchema
+    }
+  }
+};
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// Define the request schemas
+export const QuerySchema = z.object({
+  status: z.enum(['active', 'revoked']).optional().describe('Only list keys with this status')
+});
+
+// Define the response schemas
+const ApiKeySummarySchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  status: z.enum(['active', 'revoked'])
+});
+
+// Define the response union type
+export type Response =
+  | { status: 200; body: { keys: z.infer<typeof ApiKeySummarySchema>[] } };
+
+// Define the contract
+export const Contract = {
+  path: '/admin/keys',
+  method: 'get',
+  summary: 'List API keys',
+  tags: ['admin', 'keys'],
+  auth: {
+    requiresAuthentication: true,
+    authorization: {
+      roles: ['admin'],
+      scopes: ['keys:read']
+    }
+  },
+  query: QuerySchema,
+  response: {
+    200: {
+      description: 'API keys',
+      schema: z.object({
+        keys: z.array(ApiKeySummarySchema)
+      })
+    }
+  }
+};
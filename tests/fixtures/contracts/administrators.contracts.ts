@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// Define the response schemas
+const AdministratorSchema = z.object({
+  id: z.string().uuid(),
+  displayName: z.string()
+});
+
+// Define the response union type
+export type Response =
+  | { status: 200; body: { administrators: z.infer<typeof AdministratorSchema>[] } };
+
+// Define the contract
+export const Contract = {
+  path: '/administrators',
+  method: 'get',
+  summary: 'List the administrators of the workspace',
+  tags: ['users'],
+  auth: {
+    requiresAuthentication: true,
+    authorization: {
+      roles: ['user']
+    }
+  },
+  response: {
+    200: {
+      description: 'Administrators',
+      schema: z.object({
+        administrators: z.array(AdministratorSchema)
+      })
+    }
+  }
+};
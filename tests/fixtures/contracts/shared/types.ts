@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Schemas and types shared by several contracts
+
+export const AddressSchema = z.object({
+  street: z.string(),
+  city: z.string().nullable(),
+  country: z.string().length(2).describe('ISO 3166-1 alpha-2 country code')
+});
+
+export type Address = z.infer<typeof AddressSchema>;
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+}
+
+export type Role = 'user' | 'admin';
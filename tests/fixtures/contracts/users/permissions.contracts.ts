@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { AddressSchema } from '../shared/types';
+
+// Re-export the shared types the permissions API uses
+export type { Address, Pagination, Role } from '../shared/types';
+
+export type Permission = 'read' | 'write' | 'admin';
+
+export interface PermissionGrant {
+  resource: string;
+  permissions: Permission[];
+}
+
+// Define the request schemas
+export const ParamsSchema = z.object({
+  userId: z.string().uuid().describe('User unique identifier')
+});
+
+export const BodySchema = z.array(z.object({
+  resource: z.string().min(1),
+  permissions: z.array(z.enum(['read', 'write', 'admin'])).min(1)
+})).describe('Permissions to grant, per resource');
+
+// Define the response schemas for different status codes
+export const UserSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email(),
+  status: z.enum(['active', 'revoked']),
+  address: AddressSchema,
+  grants: z.array(z.object({
+    resource: z.string(),
+    permissions: z.array(z.enum(['read', 'write', 'admin']))
+  }))
+});
+
+export type User = z.infer<typeof UserSchema>;
+
+const ErrorSchema = z.object({
+  error: z.string(),
+  code: z.number().int(),
+  message: z.string()
+});
+
+// Define the response union type
+export type Response =
+  | { status: 200; body: User }
+  | { status: 400; body: z.infer<typeof ErrorSchema> };
+
+// Define the contract
+export const Contract = {
+  path: '/users/:userId/permissions',
+  method: 'put',
+  summary: 'Replace the permissions of a user',
+  tags: ['users'],
+  auth: {
+    requiresAuthentication: true,
+    authorization: {
+      roles: ['admin']
+    }
+  },
+  params: ParamsSchema,
+  body: BodySchema,
+  response: {
+    200: {
+      description: 'Permissions updated',
+      schema: UserSchema
+    },
+    400: {
+      description: 'Bad request, invalid permissions',
+      schema: ErrorSchema
+    }
+  }
+};